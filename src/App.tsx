@@ -1,43 +1,199 @@
 import type { CSSProperties } from 'react'
-import { useEffect, useMemo, useState } from 'react'
+import { useEffect, useId, useMemo, useState } from 'react'
+import AnalyticsDashboard from './components/AnalyticsDashboard'
+import CompareTray from './components/CompareTray'
+import DiagnosticsPanel from './components/DiagnosticsPanel'
+import DisplayPreferencesControls from './components/DisplayPreferencesControls'
+import FacetLayout from './components/FacetLayout'
+import HometownPanel from './components/HometownPanel'
+import InjuryReport from './components/InjuryReport'
+import PlayerCompareModal from './components/PlayerCompareModal'
 import PlayerInfoModal from './components/PlayerInfoModal'
-import RosterCards from './components/RosterCards'
-import RosterTable from './components/RosterTable'
+import RosterChangesPanel from './components/RosterChangesPanel'
+import RosterPanel from './components/RosterPanel'
+import ScheduleView from './components/ScheduleView'
+import SnapshotPicker from './components/SnapshotPicker'
 import SearchField from './components/SearchField'
+import TeamPicker from './components/TeamPicker'
+import ThemeModeToggle from './components/ThemeModeToggle'
+import ViewTabs from './components/ViewTabs'
+import { useDebouncedValue } from './hooks/useDebouncedValue'
+import { useDiagnostics } from './hooks/useDiagnostics'
+import { useDisplayPreferences } from './hooks/useDisplayPreferences'
+import { useFavorites } from './hooks/useFavorites'
+import { useInjuryLog } from './hooks/useInjuryLog'
+import { usePersistentState } from './hooks/usePersistentState'
 import { useRoster } from './hooks/useRoster'
-import { DEFAULT_SORT } from './lib/roster/constants'
+import { useRosterHistory } from './hooks/useRosterHistory'
+import { useSchedule } from './hooks/useSchedule'
+import { useTeams } from './hooks/useTeams'
+import { useTeamTheme } from './hooks/useTeamTheme'
+import { useThemeMode } from './hooks/useThemeMode'
+import { useUrlState } from './hooks/useUrlState'
+import {
+  buildFacetGroups,
+  countSelectedFacets,
+  EMPTY_FACET_SELECTION,
+  matchesFacets,
+  omitFacets,
+  toggleFacetValue,
+} from './lib/filters/facets'
+import { inferHomeState } from './lib/analytics/stats'
+import { MIN_COMPARED_PLAYERS } from './lib/compare/constants'
+import { makeBaselinePlayer, resolveComparedPlayers, toggleComparedPlayer } from './lib/compare/data'
+import { keepFavorites } from './lib/favorites/data'
+import { getInjuryStatus } from './lib/injuries/data'
+import { HOMETOWN_FACET_KEYS } from './lib/hometowns/data'
+import { buildFlipCardUrl, getPlayerReference, matchesPlayerReference, readUrlState } from './lib/navigation/url'
+import { DEFAULT_COLUMN_LAYOUT, isColumnLayout, normalizeColumnLayout } from './lib/roster/columns'
+import { COLUMN_LAYOUT_STORAGE_KEY, DEFAULT_TEAM_ID } from './lib/roster/constants'
 import {
   buildRecordHighlights,
   computeRecordSummary,
   filterAndSortPlayers,
   formatLastUpdated,
+  formatSnapshotDate,
   formatUpcomingEvent,
 } from './lib/roster/formatters'
-import type { SortConfig, SortKey } from './types/roster'
+import { RESULT_COUNT_ANNOUNCEMENT_DELAY_MS } from './lib/search/constants'
+import { buildSearchVocabulary, getSearchHints } from './lib/search/hints'
+import { getHighlightTerms, parseSearchQuery, searchPlayers } from './lib/search/query'
+import { SELECTED_TEAM_STORAGE_KEY } from './lib/teams/constants'
+import { isTeamId } from './lib/teams/data'
+import type { FacetKey, FacetSelection } from './types/filters'
+import type { UrlState } from './types/navigation'
+import type { Player, SortConfig } from './types/roster'
+import type { AppView, ViewTab } from './types/views'
 
 function App() {
-  const { players, recordSummary, recordStats, teamMeta, loading, error, notice, lastUpdated } = useRoster()
-  const [searchTerm, setSearchTerm] = useState('')
-  const [sortConfig, setSortConfig] = useState<SortConfig>(DEFAULT_SORT)
-  const [selectedPlayerId, setSelectedPlayerId] = useState<string | null>(null)
+  const [initialUrlState] = useState(readUrlState)
+  const [teamId, setTeamId] = usePersistentState(
+    SELECTED_TEAM_STORAGE_KEY,
+    DEFAULT_TEAM_ID,
+    isTeamId,
+    initialUrlState.teamId,
+  )
+  const { teams, loading: teamsLoading } = useTeams()
+  const {
+    players,
+    recordSummary,
+    recordStats,
+    teamMeta,
+    loading,
+    error,
+    notice,
+    lastUpdated,
+    changes,
+    isRefreshing,
+    staleSince,
+    refresh,
+  } = useRoster(teamId)
+  const [searchTerm, setSearchTerm] = useState(initialUrlState.search)
+  const [sortConfig, setSortConfig] = useState<SortConfig>(initialUrlState.sort)
+  const [facets, setFacets] = useState<FacetSelection>(initialUrlState.facets)
+  const [storedColumnLayout, setColumnLayout] = usePersistentState(
+    COLUMN_LAYOUT_STORAGE_KEY,
+    DEFAULT_COLUMN_LAYOUT,
+    isColumnLayout,
+  )
+  const columnLayout = useMemo(() => normalizeColumnLayout(storedColumnLayout), [storedColumnLayout])
+  // A player id, or a slug from a shared link until the roster it belongs to has loaded.
+  const [selectedPlayerId, setSelectedPlayerId] = useState<string | null>(initialUrlState.player)
+  const [activeView, setActiveView] = useState<AppView>(initialUrlState.view)
+  // Player references picked for comparison, baseline first; a shared comparison link opens straight away.
+  const [compareSelection, setCompareSelection] = useState<string[]>(initialUrlState.compare)
+  const [isCompareOpen, setIsCompareOpen] = useState(initialUrlState.compare.length >= MIN_COMPARED_PLAYERS)
+  const viewPanelId = useId()
+
+  const opponentId = teamMeta?.nextEvent?.opponentId ?? null
+  const opponentRoster = useRoster(opponentId)
+  const schedule = useSchedule(teamId)
+  const rosterHistory = useRosterHistory(teamId)
+  const diagnostics = useDiagnostics()
+  const { favorites, toggleFavorite, setNote, importFavorites } = useFavorites()
+  const { locale, t } = useDisplayPreferences()
+  const injuryLog = useInjuryLog(teamId)
+  const [favoritesOnly, setFavoritesOnly] = useState(false)
+  const viewingSnapshot = rosterHistory.snapshot
+  const rosterPlayers = viewingSnapshot?.players ?? players
+
+  const activePlayers = activeView === 'opponent' ? opponentRoster.players : rosterPlayers
 
   const selectedPlayer = useMemo(
-    () => players.find((player) => player.id === selectedPlayerId) ?? null,
-    [players, selectedPlayerId],
+    () =>
+      selectedPlayerId === null
+        ? null
+        : (activePlayers.find((player) => matchesPlayerReference(player, selectedPlayerId)) ?? null),
+    [activePlayers, selectedPlayerId],
   )
+  const isPlayerModalOpen = selectedPlayer !== null
+
+  // Players can be picked from both rosters, so the next opponent can be compared with the home team.
+  const comparedPlayers = useMemo(
+    () => resolveComparedPlayers(compareSelection, [...rosterPlayers, ...opponentRoster.players]),
+    [compareSelection, rosterPlayers, opponentRoster.players],
+  )
+  const isCompareModalOpen = isCompareOpen && comparedPlayers.length >= MIN_COMPARED_PLAYERS
+  const isOverlayOpen = isPlayerModalOpen || isCompareModalOpen
+
+  const urlState = useMemo<UrlState>(
+    () => ({
+      teamId,
+      view: activeView,
+      search: searchTerm,
+      sort: sortConfig,
+      facets,
+      player: selectedPlayer ? getPlayerReference(selectedPlayer) : selectedPlayerId,
+      compare: isCompareOpen ? compareSelection : [],
+    }),
+    [
+      teamId,
+      activeView,
+      searchTerm,
+      sortConfig,
+      facets,
+      selectedPlayer,
+      selectedPlayerId,
+      isCompareOpen,
+      compareSelection,
+    ],
+  )
+
+  const applyUrlState = (state: UrlState) => {
+    setTeamId(state.teamId ?? DEFAULT_TEAM_ID)
+    setActiveView(state.view)
+    setSearchTerm(state.search)
+    setSortConfig(state.sort)
+    setFacets(state.facets)
+    setSelectedPlayerId(state.player)
+    // Closing a comparison keeps the picks, so it can be reopened or adjusted.
+    if (state.compare.length) {
+      setCompareSelection(state.compare)
+    }
+    setIsCompareOpen(state.compare.length >= MIN_COMPARED_PLAYERS)
+  }
+
+  const { leaveOverlayEntry } = useUrlState(urlState, applyUrlState)
+
+  useEffect(() => {
+    if (typeof document !== 'undefined') {
+      document.documentElement.lang = locale
+    }
+  }, [locale])
 
   useEffect(() => {
     if (typeof window === 'undefined') {
       return
     }
 
-    if (!selectedPlayerId) {
+    if (!isOverlayOpen) {
       return
     }
 
     const handleKeyDown = (event: KeyboardEvent) => {
-      if (event.key === 'Escape') {
+      if (event.key === 'Escape' && !leaveOverlayEntry()) {
         setSelectedPlayerId(null)
+        setIsCompareOpen(false)
       }
     }
 
@@ -51,7 +207,7 @@ function App() {
       window.removeEventListener('keydown', handleKeyDown)
       body.style.overflow = previousOverflow
     }
-  }, [selectedPlayerId])
+  }, [isOverlayOpen, leaveOverlayEntry])
 
   const makeStaggerStyle = (index: number): CSSProperties => ({
     animationDelay: `${Math.min(index, 12) * 45}ms`,
@@ -62,32 +218,102 @@ function App() {
     [recordSummary, recordStats],
   )
 
-  const recordHighlights = useMemo(() => buildRecordHighlights(recordStats), [recordStats])
+  const recordHighlights = useMemo(() => buildRecordHighlights(recordStats, locale), [recordStats, locale])
 
-  const upcomingEvent = useMemo(() => formatUpcomingEvent(teamMeta), [teamMeta])
+  const upcomingEvent = useMemo(() => formatUpcomingEvent(teamMeta, locale), [teamMeta, locale])
 
-  const filteredPlayers = useMemo(
-    () => filterAndSortPlayers(players, searchTerm, sortConfig),
-    [players, searchTerm, sortConfig],
+  const parsedSearch = useMemo(() => parseSearchQuery(searchTerm), [searchTerm])
+  const highlightTerms = useMemo(() => getHighlightTerms(parsedSearch.terms), [parsedSearch])
+  const searchVocabulary = useMemo(() => buildSearchVocabulary(activePlayers), [activePlayers])
+  const searchHints = useMemo(() => getSearchHints(searchTerm, searchVocabulary), [searchTerm, searchVocabulary])
+
+  const filteredPlayers = useMemo(() => {
+    const matches = filterAndSortPlayers(rosterPlayers, searchTerm, sortConfig, facets)
+    return favoritesOnly ? keepFavorites(matches, favorites) : matches
+  }, [rosterPlayers, searchTerm, sortConfig, facets, favoritesOnly, favorites])
+
+  const filteredOpponentPlayers = useMemo(() => {
+    const matches = filterAndSortPlayers(opponentRoster.players, searchTerm, sortConfig, facets)
+    return favoritesOnly ? keepFavorites(matches, favorites) : matches
+  }, [opponentRoster.players, searchTerm, sortConfig, facets, favoritesOnly, favorites])
+
+  const facetGroups = useMemo(
+    () => buildFacetGroups(searchPlayers(activePlayers, searchTerm), facets),
+    [activePlayers, searchTerm, facets],
   )
+  const selectedFacetCount = countSelectedFacets(facets)
 
-  const formattedLastUpdated = useMemo(() => formatLastUpdated(lastUpdated), [lastUpdated])
+  const hometownPlayers = useMemo(() => {
+    const otherFacets = omitFacets(facets, HOMETOWN_FACET_KEYS)
+    return searchPlayers(rosterPlayers, searchTerm).filter((player) => matchesFacets(player, otherFacets))
+  }, [rosterPlayers, searchTerm, facets])
+
+  const injuredCount = useMemo(
+    () => rosterPlayers.filter((player) => getInjuryStatus(player) !== null).length,
+    [rosterPlayers],
+  )
+
+  const homeState = useMemo(() => inferHomeState(schedule.games, teamMeta), [schedule.games, teamMeta])
+
+  const formattedLastUpdated = useMemo(
+    () => formatLastUpdated(viewingSnapshot ? viewingSnapshot.updatedAt : lastUpdated, locale),
+    [viewingSnapshot, lastUpdated, locale],
+  )
+  const formattedOpponentLastUpdated = useMemo(
+    () => formatLastUpdated(opponentRoster.lastUpdated, locale),
+    [opponentRoster.lastUpdated, locale],
+  )
+  const formattedScheduleLastUpdated = useMemo(
+    () => formatLastUpdated(schedule.lastUpdated, locale),
+    [schedule.lastUpdated, locale],
+  )
+
+  const selectedTeam = useMemo(() => teams.find((team) => team.id === teamId) ?? null, [teams, teamId])
+  const { mode: themeMode, setMode: setThemeMode } = useThemeMode()
+  // The team list knows the colours as soon as a team is picked; the roster only once it has loaded.
+  useTeamTheme(selectedTeam ?? teamMeta)
 
   const teamRankValue = teamMeta?.rank ?? null
   const teamShortDisplay = teamMeta?.shortDisplayName ?? null
   const teamLocation = teamMeta?.location ?? null
+  const teamDisplayName = teamMeta?.displayName ?? selectedTeam?.displayName ?? t('app.teamFallback')
+  const teamHeading = teamMeta?.location ?? selectedTeam?.location ?? teamMeta?.shortDisplayName ?? teamDisplayName
+  const teamNickname = teamMeta?.nickname ?? selectedTeam?.nickname ?? null
 
-  const handleSort = (key: SortKey) => {
-    setSortConfig((current) => {
-      if (current.key === key) {
-        return {
-          key,
-          direction: current.direction === 'asc' ? 'desc' : 'asc',
-        }
-      }
+  const viewTabs: ViewTab[] = [
+    { id: 'roster', label: teamMeta?.shortDisplayName ?? selectedTeam?.shortDisplayName ?? t('tabs.roster') },
+    {
+      id: 'opponent',
+      label: t('tabs.opponent'),
+      description: upcomingEvent?.opponentAbbreviation ?? (opponentId ? null : t('tabs.opponentUnknown')),
+      disabled: !opponentId,
+    },
+    { id: 'schedule', label: t('tabs.schedule') },
+    { id: 'injuries', label: t('tabs.injuries'), description: injuredCount ? String(injuredCount) : null },
+    { id: 'dashboard', label: t('tabs.dashboard') },
+  ]
+
+  const handleViewChange = (view: AppView) => {
+    setSelectedPlayerId(null)
+    setActiveView(view)
+  }
 
-      return { key, direction: 'asc' }
-    })
+  const handleFacetToggle = (key: FacetKey, value: string) => {
+    setFacets((current) => toggleFacetValue(current, key, value))
+  }
+
+  const clearFacets = () => {
+    setFacets(EMPTY_FACET_SELECTION)
+  }
+
+  const handleTeamChange = (nextTeamId: string) => {
+    setSelectedPlayerId(null)
+    setSearchTerm('')
+    setFacets(EMPTY_FACET_SELECTION)
+    setActiveView('roster')
+    setCompareSelection([])
+    setIsCompareOpen(false)
+    setTeamId(nextTeamId)
   }
 
   const openPlayerModal = (playerId: string) => {
@@ -95,32 +321,85 @@ function App() {
   }
 
   const closePlayerModal = () => {
-    setSelectedPlayerId(null)
+    // Closing a player opened in this visit steps back through history, as the back button would.
+    if (!leaveOverlayEntry()) {
+      setSelectedPlayerId(null)
+    }
+  }
+
+  const handleToggleCompare = (player: Player) => {
+    setCompareSelection((current) => toggleComparedPlayer(current, player))
+  }
+
+  const handleMakeBaseline = (player: Player) => {
+    setCompareSelection((current) => makeBaselinePlayer(current, player))
+  }
+
+  const openCompareModal = () => {
+    // Picks whose roster has gone (a team or snapshot switch) would otherwise ride along in the link.
+    setCompareSelection(comparedPlayers.map(getPlayerReference))
+    setIsCompareOpen(true)
+  }
+
+  const closeCompareModal = () => {
+    if (!leaveOverlayEntry()) {
+      setIsCompareOpen(false)
+    }
   }
 
+  const favoritesEmptyMessage = favorites.playerIds.length ? t('app.noMatchingFavorites') : t('app.noFavorites')
+
+  // Announce how many players match once typing settles, for screen readers that can't see the list update.
+  const activeResultCount =
+    activeView === 'opponent'
+      ? filteredOpponentPlayers.length
+      : activeView === 'roster' || activeView === 'dashboard'
+        ? filteredPlayers.length
+        : null
+  const activeViewLoading = activeView === 'opponent' ? opponentRoster.loading : loading
+  const isFiltering = searchTerm.trim() !== '' || selectedFacetCount > 0 || favoritesOnly
+  const resultCountMessage =
+    activeResultCount === null || activeViewLoading || !isFiltering
+      ? ''
+      : t(activeResultCount === 1 ? 'app.resultCount.one' : 'app.resultCount.other', { count: activeResultCount })
+  const announcedResultCount = useDebouncedValue(resultCountMessage, RESULT_COUNT_ANNOUNCEMENT_DELAY_MS)
+
+  const showCompareTray =
+    (activeView === 'roster' || activeView === 'opponent') && comparedPlayers.length > 0 && !isCompareModalOpen
+
   return (
-    <main className="mx-auto flex min-h-screen max-w-5xl flex-col gap-8 px-4 py-8 sm:px-8 lg:px-12">
+    <main
+      className={`mx-auto flex min-h-screen max-w-5xl flex-col gap-8 px-4 py-8 sm:px-8 lg:px-12 ${
+        showCompareTray ? 'pb-40' : ''
+      }`}
+    >
       <SearchField
         value={searchTerm}
         onChange={setSearchTerm}
-        containerClassName="animate-fade-in-up sticky top-[calc(env(safe-area-inset-top)+1rem)] z-40 rounded-3xl bg-white/95 p-4 shadow-xl ring-1 ring-slate-100 backdrop-blur supports-[backdrop-filter]:bg-white/70 md:hidden"
+        errors={parsedSearch.errors}
+        hints={searchHints}
+        containerClassName="animate-fade-in-up sticky top-[calc(env(safe-area-inset-top)+1rem)] z-40 rounded-3xl bg-surface/95 p-4 shadow-xl ring-1 ring-slate-100 backdrop-blur supports-[backdrop-filter]:bg-surface/70 md:hidden"
         style={{ animationDelay: '60ms' }}
       />
 
+      <p role="status" aria-live="polite" className="sr-only">
+        {announcedResultCount}
+      </p>
+
       <header
-        className="animate-fade-in-up flex flex-col gap-6 rounded-3xl bg-white/90 p-6 shadow-xl ring-1 ring-slate-100 md:flex-row md:items-start md:justify-between md:gap-10 lg:p-8"
+        className="animate-fade-in-up flex flex-col gap-6 rounded-3xl bg-surface/90 p-6 shadow-xl ring-1 ring-slate-100 md:flex-row md:items-start md:justify-between md:gap-10 lg:p-8"
         style={{ animationDelay: '80ms' }}
       >
         <div className="flex-1 space-y-4">
           <p className="inline-flex items-center gap-2 text-sm font-medium uppercase tracking-[0.3em] text-slate-500">
-            <span className="h-2 w-2 rounded-full bg-hoosier-red" aria-hidden="true" />
-            Hoosiers Football
-          </p>
-          <h1 className="text-3xl font-semibold text-hoosier-red sm:text-4xl">Indiana Football Roster</h1>
-          <p className="max-w-2xl text-base text-slate-600 sm:text-lg">
-            Search the full Indiana University roster, powered by live data from ESPN. Find players by name, number,
-            position, class, or hometown in seconds.
+            <span className="h-2 w-2 rounded-full bg-team-accent" aria-hidden="true" />
+            {teamNickname ? t('app.kicker', { nickname: teamNickname }) : t('app.kickerFallback')}
           </p>
+          <h1 className="text-3xl font-semibold text-team sm:text-4xl">{t('app.title', { team: teamHeading })}</h1>
+          <p className="max-w-2xl text-base text-slate-600 sm:text-lg">{t('app.intro', { team: teamDisplayName })}</p>
+          <a href={buildFlipCardUrl(teamId, opponentId !== null)} className="inline-block text-sm font-semibold">
+            {t('app.flipCardLink')}
+          </a>
           {(computedRecordSummary ||
             recordHighlights.length > 0 ||
             teamMeta?.rank !== null ||
@@ -128,10 +407,12 @@ function App() {
             upcomingEvent) && (
             <div className="grid gap-4 sm:grid-cols-2">
               {(computedRecordSummary || recordHighlights.length > 0) && (
-                <div className="rounded-2xl border border-slate-200 bg-white/70 p-4 shadow-sm supports-[backdrop-filter]:bg-white/60">
+                <div className="rounded-2xl border border-slate-200 bg-surface/70 p-4 shadow-sm supports-[backdrop-filter]:bg-surface/60">
                   {computedRecordSummary && (
                     <div>
-                      <p className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">Current Record</p>
+                      <p className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">
+                        {t('app.currentRecord')}
+                      </p>
                       <p className="mt-1 text-2xl font-semibold text-slate-900">{computedRecordSummary}</p>
                     </div>
                   )}
@@ -139,7 +420,9 @@ function App() {
                     <dl className={`grid grid-cols-2 gap-3 text-sm text-slate-600 ${computedRecordSummary ? 'mt-4' : ''}`}>
                       {recordHighlights.map((item) => (
                         <div key={item.label}>
-                          <dt className="text-xs font-semibold uppercase tracking-wide text-slate-500">{item.label}</dt>
+                          <dt className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                            {t(item.label)}
+                          </dt>
                           <dd className="mt-1 text-base font-semibold text-slate-900">{item.value}</dd>
                         </div>
                       ))}
@@ -149,10 +432,12 @@ function App() {
               )}
 
               {(teamRankValue !== null || teamMeta?.standingSummary) && (
-                <div className="rounded-2xl border border-slate-200 bg-white/70 p-4 shadow-sm supports-[backdrop-filter]:bg-white/60">
-                  <p className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">Team Status</p>
+                <div className="rounded-2xl border border-slate-200 bg-surface/70 p-4 shadow-sm supports-[backdrop-filter]:bg-surface/60">
+                  <p className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">
+                    {t('app.teamStatus')}
+                  </p>
                   <p className="mt-1 text-2xl font-semibold text-slate-900">
-                    {teamRankValue !== null ? `#${teamRankValue}` : 'Unranked'}
+                    {teamRankValue !== null ? `#${teamRankValue}` : t('app.unranked')}
                   </p>
                   <div className="mt-2 space-y-1 text-sm text-slate-600">
                     {teamMeta?.standingSummary && <p>{teamMeta.standingSummary}</p>}
@@ -167,8 +452,10 @@ function App() {
               )}
 
               {upcomingEvent && (
-                <div className="sm:col-span-2 rounded-2xl border border-slate-200 bg-white/70 p-4 shadow-sm supports-[backdrop-filter]:bg-white/60">
-                  <p className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">Next Game</p>
+                <div className="sm:col-span-2 rounded-2xl border border-slate-200 bg-surface/70 p-4 shadow-sm supports-[backdrop-filter]:bg-surface/60">
+                  <p className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">
+                    {t('app.nextGame')}
+                  </p>
                   <p className="mt-1 text-xl font-semibold text-slate-900">{upcomingEvent.opponent}</p>
                   <div className="mt-3 space-y-1 text-sm text-slate-600">
                     {upcomingEvent.formattedDate && <p>{upcomingEvent.formattedDate}</p>}
@@ -181,15 +468,17 @@ function App() {
                       </p>
                     )}
                     {upcomingEvent.broadcasts.length > 0 && (
-                      <p>Broadcast: {upcomingEvent.broadcasts.join(', ')}</p>
+                      <p>{t('app.broadcast', { networks: upcomingEvent.broadcasts.join(', ') })}</p>
                     )}
                     {upcomingEvent.ticketsSummary && (
                       <p>
                         {upcomingEvent.ticketsSummary}
                         {upcomingEvent.ticketsStartingPrice !== null
-                          ? ` • From $${upcomingEvent.ticketsStartingPrice.toLocaleString(undefined, {
-                              minimumFractionDigits: 0,
-                              maximumFractionDigits: 0,
+                          ? ` • ${t('app.ticketsFrom', {
+                              price: `$${upcomingEvent.ticketsStartingPrice.toLocaleString(locale, {
+                                minimumFractionDigits: 0,
+                                maximumFractionDigits: 0,
+                              })}`,
                             })}`
                           : ''}
                       </p>
@@ -201,62 +490,223 @@ function App() {
             </div>
           )}
         </div>
-        <div className="hidden w-full max-w-sm md:block">
-          <SearchField value={searchTerm} onChange={setSearchTerm} containerClassName="max-w-sm" />
+        <div className="w-full space-y-4 md:max-w-sm">
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            <DisplayPreferencesControls />
+            <ThemeModeToggle mode={themeMode} onChange={setThemeMode} />
+          </div>
+          <TeamPicker teams={teams} selectedTeamId={teamId} onSelect={handleTeamChange} loading={teamsLoading} />
+          <div className="hidden md:block">
+            <SearchField
+              value={searchTerm}
+              onChange={setSearchTerm}
+              errors={parsedSearch.errors}
+              hints={searchHints}
+              containerClassName="max-w-sm"
+            />
+          </div>
         </div>
       </header>
 
       <section
-        className="animate-fade-in-up rounded-3xl bg-white/95 p-4 shadow-xl ring-1 ring-slate-100 sm:p-6"
+        className="animate-fade-in-up rounded-3xl bg-surface/95 p-4 shadow-xl ring-1 ring-slate-100 sm:p-6"
         style={{ animationDelay: '140ms' }}
       >
-        {loading && (
-          <div className="flex h-40 items-center justify-center text-base font-medium text-slate-600">
-            <span className="animate-pulse">Loading roster…</span>
-          </div>
-        )}
-
-        {!loading && notice && !error && (
-          <div
-            className="animate-fade-in-up mb-4 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm font-semibold text-amber-900"
-            style={{ animationDelay: '180ms' }}
-          >
-            {notice}
-          </div>
-        )}
+        <div className="mb-6">
+          <ViewTabs tabs={viewTabs} activeView={activeView} onChange={handleViewChange} panelId={viewPanelId} />
+        </div>
 
-        {!loading && error && (
-          <div className="animate-fade-in-up flex h-40 items-center justify-center text-center text-base font-semibold text-hoosier-red">
-            {error}
-          </div>
-        )}
-
-        {!loading && !error && (
-          <div className="space-y-6">
-            {formattedLastUpdated && (
-              <p className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-400">
-                Last updated {formattedLastUpdated}
-              </p>
-            )}
-
-            <div className="hidden md:block">
-              <RosterTable
-                players={filteredPlayers}
-                sortConfig={sortConfig}
-                onSort={handleSort}
-                onSelect={openPlayerModal}
-                makeRowStyle={makeStaggerStyle}
+        <div id={viewPanelId} role="tabpanel" aria-labelledby={`${viewPanelId}-tab-${activeView}`}>
+          {activeView === 'roster' && (
+            <div className="space-y-4">
+              <SnapshotPicker
+                entries={rosterHistory.entries}
+                selectedKey={rosterHistory.selectedKey}
+                onSelect={rosterHistory.selectSnapshot}
               />
+              {viewingSnapshot ? (
+                <div className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-sky-200 bg-sky-50 px-4 py-3 text-sm font-semibold text-sky-900 dark:border-sky-800 dark:bg-sky-950/40 dark:text-sky-100">
+                  <span>
+                    {t('app.snapshotNotice', { date: formatSnapshotDate(viewingSnapshot.snapshotDate, locale) })}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => rosterHistory.selectSnapshot(null)}
+                    className="rounded-full bg-surface px-3 py-1 text-xs font-semibold uppercase tracking-wide text-sky-900 shadow-sm transition hover:bg-sky-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-sky-700 dark:text-sky-100 dark:hover:bg-sky-900/60 dark:focus-visible:outline-sky-400"
+                  >
+                    {t('app.backToLive')}
+                  </button>
+                </div>
+              ) : (
+                !loading && !error && <RosterChangesPanel changes={changes} onSelect={openPlayerModal} />
+              )}
+              {rosterPlayers.length > 0 && (
+                <HometownPanel players={hometownPlayers} facets={facets} onFacetsChange={setFacets} />
+              )}
+              <FacetLayout
+                groups={facetGroups}
+                selectedCount={selectedFacetCount}
+                resultCount={filteredPlayers.length}
+                onToggle={handleFacetToggle}
+                onClear={clearFacets}
+              >
+                <RosterPanel
+                  players={filteredPlayers}
+                  loading={viewingSnapshot ? false : loading || rosterHistory.loading}
+                  error={viewingSnapshot ? null : error}
+                  notice={viewingSnapshot ? null : notice}
+                  formattedLastUpdated={formattedLastUpdated}
+                  sortConfig={sortConfig}
+                  onSortChange={setSortConfig}
+                  columnLayout={columnLayout}
+                  onColumnLayoutChange={setColumnLayout}
+                  exportFileName={t('app.exportFileName', { team: teamDisplayName })}
+                  onSelect={openPlayerModal}
+                  makeStaggerStyle={makeStaggerStyle}
+                  onRefresh={viewingSnapshot ? undefined : refresh}
+                  loadingMessage={t('app.loadingRoster')}
+                  isRefreshing={isRefreshing}
+                  staleSince={viewingSnapshot ? null : staleSince}
+                  highlightTerms={highlightTerms}
+                  compareSelection={compareSelection}
+                  onToggleCompare={handleToggleCompare}
+                  favorites={favorites}
+                  onToggleFavorite={toggleFavorite}
+                  favoritesOnly={favoritesOnly}
+                  onFavoritesOnlyChange={setFavoritesOnly}
+                  onImportFavorites={importFavorites}
+                  emptyMessage={favoritesOnly ? favoritesEmptyMessage : undefined}
+                />
+              </FacetLayout>
             </div>
+          )}
 
-            <div className="md:hidden">
-              <RosterCards players={filteredPlayers} onSelect={openPlayerModal} makeCardStyle={makeStaggerStyle} />
+          {activeView === 'opponent' && (
+            <div className="space-y-4">
+              {upcomingEvent && (
+                <p className="text-sm text-slate-600">
+                  {t('app.scouting')} <span className="font-semibold text-slate-900">{upcomingEvent.opponent}</span>
+                  {upcomingEvent.formattedDate ? ` • ${upcomingEvent.formattedDate}` : ''}
+                </p>
+              )}
+              <FacetLayout
+                groups={facetGroups}
+                selectedCount={selectedFacetCount}
+                resultCount={filteredOpponentPlayers.length}
+                onToggle={handleFacetToggle}
+                onClear={clearFacets}
+              >
+                <RosterPanel
+                  players={filteredOpponentPlayers}
+                  loading={opponentRoster.loading}
+                  error={opponentRoster.error}
+                  notice={opponentRoster.notice}
+                  formattedLastUpdated={formattedOpponentLastUpdated}
+                  sortConfig={sortConfig}
+                  onSortChange={setSortConfig}
+                  columnLayout={columnLayout}
+                  onColumnLayoutChange={setColumnLayout}
+                  exportFileName={t('app.exportFileName', {
+                    team: upcomingEvent?.opponent ?? t('app.opponentFallback'),
+                  })}
+                  onSelect={openPlayerModal}
+                  makeStaggerStyle={makeStaggerStyle}
+                  onRefresh={opponentRoster.refresh}
+                  isRefreshing={opponentRoster.isRefreshing}
+                  staleSince={opponentRoster.staleSince}
+                  loadingMessage={t('app.loadingOpponentRoster')}
+                  highlightTerms={highlightTerms}
+                  compareSelection={compareSelection}
+                  onToggleCompare={handleToggleCompare}
+                  favorites={favorites}
+                  onToggleFavorite={toggleFavorite}
+                  favoritesOnly={favoritesOnly}
+                  onFavoritesOnlyChange={setFavoritesOnly}
+                  onImportFavorites={importFavorites}
+                  emptyMessage={favoritesOnly ? favoritesEmptyMessage : undefined}
+                />
+              </FacetLayout>
             </div>
-          </div>
-        )}
+          )}
+
+          {activeView === 'schedule' && (
+            <ScheduleView
+              games={schedule.games}
+              loading={schedule.loading}
+              error={schedule.error}
+              notice={schedule.notice}
+              formattedLastUpdated={formattedScheduleLastUpdated}
+              makeStaggerStyle={makeStaggerStyle}
+            />
+          )}
+
+          {activeView === 'injuries' &&
+            (!rosterPlayers.length && (loading || error) ? (
+              <div className="flex h-40 items-center justify-center text-base font-medium text-slate-600">
+                {loading ? (
+                  <span className="animate-pulse">{t('app.loadingRoster')}</span>
+                ) : (
+                  <span className="font-semibold text-team">{error}</span>
+                )}
+              </div>
+            ) : (
+              <InjuryReport players={rosterPlayers} logEntries={injuryLog} onSelect={openPlayerModal} />
+            ))}
+
+          {activeView === 'dashboard' && (
+            <FacetLayout
+              groups={facetGroups}
+              selectedCount={selectedFacetCount}
+              resultCount={filteredPlayers.length}
+              onToggle={handleFacetToggle}
+              onClear={clearFacets}
+            >
+              {!rosterPlayers.length && (loading || error) ? (
+                <div className="flex h-40 items-center justify-center text-base font-medium text-slate-600">
+                  {loading ? (
+                    <span className="animate-pulse">{t('app.loadingRoster')}</span>
+                  ) : (
+                    <span className="font-semibold text-team">{error}</span>
+                  )}
+                </div>
+              ) : (
+                <AnalyticsDashboard players={filteredPlayers} homeState={homeState} onSelect={openPlayerModal} />
+              )}
+            </FacetLayout>
+          )}
+        </div>
       </section>
 
-      <PlayerInfoModal player={selectedPlayer} onClose={closePlayerModal} />
+      {showCompareTray && (
+        <CompareTray
+          players={comparedPlayers}
+          onRemove={handleToggleCompare}
+          onCompare={openCompareModal}
+          onClear={() => setCompareSelection([])}
+        />
+      )}
+
+      <PlayerInfoModal
+        player={selectedPlayer}
+        onClose={closePlayerModal}
+        favorites={favorites}
+        onToggleFavorite={toggleFavorite}
+        onNoteChange={setNote}
+      />
+      <PlayerCompareModal
+        players={isCompareModalOpen ? comparedPlayers : null}
+        onMakeBaseline={handleMakeBaseline}
+        onClose={closeCompareModal}
+      />
+
+      {diagnostics.isOpen && (
+        <DiagnosticsPanel
+          entries={diagnostics.entries}
+          teams={teams}
+          onClose={diagnostics.close}
+          onClear={diagnostics.clear}
+        />
+      )}
     </main>
   )
 }
@@ -0,0 +1,174 @@
+import type { ReactNode } from 'react'
+import { useMemo, useState } from 'react'
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences'
+import {
+  buildClassBreakdown,
+  buildHomeStateShare,
+  buildLeaderboard,
+  buildPositionDistributions,
+  buildUnitAverages,
+} from '../lib/analytics/stats'
+import { formatMeasurement } from '../lib/units/data'
+import type { LeaderboardEntry, SizeMetric } from '../types/analytics'
+import type { Player } from '../types/roster'
+import type { UnitSystem } from '../types/units'
+import BarChart from './BarChart'
+import DistributionChart from './DistributionChart'
+import ShareBar from './ShareBar'
+
+type AnalyticsDashboardProps = {
+  /** Players matching the current search and filters. */
+  players: Player[]
+  /** Postal code of the team's home state, for the in-state share. */
+  homeState: string | null
+  onSelect: (playerId: string) => void
+}
+
+const SIZE_METRICS: { id: SizeMetric; label: string }[] = [
+  { id: 'height', label: 'Height' },
+  { id: 'weight', label: 'Weight' },
+]
+
+const DashboardCard = ({
+  title,
+  className = '',
+  children,
+}: {
+  title: string
+  className?: string
+  children: ReactNode
+}) => (
+  <section className={`rounded-2xl border border-slate-200 bg-surface/70 p-4 shadow-sm ${className}`}>
+    <h3 className="mb-3 text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">{title}</h3>
+    {children}
+  </section>
+)
+
+const Leaderboard = ({
+  entries,
+  metric,
+  units,
+  onSelect,
+}: {
+  entries: LeaderboardEntry[]
+  metric: SizeMetric
+  units: UnitSystem
+  onSelect: (playerId: string) => void
+}) => (
+  <ol className="space-y-1.5 text-sm">
+    {entries.map(({ player, value }, index) => (
+      <li key={player.id} className="flex items-baseline gap-2">
+        <span className="w-4 text-right text-xs font-semibold tabular-nums text-slate-400">{index + 1}</span>
+        <button
+          type="button"
+          onClick={() => onSelect(player.id)}
+          className="truncate text-left font-semibold text-slate-800 transition hover:text-team focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+        >
+          {player.displayName}
+        </button>
+        <span className="text-xs text-slate-500">{player.positionAbbreviation ?? player.position}</span>
+        <span className="ml-auto tabular-nums text-slate-700">{formatMeasurement(value, metric, units)}</span>
+      </li>
+    ))}
+    {entries.length === 0 && <li className="text-slate-500">No players list a {metric}.</li>}
+  </ol>
+)
+
+/**
+ * Aggregate view of the listed players: size by position group and unit, class make-up, where the roster
+ * was recruited from and the biggest players. Everything follows the search and filters.
+ */
+const AnalyticsDashboard = ({ players, homeState, onSelect }: AnalyticsDashboardProps) => {
+  const [metric, setMetric] = useState<SizeMetric>('weight')
+  const { units } = useDisplayPreferences()
+
+  const distributions = useMemo(() => buildPositionDistributions(players, metric), [players, metric])
+  const classBreakdown = useMemo(() => buildClassBreakdown(players), [players])
+  const unitAverages = useMemo(() => buildUnitAverages(players), [players])
+  const homeStateShare = useMemo(() => buildHomeStateShare(players, homeState), [players, homeState])
+  const heaviest = useMemo(() => buildLeaderboard(players, 'weight'), [players])
+  const tallest = useMemo(() => buildLeaderboard(players, 'height'), [players])
+
+  if (!players.length) {
+    return <p className="py-10 text-center text-sm font-medium text-slate-500">No players match the current filters.</p>
+  }
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <DashboardCard title="Size by position" className="lg:col-span-2">
+        <div className="mb-3 flex gap-2" role="group" aria-label="Measurement">
+          {SIZE_METRICS.map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => setMetric(option.id)}
+              aria-pressed={metric === option.id}
+              className={`rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-wide transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team ${
+                metric === option.id
+                  ? 'bg-team text-team-contrast'
+                  : 'bg-slate-100 text-slate-500 hover:bg-team/10 hover:text-team'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <DistributionChart rows={distributions} metric={metric} units={units} onSelect={onSelect} />
+        <p className="mt-2 text-xs text-slate-400">
+          Boxes cover the middle half of each group, the bar marks the median and each dot is a player.
+        </p>
+      </DashboardCard>
+
+      <DashboardCard title="Class breakdown">
+        <BarChart bars={classBreakdown} label="Players by class" />
+      </DashboardCard>
+
+      <DashboardCard title="Average size by unit">
+        <dl className="grid grid-cols-3 gap-3 text-center">
+          {unitAverages.map((entry) => (
+            <div key={entry.unit} className="rounded-xl bg-slate-50 px-2 py-3">
+              <dt className="text-xs font-semibold uppercase tracking-wide text-slate-500">{entry.label}</dt>
+              <dd className="mt-1 text-lg font-bold tabular-nums text-slate-900">
+                {entry.averageHeight !== null ? formatMeasurement(entry.averageHeight, 'height', units) : '—'}
+              </dd>
+              <dd className="text-sm tabular-nums text-slate-700">
+                {entry.averageWeight !== null ? formatMeasurement(entry.averageWeight, 'weight', units) : '—'}
+              </dd>
+              <dd className="mt-1 text-xs text-slate-400">{entry.playerCount} players</dd>
+            </div>
+          ))}
+        </dl>
+      </DashboardCard>
+
+      <DashboardCard title={homeStateShare.homeState ? `In-state (${homeStateShare.homeState})` : 'Home state'}>
+        <ShareBar
+          label="Players by where they were born"
+          segments={[
+            { label: 'In-state', count: homeStateShare.inState, className: 'fill-team' },
+            { label: 'Out-of-state', count: homeStateShare.outOfState, className: 'fill-slate-400' },
+            { label: 'International', count: homeStateShare.international, className: 'fill-sky-500' },
+            { label: 'Unknown', count: homeStateShare.unknown, className: 'fill-slate-200' },
+          ]}
+        />
+        {!homeStateShare.homeState && (
+          <p className="mt-2 text-xs text-slate-400">The team's home state couldn't be worked out from its schedule.</p>
+        )}
+      </DashboardCard>
+
+      <DashboardCard title="Biggest players">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <h4 className="mb-2 text-sm font-semibold text-slate-700">Heaviest</h4>
+            <Leaderboard entries={heaviest} metric="weight" units={units} onSelect={onSelect} />
+          </div>
+          <div>
+            <h4 className="mb-2 text-sm font-semibold text-slate-700">Tallest</h4>
+            <Leaderboard entries={tallest} metric="height" units={units} onSelect={onSelect} />
+          </div>
+        </div>
+      </DashboardCard>
+    </div>
+  )
+}
+
+export default AnalyticsDashboard
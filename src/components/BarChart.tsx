@@ -0,0 +1,54 @@
+import type { CountBar } from '../types/analytics'
+
+type BarChartProps = {
+  bars: CountBar[]
+  label: string
+}
+
+const LABEL_WIDTH = 110
+const PLOT_WIDTH = 260
+const BAR_HEIGHT = 18
+const BAR_GAP = 8
+
+/** Horizontal bars with the count at the end of each; sized to the longest bar. */
+const BarChart = ({ bars, label }: BarChartProps) => {
+  if (!bars.length) {
+    return <p className="text-sm text-slate-500">Nothing to chart.</p>
+  }
+
+  const maxCount = Math.max(...bars.map((bar) => bar.count))
+  const height = bars.length * (BAR_HEIGHT + BAR_GAP) - BAR_GAP
+
+  return (
+    <svg viewBox={`0 0 ${LABEL_WIDTH + PLOT_WIDTH + 30} ${height}`} className="w-full" role="img" aria-label={label}>
+      {bars.map((bar, index) => {
+        const y = index * (BAR_HEIGHT + BAR_GAP)
+        const width = Math.max((bar.count / maxCount) * PLOT_WIDTH, 2)
+
+        return (
+          <g key={bar.label}>
+            <title>{`${bar.label}: ${bar.count}`}</title>
+            <text
+              x={LABEL_WIDTH - 8}
+              y={y + BAR_HEIGHT / 2 + 4}
+              textAnchor="end"
+              className="fill-slate-600 text-[11px] font-semibold"
+            >
+              {bar.label}
+            </text>
+            <rect x={LABEL_WIDTH} y={y} width={width} height={BAR_HEIGHT} rx={4} className="fill-team/80" />
+            <text
+              x={LABEL_WIDTH + width + 6}
+              y={y + BAR_HEIGHT / 2 + 4}
+              className="fill-slate-700 text-[11px] tabular-nums"
+            >
+              {bar.count}
+            </text>
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
+
+export default BarChart
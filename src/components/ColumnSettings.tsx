@@ -0,0 +1,140 @@
+import type { DragEvent } from 'react'
+import { useCallback, useId, useRef, useState } from 'react'
+import { useDismiss } from '../hooks/useDismiss'
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences'
+import { DEFAULT_COLUMN_LAYOUT, getRosterColumn, moveColumn, toggleColumnVisibility } from '../lib/roster/columns'
+import type { ColumnLayout, SortKey } from '../types/roster'
+
+type ColumnSettingsProps = {
+  layout: ColumnLayout
+  onChange: (layout: ColumnLayout) => void
+}
+
+const moveButtonClassName =
+  'rounded-md px-1.5 py-0.5 text-xs text-slate-400 transition hover:bg-slate-100 hover:text-team focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team disabled:pointer-events-none disabled:opacity-30'
+
+/**
+ * "Columns" menu: checkboxes show or hide each roster column, and rows can be dragged (or moved with the
+ * arrow buttons) to reorder them. The table and the mobile cards both follow the result.
+ */
+const ColumnSettings = ({ layout, onChange }: ColumnSettingsProps) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const { t } = useDisplayPreferences()
+  const [draggingKey, setDraggingKey] = useState<SortKey | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const menuId = useId()
+
+  const close = useCallback(() => setIsOpen(false), [])
+
+  useDismiss(containerRef, isOpen, close)
+
+  const handleDragOver = (event: DragEvent<HTMLLIElement>, key: SortKey) => {
+    if (!draggingKey) {
+      return
+    }
+
+    event.preventDefault()
+
+    if (draggingKey !== key) {
+      onChange(moveColumn(layout, draggingKey, key))
+    }
+  }
+
+  const isDefaultLayout =
+    layout.order.join() === DEFAULT_COLUMN_LAYOUT.order.join() &&
+    [...layout.hidden].sort().join() === [...DEFAULT_COLUMN_LAYOUT.hidden].sort().join()
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((current) => !current)}
+        aria-expanded={isOpen}
+        aria-controls={menuId}
+        className="inline-flex items-center gap-1.5 rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:bg-team/10 hover:text-team focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+      >
+        Columns
+      </button>
+
+      {isOpen && (
+        <div
+          id={menuId}
+          className="animate-fade-in-up absolute right-0 z-30 mt-2 w-64 rounded-2xl border border-slate-200 bg-surface p-3 shadow-xl"
+        >
+          <div className="mb-2 flex items-center justify-between gap-2 px-1">
+            <p className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">Columns</p>
+            {!isDefaultLayout && (
+              <button
+                type="button"
+                onClick={() => onChange(DEFAULT_COLUMN_LAYOUT)}
+                className="text-xs font-semibold text-team underline-offset-2 hover:underline focus-visible:underline focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+          <p className="mb-2 px-1 text-xs text-slate-400">Drag to reorder.</p>
+          <ul className="space-y-0.5">
+            {layout.order.map((key, index) => {
+              const column = getRosterColumn(key)
+              const label = t(column.label)
+              const isVisible = !layout.hidden.includes(key)
+
+              return (
+                <li
+                  key={key}
+                  draggable
+                  onDragStart={(event) => {
+                    event.dataTransfer.effectAllowed = 'move'
+                    event.dataTransfer.setData('text/plain', key)
+                    setDraggingKey(key)
+                  }}
+                  onDragOver={(event) => handleDragOver(event, key)}
+                  onDrop={(event) => event.preventDefault()}
+                  onDragEnd={() => setDraggingKey(null)}
+                  className={`flex cursor-grab items-center gap-2 rounded-lg px-1 py-1 text-sm transition hover:bg-slate-50 ${
+                    draggingKey === key ? 'bg-team/5 opacity-60' : ''
+                  }`}
+                >
+                  <span className="select-none text-slate-300" aria-hidden="true">
+                    ⋮⋮
+                  </span>
+                  <label className="flex flex-1 cursor-pointer items-center gap-2 text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={isVisible}
+                      disabled={column.locked}
+                      onChange={() => onChange(toggleColumnVisibility(layout, key))}
+                      className="h-4 w-4 rounded border-slate-300 accent-team focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+                    />
+                    {label}
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => onChange(moveColumn(layout, key, layout.order[index - 1]))}
+                    disabled={index === 0}
+                    aria-label={`Move ${label} earlier`}
+                    className={moveButtonClassName}
+                  >
+                    ▲
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onChange(moveColumn(layout, key, layout.order[index + 1]))}
+                    disabled={index === layout.order.length - 1}
+                    aria-label={`Move ${label} later`}
+                    className={moveButtonClassName}
+                  >
+                    ▼
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ColumnSettings
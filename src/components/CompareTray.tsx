@@ -0,0 +1,71 @@
+import { MAX_COMPARED_PLAYERS, MIN_COMPARED_PLAYERS } from '../lib/compare/constants'
+import type { Player } from '../types/roster'
+
+type CompareTrayProps = {
+  /** The picked players that are on a loaded roster, in selection order. */
+  players: Player[]
+  onRemove: (player: Player) => void
+  onCompare: () => void
+  onClear: () => void
+}
+
+/** Floating bar listing the players picked for comparison, with the button that opens it. */
+const CompareTray = ({ players, onRemove, onCompare, onClear }: CompareTrayProps) => {
+  if (!players.length) {
+    return null
+  }
+
+  const missing = MIN_COMPARED_PLAYERS - players.length
+
+  return (
+    <div className="fixed inset-x-0 bottom-4 z-40 flex justify-center px-4">
+      <div
+        className="animate-fade-in-up flex max-w-3xl flex-wrap items-center gap-2 rounded-2xl bg-surface px-4 py-3 shadow-2xl ring-1 ring-slate-200"
+        role="region"
+        aria-label="Players to compare"
+      >
+        <span className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">
+          Compare {players.length}/{MAX_COMPARED_PLAYERS}
+        </span>
+        <ul className="flex flex-wrap gap-1.5">
+          {players.map((player) => (
+            <li
+              key={player.id}
+              className="flex items-center gap-1 rounded-full bg-slate-100 py-0.5 pl-3 pr-1 text-sm text-slate-700"
+            >
+              {player.displayName}
+              <button
+                type="button"
+                onClick={() => onRemove(player)}
+                aria-label={`Remove ${player.displayName} from comparison`}
+                className="rounded-full px-1.5 text-slate-400 transition hover:text-team focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onClear}
+            className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:bg-team/10 hover:text-team focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+          >
+            Clear
+          </button>
+          <button
+            type="button"
+            onClick={onCompare}
+            disabled={missing > 0}
+            title={missing > 0 ? `Pick ${missing} more to compare` : undefined}
+            className="rounded-full bg-team px-4 py-2 text-sm font-semibold text-team-contrast shadow-sm transition hover:bg-team/90 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Compare
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default CompareTray
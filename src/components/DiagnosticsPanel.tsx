@@ -0,0 +1,156 @@
+import {
+  formatDuration,
+  formatErrorKind,
+  formatRequestTime,
+  formatResponseStatus,
+  listUnknownFields,
+} from '../lib/diagnostics/formatters'
+import type { DiagnosticsEntry } from '../types/diagnostics'
+import type { TeamSummary } from '../types/teams'
+
+type DiagnosticsPanelProps = {
+  entries: DiagnosticsEntry[]
+  teams: TeamSummary[]
+  onClose: () => void
+  onClear: () => void
+}
+
+const DiagnosticsEntryDetails = ({ entry, teamName }: { entry: DiagnosticsEntry; teamName: string }) => {
+  const { payload, error } = entry
+  const unknownFields = payload ? listUnknownFields(payload.unknownFields) : []
+  const hasProblems = Boolean(error) || Boolean(payload && (payload.rejected.length || payload.warnings.length))
+
+  return (
+    <details className="group rounded-2xl border border-slate-200 bg-surface px-4 py-3">
+      <summary className="flex cursor-pointer list-none items-center justify-between gap-3 text-sm">
+        <span className="flex min-w-0 items-center gap-2">
+          <span
+            className={`h-2 w-2 shrink-0 rounded-full ${error ? 'bg-team' : hasProblems ? 'bg-amber-500' : 'bg-emerald-500'}`}
+            aria-hidden="true"
+          />
+          <span className="truncate font-semibold text-slate-800">
+            {teamName} {entry.resource}
+          </span>
+        </span>
+        <span className="flex shrink-0 items-center gap-2 text-xs text-slate-500">
+          {formatRequestTime(entry.startedAt)} · {formatResponseStatus(entry)} · {formatDuration(entry.durationMs)}
+          <span className="text-slate-400 transition group-open:rotate-180" aria-hidden="true">
+            ▼
+          </span>
+        </span>
+      </summary>
+
+      <dl className="mt-3 grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-xs text-slate-600">
+        <dt className="font-semibold text-slate-500">Source</dt>
+        <dd>{entry.sourceId}</dd>
+        <dt className="font-semibold text-slate-500">Request</dt>
+        <dd className="break-all font-mono">{entry.url ?? '—'}</dd>
+        <dt className="font-semibold text-slate-500">Status</dt>
+        <dd>{formatResponseStatus(entry)}</dd>
+        <dt className="font-semibold text-slate-500">Timing</dt>
+        <dd>
+          {formatDuration(entry.durationMs)} ({entry.background ? 'background refresh' : 'foreground load'})
+        </dd>
+        {payload && (
+          <>
+            <dt className="font-semibold text-slate-500">Athletes</dt>
+            <dd>
+              {payload.acceptedCount} of {payload.athleteCount} accepted
+              {payload.rejected.length ? `, ${payload.rejected.length} skipped` : ''}
+            </dd>
+          </>
+        )}
+      </dl>
+
+      {error && (
+        <p className="mt-3 rounded-xl bg-team/10 px-3 py-2 text-xs font-semibold text-team">
+          {formatErrorKind(error.kind)}: {error.message}
+        </p>
+      )}
+
+      {payload && payload.warnings.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs text-amber-900 dark:text-amber-200">
+          {payload.warnings.map((warning) => (
+            <li key={warning}>⚠ {warning}</li>
+          ))}
+        </ul>
+      )}
+
+      {payload && payload.rejected.length > 0 && (
+        <div className="mt-3">
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Rejected records</p>
+          <ul className="mt-1 space-y-1 text-xs text-slate-600">
+            {payload.rejected.map((record) => (
+              <li key={record.index}>
+                <span className="font-mono text-slate-400">#{record.index}</span>{' '}
+                {record.name ?? record.id ?? 'Unnamed record'}: {record.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {unknownFields.length > 0 && (
+        <div className="mt-3">
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Unknown athlete fields</p>
+          <ul className="mt-1 flex flex-wrap gap-1.5 text-xs">
+            {unknownFields.map(({ field, count }) => (
+              <li key={field} className="rounded-full bg-slate-100 px-2 py-0.5 font-mono text-slate-700">
+                {field} ×{count}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </details>
+  )
+}
+
+const DiagnosticsPanel = ({ entries, teams, onClose, onClear }: DiagnosticsPanelProps) => {
+  const resolveTeamName = (teamId: string) =>
+    teams.find((team) => team.id === teamId)?.shortDisplayName ?? `Team ${teamId}`
+
+  return (
+    <aside
+      aria-label="Data diagnostics"
+      className="fixed inset-x-4 bottom-4 z-50 flex max-h-[70vh] flex-col rounded-3xl bg-slate-50/95 shadow-2xl ring-1 ring-slate-200 backdrop-blur sm:left-auto sm:w-[28rem]"
+    >
+      <div className="flex items-center justify-between gap-3 border-b border-slate-200 px-5 py-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">Data diagnostics</p>
+          <p className="text-xs text-slate-400">Last {entries.length} requests · Ctrl+Shift+D to toggle</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onClear}
+            disabled={!entries.length}
+            className="rounded-full bg-surface px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-600 shadow-sm transition hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-50 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+          >
+            Clear
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close diagnostics"
+            className="rounded-full bg-surface px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-600 shadow-sm transition hover:bg-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2 overflow-y-auto p-4">
+        {entries.length ? (
+          entries.map((entry) => (
+            <DiagnosticsEntryDetails key={entry.id} entry={entry} teamName={resolveTeamName(entry.teamId)} />
+          ))
+        ) : (
+          <p className="py-6 text-center text-sm text-slate-500">No requests recorded yet.</p>
+        )}
+      </div>
+    </aside>
+  )
+}
+
+export default DiagnosticsPanel
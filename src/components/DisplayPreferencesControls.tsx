@@ -0,0 +1,57 @@
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences'
+import { LOCALE_NAMES, LOCALES } from '../lib/i18n/constants'
+import { isLocale } from '../lib/i18n/data'
+import { UNIT_SYSTEMS } from '../lib/units/constants'
+import type { MessageKey } from '../types/i18n'
+import type { UnitSystem } from '../types/units'
+
+const UNIT_SYSTEM_LABELS: Record<UnitSystem, { label: MessageKey; description: MessageKey }> = {
+  imperial: { label: 'preferences.imperial', description: 'preferences.imperialDescription' },
+  metric: { label: 'preferences.metric', description: 'preferences.metricDescription' },
+}
+
+/** Language picker and imperial/metric switch; both apply everywhere at once and are remembered. */
+const DisplayPreferencesControls = () => {
+  const { locale, units, setLocale, setUnits, t } = useDisplayPreferences()
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={locale}
+        onChange={(event) => {
+          if (isLocale(event.target.value)) {
+            setLocale(event.target.value)
+          }
+        }}
+        aria-label={t('preferences.language')}
+        className="rounded-full border border-slate-200 bg-surface px-3 py-1 text-xs font-semibold text-slate-600 shadow-sm focus:border-team focus:outline-none focus:ring-2 focus:ring-team/20"
+      >
+        {LOCALES.map((option) => (
+          <option key={option} value={option} lang={option}>
+            {LOCALE_NAMES[option]}
+          </option>
+        ))}
+      </select>
+      <div className="flex items-center gap-1" role="group" aria-label={t('preferences.units')}>
+        {UNIT_SYSTEMS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setUnits(option)}
+            aria-pressed={units === option}
+            title={t(UNIT_SYSTEM_LABELS[option].description)}
+            className={`rounded-full px-3 py-1 text-xs font-semibold tracking-wide transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team ${
+              units === option
+                ? 'bg-team text-team-contrast'
+                : 'bg-slate-100 text-slate-500 hover:bg-team/10 hover:text-team'
+            }`}
+          >
+            {t(UNIT_SYSTEM_LABELS[option].label)}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default DisplayPreferencesControls
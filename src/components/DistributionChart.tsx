@@ -0,0 +1,121 @@
+import { formatMeasurement } from '../lib/units/data'
+import type { PositionDistribution, SizeMetric } from '../types/analytics'
+import type { UnitSystem } from '../types/units'
+
+type DistributionChartProps = {
+  rows: PositionDistribution[]
+  metric: SizeMetric
+  units: UnitSystem
+  onSelect?: (playerId: string) => void
+}
+
+const LABEL_WIDTH = 150
+const PLOT_WIDTH = 480
+const ROW_HEIGHT = 34
+const AXIS_HEIGHT = 22
+const TICK_COUNT = 5
+
+/** Pads the domain a little and snaps it to whole inches or 10 lb steps so ticks read cleanly. */
+const getDomain = (rows: PositionDistribution[], metric: SizeMetric) => {
+  const step = metric === 'height' ? 1 : 10
+  const min = Math.min(...rows.map((row) => row.distribution.min))
+  const max = Math.max(...rows.map((row) => row.distribution.max))
+
+  return [Math.floor(min / step) * step - step, Math.ceil(max / step) * step + step] as const
+}
+
+/**
+ * Box-and-strip plot: one row per position group with the middle half as a box, the median as a bar,
+ * whiskers to the extremes and every player as a dot. All rows share one scale so groups compare directly.
+ */
+const DistributionChart = ({ rows, metric, units, onSelect }: DistributionChartProps) => {
+  if (!rows.length) {
+    return <p className="text-sm text-slate-500">No players list a {metric}.</p>
+  }
+
+  const [domainMin, domainMax] = getDomain(rows, metric)
+  const scale = (value: number) => LABEL_WIDTH + ((value - domainMin) / (domainMax - domainMin)) * PLOT_WIDTH
+  const ticks = Array.from(
+    { length: TICK_COUNT },
+    (_, index) => domainMin + ((domainMax - domainMin) * index) / (TICK_COUNT - 1),
+  )
+  const height = rows.length * ROW_HEIGHT + AXIS_HEIGHT
+
+  return (
+    <svg
+      viewBox={`0 0 ${LABEL_WIDTH + PLOT_WIDTH + 12} ${height}`}
+      className="w-full"
+      role="img"
+      aria-label={`${metric === 'height' ? 'Height' : 'Weight'} by position group`}
+    >
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line x1={scale(tick)} x2={scale(tick)} y1={0} y2={height - AXIS_HEIGHT} className="stroke-slate-100" />
+          <text x={scale(tick)} y={height - 6} textAnchor="middle" className="fill-slate-400 text-[10px]">
+            {formatMeasurement(tick, metric, units)}
+          </text>
+        </g>
+      ))}
+
+      {rows.map(({ key, label, distribution }, index) => {
+        const centerY = index * ROW_HEIGHT + ROW_HEIGHT / 2
+        const summary = `${label}: median ${formatMeasurement(distribution.median, metric, units)}, range ${formatMeasurement(
+          distribution.min,
+          metric,
+          units,
+        )} to ${formatMeasurement(distribution.max, metric, units)}, ${distribution.points.length} players`
+
+        return (
+          <g key={key}>
+            <title>{summary}</title>
+            <text
+              x={LABEL_WIDTH - 10}
+              y={centerY + 4}
+              textAnchor="end"
+              className="fill-slate-600 text-[11px] font-semibold"
+            >
+              {label}
+            </text>
+            <line
+              x1={scale(distribution.min)}
+              x2={scale(distribution.max)}
+              y1={centerY}
+              y2={centerY}
+              className="stroke-slate-300"
+            />
+            <rect
+              x={scale(distribution.q1)}
+              y={centerY - 9}
+              width={Math.max(scale(distribution.q3) - scale(distribution.q1), 1)}
+              height={18}
+              rx={3}
+              className="fill-team/15 stroke-team/40"
+            />
+            <line
+              x1={scale(distribution.median)}
+              x2={scale(distribution.median)}
+              y1={centerY - 9}
+              y2={centerY + 9}
+              strokeWidth={2}
+              className="stroke-team"
+            />
+            {distribution.points.map(({ player, value }) => (
+              <circle
+                key={player.id}
+                cx={scale(value)}
+                cy={centerY}
+                r={3}
+                onClick={onSelect ? () => onSelect(player.id) : undefined}
+                className={`fill-slate-700/50 ${onSelect ? 'cursor-pointer hover:fill-team' : ''}`}
+              >
+                <title>{`${player.displayName}: ${formatMeasurement(value, metric, units)}`}</title>
+              </circle>
+            ))}
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
+
+export default DistributionChart
@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useId, useRef, useState } from 'react'
+import { useDismiss } from '../hooks/useDismiss'
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences'
+import { copyText, downloadTextFile } from '../lib/export/download'
+import { buildExportFileName, EXPORT_MIME_TYPES, serializePlayers } from '../lib/export/formats'
+import type { RosterColumn } from '../lib/roster/columns'
+import type { ExportFormat } from '../types/export'
+import type { Player } from '../types/roster'
+
+type ExportMenuProps = {
+  /** The rows as listed (already searched, filtered and sorted). */
+  players: Player[]
+  /** Visible columns in display order. */
+  columns: RosterColumn[]
+  /** Start of the downloaded file name, e.g. "Indiana roster". */
+  fileName: string
+}
+
+const STATUS_TIMEOUT_MS = 2500
+
+const itemClassName =
+  'flex w-full flex-col rounded-xl px-3 py-2 text-left transition hover:bg-slate-50 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team'
+
+const EXPORT_OPTIONS: Array<{ format: ExportFormat; label: string; description: string }> = [
+  { format: 'csv', label: 'Download CSV', description: 'Opens in Excel, Numbers or Sheets' },
+  { format: 'json', label: 'Download JSON', description: 'One object per player' },
+  { format: 'tsv', label: 'Copy for spreadsheet', description: 'Tab-separated, paste straight into cells' },
+]
+
+/** Exports exactly what the roster is showing: the current rows, sort order and visible columns. */
+const ExportMenu = ({ players, columns, fileName }: ExportMenuProps) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+  const { units, t } = useDisplayPreferences()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const menuId = useId()
+
+  const close = useCallback(() => setIsOpen(false), [])
+
+  useDismiss(containerRef, isOpen, close)
+
+  useEffect(() => {
+    if (!status) {
+      return
+    }
+
+    const timeoutId = window.setTimeout(() => setStatus(null), STATUS_TIMEOUT_MS)
+
+    return () => {
+      window.clearTimeout(timeoutId)
+    }
+  }, [status])
+
+  const rowLabel = `${players.length} ${players.length === 1 ? 'player' : 'players'}`
+
+  const handleExport = async (format: ExportFormat) => {
+    const contents = serializePlayers(format, players, columns, { units, t })
+    setIsOpen(false)
+
+    if (format !== 'tsv') {
+      downloadTextFile(contents, buildExportFileName(fileName, format), EXPORT_MIME_TYPES[format])
+      return
+    }
+
+    try {
+      await copyText(contents)
+      setStatus(`Copied ${rowLabel}`)
+    } catch (copyError) {
+      console.error('Unable to copy roster', copyError)
+      setStatus('Copy failed')
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((current) => !current)}
+        disabled={players.length === 0}
+        aria-expanded={isOpen}
+        aria-controls={menuId}
+        className="inline-flex items-center gap-1.5 rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:bg-team/10 hover:text-team focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        Export
+      </button>
+      <span role="status" className="absolute right-0 top-full mt-1 whitespace-nowrap text-xs font-semibold text-slate-500">
+        {status}
+      </span>
+
+      {isOpen && (
+        <div
+          id={menuId}
+          className="animate-fade-in-up absolute right-0 z-30 mt-2 w-64 rounded-2xl border border-slate-200 bg-surface p-2 shadow-xl"
+        >
+          <p className="px-3 pb-1 pt-2 text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">
+            Export {rowLabel}
+          </p>
+          {EXPORT_OPTIONS.map((option) => (
+            <button key={option.format} type="button" onClick={() => handleExport(option.format)} className={itemClassName}>
+              <span className="text-sm font-semibold text-slate-800">{option.label}</span>
+              <span className="text-xs text-slate-500">{option.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ExportMenu
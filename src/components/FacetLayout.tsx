@@ -0,0 +1,102 @@
+import type { ReactNode } from 'react'
+import { useEffect, useId, useState } from 'react'
+import type { FacetGroup, FacetKey } from '../types/filters'
+import FacetPanel from './FacetPanel'
+
+type FacetLayoutProps = {
+  groups: FacetGroup[]
+  selectedCount: number
+  resultCount: number
+  onToggle: (key: FacetKey, value: string) => void
+  onClear: () => void
+  children: ReactNode
+}
+
+/**
+ * Puts the facet checkboxes in a sidebar next to `children` on desktop, and behind a "Filters" button
+ * that opens a bottom sheet on mobile.
+ */
+const FacetLayout = ({ groups, selectedCount, resultCount, onToggle, onClear, children }: FacetLayoutProps) => {
+  const [sheetOpen, setSheetOpen] = useState(false)
+  const sheetTitleId = useId()
+
+  useEffect(() => {
+    if (!sheetOpen) {
+      return
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setSheetOpen(false)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [sheetOpen])
+
+  return (
+    <div className="md:grid md:grid-cols-[13rem,minmax(0,1fr)] md:items-start md:gap-6">
+      <aside className="hidden max-h-[70vh] overflow-y-auto pr-1 md:sticky md:top-4 md:block" aria-label="Roster filters">
+        <FacetPanel groups={groups} selectedCount={selectedCount} onToggle={onToggle} onClear={onClear} />
+      </aside>
+
+      <div className="min-w-0">
+        <div className="mb-4 md:hidden">
+          <button
+            type="button"
+            onClick={() => setSheetOpen(true)}
+            aria-haspopup="dialog"
+            className="inline-flex items-center gap-2 rounded-full border border-slate-200 bg-surface px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-team/40 hover:text-team focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+          >
+            Filters
+            {selectedCount > 0 && (
+              <span className="rounded-full bg-team px-2 py-0.5 text-xs font-semibold text-team-contrast">
+                {selectedCount}
+              </span>
+            )}
+          </button>
+        </div>
+        {children}
+      </div>
+
+      {sheetOpen && (
+        <div className="fixed inset-0 z-50 md:hidden">
+          <button
+            type="button"
+            aria-label="Close filters"
+            onClick={() => setSheetOpen(false)}
+            className="absolute inset-0 h-full w-full cursor-default bg-scrim/40"
+          />
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby={sheetTitleId}
+            className="animate-fade-in-up absolute inset-x-0 bottom-0 flex max-h-[80vh] flex-col rounded-t-3xl bg-surface shadow-2xl"
+          >
+            <h2 id={sheetTitleId} className="sr-only">
+              Roster filters
+            </h2>
+            <div className="overflow-y-auto px-5 pb-4 pt-5">
+              <FacetPanel groups={groups} selectedCount={selectedCount} onToggle={onToggle} onClear={onClear} />
+            </div>
+            <div className="border-t border-slate-200 px-5 py-3 pb-[calc(env(safe-area-inset-bottom)+0.75rem)]">
+              <button
+                type="button"
+                onClick={() => setSheetOpen(false)}
+                className="w-full rounded-2xl bg-team px-4 py-3 text-sm font-semibold text-team-contrast shadow-sm transition hover:bg-team/90 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+              >
+                Show {resultCount} {resultCount === 1 ? 'player' : 'players'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default FacetLayout
@@ -0,0 +1,93 @@
+import { useState } from 'react'
+import type { FacetGroup, FacetKey } from '../types/filters'
+
+type FacetPanelProps = {
+  groups: FacetGroup[]
+  selectedCount: number
+  onToggle: (key: FacetKey, value: string) => void
+  onClear: () => void
+}
+
+const COLLAPSED_OPTION_LIMIT = 8
+
+const FacetPanel = ({ groups, selectedCount, onToggle, onClear }: FacetPanelProps) => {
+  const [expandedGroups, setExpandedGroups] = useState<FacetKey[]>([])
+
+  const toggleExpanded = (key: FacetKey) => {
+    setExpandedGroups((current) =>
+      current.includes(key) ? current.filter((entry) => entry !== key) : [...current, key],
+    )
+  }
+
+  if (!groups.length) {
+    return <p className="text-sm text-slate-500">No filters available for this roster.</p>
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">Filters</p>
+        {selectedCount > 0 && (
+          <button
+            type="button"
+            onClick={onClear}
+            className="text-xs font-semibold text-team underline-offset-2 hover:underline focus-visible:underline focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+          >
+            Clear all ({selectedCount})
+          </button>
+        )}
+      </div>
+
+      {groups.map((group) => {
+        const isExpanded = expandedGroups.includes(group.key)
+        const hiddenCount = Math.max(0, group.options.length - COLLAPSED_OPTION_LIMIT)
+        // Checked options always stay visible, even past the collapsed limit.
+        const visibleOptions = isExpanded
+          ? group.options
+          : group.options.filter((option, index) => index < COLLAPSED_OPTION_LIMIT || option.selected)
+
+        return (
+          <fieldset key={group.key} className="space-y-2">
+            <legend className="text-sm font-semibold text-slate-800">{group.label}</legend>
+            <ul className="space-y-1">
+              {visibleOptions.map((option) => {
+                const isEmpty = option.count === 0 && !option.selected
+
+                return (
+                  <li key={option.value}>
+                    <label
+                      className={`flex cursor-pointer items-center gap-2 rounded-lg px-1.5 py-1 text-sm transition hover:bg-slate-100 ${
+                        isEmpty ? 'text-slate-400' : 'text-slate-700'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={option.selected}
+                        onChange={() => onToggle(group.key, option.value)}
+                        className="h-4 w-4 rounded border-slate-300 accent-team focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+                      />
+                      <span className="flex-1 truncate">{option.value}</span>
+                      <span className="text-xs tabular-nums text-slate-400">{option.count}</span>
+                    </label>
+                  </li>
+                )
+              })}
+            </ul>
+            {hiddenCount > 0 && (
+              <button
+                type="button"
+                onClick={() => toggleExpanded(group.key)}
+                aria-expanded={isExpanded}
+                className="px-1.5 text-xs font-semibold text-slate-500 underline-offset-2 hover:text-team hover:underline focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+              >
+                {isExpanded ? 'Show fewer' : `Show all ${group.options.length}`}
+              </button>
+            )}
+          </fieldset>
+        )
+      })}
+    </div>
+  )
+}
+
+export default FacetPanel
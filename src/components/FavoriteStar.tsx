@@ -0,0 +1,38 @@
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences'
+
+type FavoriteStarProps = {
+  isFavorite: boolean
+  playerName: string
+  onToggle: () => void
+  className?: string
+  /** For roving focus, e.g. inside the roster grid. */
+  tabIndex?: number
+}
+
+const FavoriteStar = ({ isFavorite, playerName, onToggle, className = 'h-5 w-5', tabIndex }: FavoriteStarProps) => {
+  const { t } = useDisplayPreferences()
+
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      tabIndex={tabIndex}
+      aria-pressed={isFavorite}
+      aria-label={t(isFavorite ? 'table.removeFavorite' : 'table.addFavorite', { name: playerName })}
+      title={t(isFavorite ? 'table.removeFavoriteHint' : 'table.addFavoriteHint')}
+      className={`rounded-full transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team ${
+        isFavorite ? 'text-amber-400 hover:text-amber-500' : 'text-slate-300 hover:text-amber-400'
+      }`}
+    >
+      <svg viewBox="0 0 20 20" fill="currentColor" aria-hidden="true" className={className}>
+        <path
+          fillRule="evenodd"
+          clipRule="evenodd"
+          d="M10.868 2.884c-.321-.772-1.415-.772-1.736 0l-1.83 4.401-4.753.381c-.833.067-1.171 1.107-.536 1.651l3.62 3.102-1.106 4.637c-.194.813.691 1.456 1.405 1.02L10 15.591l4.069 2.485c.713.436 1.598-.207 1.404-1.02l-1.106-4.637 3.62-3.102c.635-.544.297-1.584-.536-1.65l-4.752-.382-1.831-4.401Z"
+        />
+      </svg>
+    </button>
+  )
+}
+
+export default FavoriteStar
@@ -0,0 +1,154 @@
+import type { ChangeEvent } from 'react'
+import { useCallback, useEffect, useId, useRef, useState } from 'react'
+import { useDismiss } from '../hooks/useDismiss'
+import { downloadTextFile } from '../lib/export/download'
+import { buildExportFileName, EXPORT_MIME_TYPES } from '../lib/export/formats'
+import { FAVORITES_FILE_NAME } from '../lib/favorites/constants'
+import { parseFavoritesFile, serializeFavorites } from '../lib/favorites/data'
+import type { Favorites } from '../types/favorites'
+
+type FavoritesMenuProps = {
+  favorites: Favorites
+  favoritesOnly: boolean
+  onFavoritesOnlyChange: (favoritesOnly: boolean) => void
+  onImport: (imported: Favorites) => void
+}
+
+const STATUS_TIMEOUT_MS = 2500
+
+const itemClassName =
+  'flex w-full flex-col rounded-xl px-3 py-2 text-left transition hover:bg-slate-50 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team'
+
+const formatCount = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+/** The "Favorites only" filter, plus moving starred players and notes between devices as a JSON file. */
+const FavoritesMenu = ({ favorites, favoritesOnly, onFavoritesOnlyChange, onImport }: FavoritesMenuProps) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const menuId = useId()
+
+  const close = useCallback(() => setIsOpen(false), [])
+
+  useDismiss(containerRef, isOpen, close)
+
+  useEffect(() => {
+    if (!status) {
+      return
+    }
+
+    const timeoutId = window.setTimeout(() => setStatus(null), STATUS_TIMEOUT_MS)
+
+    return () => {
+      window.clearTimeout(timeoutId)
+    }
+  }, [status])
+
+  const starredCount = favorites.playerIds.length
+  const noteCount = Object.keys(favorites.notes).length
+
+  const handleExport = () => {
+    setIsOpen(false)
+    downloadTextFile(
+      serializeFavorites(favorites),
+      buildExportFileName(FAVORITES_FILE_NAME, 'json'),
+      EXPORT_MIME_TYPES.json,
+    )
+  }
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Clearing the input lets the same file be picked again after fixing it.
+    event.target.value = ''
+    setIsOpen(false)
+
+    if (!file) {
+      return
+    }
+
+    try {
+      const imported = parseFavoritesFile(await file.text())
+
+      if (!imported) {
+        setStatus("That isn't a favorites file")
+        return
+      }
+
+      onImport(imported)
+      setStatus(`Imported ${formatCount(imported.playerIds.length, 'favorite')}`)
+    } catch (importError) {
+      console.error('Unable to read favorites file', importError)
+      setStatus('Import failed')
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((current) => !current)}
+        aria-expanded={isOpen}
+        aria-controls={menuId}
+        className={`inline-flex items-center gap-1.5 rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-wide transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team ${
+          favoritesOnly
+            ? 'bg-amber-100 text-amber-900 hover:bg-amber-200 dark:bg-amber-400/15 dark:text-amber-200 dark:hover:bg-amber-400/25'
+            : 'bg-slate-100 text-slate-500 hover:bg-team/10 hover:text-team'
+        }`}
+      >
+        <span aria-hidden="true">★</span>
+        Favorites{favoritesOnly ? ' only' : ''}
+      </button>
+      <span
+        role="status"
+        className="absolute right-0 top-full mt-1 whitespace-nowrap text-xs font-semibold text-slate-500"
+      >
+        {status}
+      </span>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        tabIndex={-1}
+        aria-hidden="true"
+        onChange={handleFileChange}
+      />
+
+      {isOpen && (
+        <div
+          id={menuId}
+          className="animate-fade-in-up absolute right-0 z-30 mt-2 w-64 rounded-2xl border border-slate-200 bg-surface p-2 shadow-xl"
+        >
+          <p className="px-3 pb-1 pt-2 text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">
+            {formatCount(starredCount, 'favorite')} · {formatCount(noteCount, 'note')}
+          </p>
+          <label className="flex cursor-pointer items-center gap-2 rounded-xl px-3 py-2 text-sm font-semibold text-slate-800 transition hover:bg-slate-50">
+            <input
+              type="checkbox"
+              checked={favoritesOnly}
+              onChange={(event) => onFavoritesOnlyChange(event.target.checked)}
+              className="h-4 w-4 rounded border-slate-300 accent-team"
+            />
+            Favorites only
+          </label>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={starredCount === 0 && noteCount === 0}
+            className={`${itemClassName} disabled:cursor-not-allowed disabled:opacity-50`}
+          >
+            <span className="text-sm font-semibold text-slate-800">Download favorites</span>
+            <span className="text-xs text-slate-500">Stars and notes as a JSON file</span>
+          </button>
+          <button type="button" onClick={() => fileInputRef.current?.click()} className={itemClassName}>
+            <span className="text-sm font-semibold text-slate-800">Import favorites…</span>
+            <span className="text-xs text-slate-500">Adds a downloaded file to this browser's list</span>
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default FavoritesMenu
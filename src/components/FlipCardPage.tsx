@@ -0,0 +1,123 @@
+import { useMemo, useState } from 'react'
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences'
+import { usePersistentState } from '../hooks/usePersistentState'
+import { useRoster } from '../hooks/useRoster'
+import { useTeamTheme } from '../hooks/useTeamTheme'
+import { FLIP_CARD_OPPONENT_PARAM, POSITION_GROUP_CLASSES } from '../lib/flipCard/constants'
+import { buildAppUrl, buildUrlSearch, readUrlState } from '../lib/navigation/url'
+import { DEFAULT_SORT, DEFAULT_TEAM_ID } from '../lib/roster/constants'
+import { formatUpcomingEvent } from '../lib/roster/formatters'
+import { POSITION_GROUPS } from '../lib/roster/positions'
+import { SELECTED_TEAM_STORAGE_KEY } from '../lib/teams/constants'
+import { isTeamId } from '../lib/teams/data'
+import FlipCardTeam from './FlipCardTeam'
+
+const readIncludeOpponent = () =>
+  typeof window !== 'undefined' && new URLSearchParams(window.location.search).has(FLIP_CARD_OPPONENT_PARAM)
+
+/**
+ * One-page numerical roster for broadcasters and spotters: active players by jersey, split into offense,
+ * defense and special teams, optionally next to the upcoming opponent. The controls don't print, and the
+ * page stays light whatever theme the roster app uses.
+ */
+const FlipCardPage = () => {
+  const { locale } = useDisplayPreferences()
+  const [initialTeamId] = useState(() => readUrlState().teamId)
+  const [teamId] = usePersistentState(SELECTED_TEAM_STORAGE_KEY, DEFAULT_TEAM_ID, isTeamId, initialTeamId)
+  const [includeOpponent, setIncludeOpponent] = useState(readIncludeOpponent)
+
+  const roster = useRoster(teamId, { pollIntervalMs: null })
+  const opponentId = roster.teamMeta?.nextEvent?.opponentId ?? null
+  const opponentRoster = useRoster(includeOpponent ? opponentId : null, { pollIntervalMs: null })
+  const upcomingEvent = useMemo(() => formatUpcomingEvent(roster.teamMeta, locale), [roster.teamMeta, locale])
+  useTeamTheme(roster.teamMeta)
+
+  const teamName = roster.teamMeta?.displayName ?? 'Roster'
+  const opponentName = opponentRoster.teamMeta?.displayName ?? upcomingEvent?.opponent ?? 'Opponent'
+  const showOpponent = includeOpponent && opponentId !== null
+
+  const rosterUrl = buildAppUrl(
+    buildUrlSearch({ teamId, view: 'roster', search: '', sort: DEFAULT_SORT, facets: {}, player: null, compare: [] }),
+  )
+
+  const handleIncludeOpponentChange = (checked: boolean) => {
+    setIncludeOpponent(checked)
+
+    const params = new URLSearchParams(window.location.search)
+
+    if (checked) {
+      params.set(FLIP_CARD_OPPONENT_PARAM, '1')
+    } else {
+      params.delete(FLIP_CARD_OPPONENT_PARAM)
+    }
+
+    const search = params.toString()
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${search ? `?${search}` : ''}`)
+  }
+
+  return (
+    <main className="flip-card mx-auto max-w-6xl space-y-3 px-4 py-6 text-slate-900 print:max-w-none print:p-0">
+      <div className="flex flex-wrap items-center gap-3 rounded-2xl bg-surface/90 p-4 shadow-sm ring-1 ring-slate-100 print:hidden">
+        <a href={rosterUrl} className="text-sm font-semibold">
+          ← Back to roster
+        </a>
+        <label className="ml-auto flex items-center gap-2 text-sm font-medium text-slate-700">
+          <input
+            type="checkbox"
+            checked={includeOpponent}
+            disabled={!opponentId}
+            onChange={(event) => handleIncludeOpponentChange(event.target.checked)}
+            className="h-4 w-4 rounded border-slate-300 accent-team"
+          />
+          Side by side with {upcomingEvent?.opponent ?? 'the next opponent'}
+        </label>
+        <button
+          type="button"
+          onClick={() => window.print()}
+          className="rounded-full bg-team px-4 py-2 text-sm font-semibold text-team-contrast shadow-sm transition hover:bg-team/90 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+        >
+          Print
+        </button>
+      </div>
+
+      <header className="flex flex-wrap items-baseline justify-between gap-x-4 border-b border-slate-300 pb-1">
+        <h1 className="text-lg font-bold">
+          {teamName}
+          {showOpponent ? ` vs ${opponentName}` : ''} — Numerical Roster
+        </h1>
+        {upcomingEvent?.formattedDate && <p className="text-xs text-slate-600">{upcomingEvent.formattedDate}</p>}
+      </header>
+
+      <ul
+        className="flex flex-wrap gap-x-3 gap-y-1 text-[0.6rem] font-semibold uppercase text-slate-600"
+        aria-label="Position colours"
+      >
+        {POSITION_GROUPS.map((group) => (
+          <li key={group.key} className={`border-l-4 px-1.5 ${POSITION_GROUP_CLASSES[group.key]}`}>
+            {group.label}
+          </li>
+        ))}
+      </ul>
+
+      <div className={showOpponent ? 'grid grid-cols-2 gap-5' : ''}>
+        <FlipCardTeam
+          title={teamName}
+          players={roster.players}
+          loading={roster.loading}
+          error={roster.error}
+          twoColumn={!showOpponent}
+        />
+        {showOpponent && (
+          <FlipCardTeam
+            title={opponentName}
+            players={opponentRoster.players}
+            loading={opponentRoster.loading}
+            error={opponentRoster.error}
+          />
+        )}
+      </div>
+    </main>
+  )
+}
+
+export default FlipCardPage
@@ -0,0 +1,77 @@
+import { POSITION_GROUP_CLASSES } from '../lib/flipCard/constants'
+import { buildFlipCardSections, formatCompactSize } from '../lib/flipCard/data'
+import { getPositionGroup } from '../lib/roster/positions'
+import type { Player } from '../types/roster'
+
+type FlipCardTeamProps = {
+  title: string
+  players: Player[]
+  loading: boolean
+  error: string | null
+  /** Flow the units across two columns, for a single team filling the page. */
+  twoColumn?: boolean
+}
+
+const ROW_GRID = 'grid grid-cols-[1.75rem,minmax(0,1fr),2rem,1.5rem,4.25rem,minmax(0,0.9fr)] items-baseline gap-x-1.5'
+
+const FlipCardTeam = ({ title, players, loading, error, twoColumn = false }: FlipCardTeamProps) => {
+  const sections = buildFlipCardSections(players)
+
+  return (
+    <section className="min-w-0">
+      <h2 className="mb-1.5 border-b-2 border-team pb-0.5 text-sm font-bold uppercase tracking-wide text-slate-900">
+        {title}
+      </h2>
+
+      {loading && <p className="text-xs text-slate-500">Loading roster…</p>}
+      {!loading && error && <p className="text-xs font-semibold text-team">{error}</p>}
+
+      {!loading && !error && (
+        <div className={twoColumn ? 'gap-4 sm:columns-2 print:columns-2' : ''}>
+          {sections.map((section) => (
+            <div key={section.unit} className="mb-2 break-inside-avoid-column">
+              <h3 className="mb-0.5 text-[0.65rem] font-bold uppercase tracking-[0.2em] text-slate-500">
+                {section.label}
+              </h3>
+              <div
+                className={`${ROW_GRID} border-b border-slate-300 pl-1.5 text-[0.55rem] font-semibold uppercase text-slate-400`}
+                aria-hidden="true"
+              >
+                <span>#</span>
+                <span>Name</span>
+                <span>Pos</span>
+                <span>Cl</span>
+                <span>Ht / Wt</span>
+                <span>Hometown</span>
+              </div>
+              <ol>
+                {section.players.map((player) => {
+                  const group = getPositionGroup(player)
+
+                  return (
+                    <li
+                      key={player.id}
+                      className={`${ROW_GRID} border-b border-l-4 border-b-surface py-px pl-1 text-[0.7rem] leading-tight text-slate-800 ${
+                        POSITION_GROUP_CLASSES[group.key]
+                      }`}
+                    >
+                      <span className="text-right font-bold tabular-nums text-slate-900">{player.jersey}</span>
+                      <span className="truncate font-semibold">{player.displayName}</span>
+                      <span>{player.positionAbbreviation ?? player.position}</span>
+                      <span>{player.experienceAbbreviation ?? player.experience}</span>
+                      <span className="tabular-nums">{formatCompactSize(player)}</span>
+                      <span className="truncate text-slate-600">{player.hometown}</span>
+                    </li>
+                  )
+                })}
+              </ol>
+            </div>
+          ))}
+          {sections.length === 0 && <p className="text-xs text-slate-500">No active players listed.</p>}
+        </div>
+      )}
+    </section>
+  )
+}
+
+export default FlipCardTeam
@@ -0,0 +1,41 @@
+import type { ReactNode } from 'react'
+import { useMemo } from 'react'
+import { findMatchRanges } from '../lib/search/fuzzy'
+
+type HighlightedTextProps = {
+  text: string
+  /** Folded search terms from `getHighlightTerms`. */
+  terms?: string[]
+}
+
+const HighlightedText = ({ text, terms = [] }: HighlightedTextProps) => {
+  const ranges = useMemo(() => findMatchRanges(text, terms), [text, terms])
+
+  if (!ranges.length) {
+    return <>{text}</>
+  }
+
+  const segments: ReactNode[] = []
+  let cursor = 0
+
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) {
+      segments.push(<span key={`text-${cursor}`}>{text.slice(cursor, start)}</span>)
+    }
+
+    segments.push(
+      <mark key={`match-${start}`} className="rounded-sm bg-amber-200/70 px-0.5 text-inherit dark:bg-amber-400/30">
+        {text.slice(start, end)}
+      </mark>,
+    )
+    cursor = end
+  })
+
+  if (cursor < text.length) {
+    segments.push(<span key={`text-${cursor}`}>{text.slice(cursor)}</span>)
+  }
+
+  return <>{segments}</>
+}
+
+export default HighlightedText
@@ -0,0 +1,134 @@
+import type { KeyboardEvent } from 'react'
+import { STATE_TILE_COLUMNS, STATE_TILE_ROWS, STATE_TILES } from '../lib/hometowns/constants'
+import type { HometownSummary } from '../types/hometowns'
+
+type HometownMapProps = {
+  summary: HometownSummary
+  /** State codes currently used as a filter. */
+  selectedStates: string[]
+  internationalSelected: boolean
+  onToggleState: (code: string) => void
+  onToggleInternational: () => void
+}
+
+const TILE_SIZE = 40
+const TILE_GAP = 4
+const TILE_PITCH = TILE_SIZE + TILE_GAP
+
+const formatPlayerCount = (count: number) => `${count} ${count === 1 ? 'player' : 'players'}`
+
+/** Hoosier red, stronger for states with more players. */
+const tileOpacity = (count: number, maxCount: number) => (maxCount ? 0.15 + 0.85 * (count / maxCount) : 0)
+
+const activateOnKey = (event: KeyboardEvent, action: () => void) => {
+  if (event.key === 'Enter' || event.key === ' ') {
+    event.preventDefault()
+    action()
+  }
+}
+
+/**
+ * Tile map of where players were born, one square per state, shaded by player count. Clicking a state
+ * (or "International") filters the roster to players from there; clicking again clears it.
+ */
+const HometownMap = ({
+  summary,
+  selectedStates,
+  internationalSelected,
+  onToggleState,
+  onToggleInternational,
+}: HometownMapProps) => {
+  const { states, international, unknownCount, maxCount } = summary
+
+  return (
+    <div className="space-y-3">
+      <svg
+        viewBox={`0 0 ${STATE_TILE_COLUMNS * TILE_PITCH - TILE_GAP} ${STATE_TILE_ROWS * TILE_PITCH - TILE_GAP}`}
+        className="w-full max-w-2xl"
+        role="group"
+        aria-label="Players by home state"
+      >
+        {STATE_TILES.map((tile) => {
+          const count = states[tile.code]?.count ?? 0
+          const isSelected = selectedStates.includes(tile.code)
+          const isInteractive = count > 0 || isSelected
+          const opacity = tileOpacity(count, maxCount)
+          const label = `${tile.name}: ${formatPlayerCount(count)}`
+
+          return (
+            <g
+              key={tile.code}
+              transform={`translate(${tile.column * TILE_PITCH} ${tile.row * TILE_PITCH})`}
+              role={isInteractive ? 'button' : undefined}
+              tabIndex={isInteractive ? 0 : undefined}
+              aria-pressed={isInteractive ? isSelected : undefined}
+              aria-label={label}
+              onClick={isInteractive ? () => onToggleState(tile.code) : undefined}
+              onKeyDown={isInteractive ? (event) => activateOnKey(event, () => onToggleState(tile.code)) : undefined}
+              className={`outline-none [&:focus-visible>rect]:stroke-slate-900 ${isInteractive ? 'cursor-pointer' : ''}`}
+            >
+              <title>{label}</title>
+              <rect width={TILE_SIZE} height={TILE_SIZE} rx={6} className="fill-slate-100" />
+              {count > 0 && (
+                <rect width={TILE_SIZE} height={TILE_SIZE} rx={6} className="fill-team" fillOpacity={opacity} />
+              )}
+              <rect
+                x={1}
+                y={1}
+                width={TILE_SIZE - 2}
+                height={TILE_SIZE - 2}
+                rx={5}
+                fill="none"
+                strokeWidth={isSelected ? 3 : 2}
+                className={isSelected ? 'stroke-slate-900' : 'stroke-transparent'}
+              />
+              <text
+                x={TILE_SIZE / 2}
+                y={count > 0 ? 17 : 24}
+                textAnchor="middle"
+                className={`select-none text-[11px] font-semibold ${opacity > 0.55 ? 'fill-team-contrast' : 'fill-slate-600'}`}
+              >
+                {tile.code}
+              </text>
+              {count > 0 && (
+                <text
+                  x={TILE_SIZE / 2}
+                  y={31}
+                  textAnchor="middle"
+                  className={`select-none text-[10px] ${opacity > 0.55 ? 'fill-team-contrast' : 'fill-slate-700'}`}
+                >
+                  {count}
+                </text>
+              )}
+            </g>
+          )
+        })}
+      </svg>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <button
+          type="button"
+          onClick={onToggleInternational}
+          disabled={international.count === 0 && !internationalSelected}
+          aria-pressed={internationalSelected}
+          title={international.values.join(', ') || undefined}
+          className={`rounded-full border px-3 py-1.5 font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team disabled:cursor-not-allowed disabled:opacity-50 ${
+            internationalSelected
+              ? 'border-slate-900 bg-team text-team-contrast'
+              : 'border-slate-200 bg-surface text-slate-700 hover:border-team/40 hover:text-team'
+          }`}
+        >
+          International · {international.count}
+        </button>
+        {international.values.length > 0 && (
+          <span className="text-xs text-slate-500">{international.values.join(', ')}</span>
+        )}
+        {unknownCount > 0 && (
+          <span className="text-xs text-slate-400">{formatPlayerCount(unknownCount)} without a listed hometown</span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default HometownMap
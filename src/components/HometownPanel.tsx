@@ -0,0 +1,53 @@
+import { useMemo } from 'react'
+import { toggleFacetValue } from '../lib/filters/facets'
+import { INTERNATIONAL_REGION } from '../lib/hometowns/constants'
+import { getSelectedStateCodes, isInternationalSelected, summarizeHometowns } from '../lib/hometowns/data'
+import type { FacetSelection } from '../types/filters'
+import type { Player } from '../types/roster'
+import HometownMap from './HometownMap'
+
+type HometownPanelProps = {
+  /** Players matching the search and every facet except the map's own home region. */
+  players: Player[]
+  facets: FacetSelection
+  onFacetsChange: (facets: FacetSelection) => void
+}
+
+const HometownPanel = ({ players, facets, onFacetsChange }: HometownPanelProps) => {
+  const summary = useMemo(() => summarizeHometowns(players), [players])
+  const selectedStates = getSelectedStateCodes(facets)
+  const internationalSelected = isInternationalSelected(facets)
+
+  const toggleRegion = (region: string) => {
+    onFacetsChange(toggleFacetValue(facets, 'homeRegion', region))
+  }
+
+  return (
+    <details className="group rounded-2xl border border-slate-200 bg-surface/70 shadow-sm">
+      <summary className="flex cursor-pointer list-none items-center justify-between gap-3 px-4 py-3 text-sm font-semibold text-slate-800 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team">
+        <span>
+          Where they're from
+          {(selectedStates.length > 0 || internationalSelected) && (
+            <span className="ml-2 text-xs font-medium text-team">
+              Filtering by {[...selectedStates, ...(internationalSelected ? ['International'] : [])].join(', ')}
+            </span>
+          )}
+        </span>
+        <span className="text-slate-400 transition group-open:rotate-180" aria-hidden="true">
+          ▾
+        </span>
+      </summary>
+      <div className="border-t border-slate-200 px-4 py-4">
+        <HometownMap
+          summary={summary}
+          selectedStates={selectedStates}
+          internationalSelected={internationalSelected}
+          onToggleState={toggleRegion}
+          onToggleInternational={() => toggleRegion(INTERNATIONAL_REGION)}
+        />
+      </div>
+    </details>
+  )
+}
+
+export default HometownPanel
@@ -0,0 +1,29 @@
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences'
+import { getInjuryStatusClass } from '../lib/injuries/data'
+
+type InjuryBadgeProps = {
+  /** Renders nothing when `null`, i.e. no injury is listed. */
+  status: string | null
+  className?: string
+}
+
+const InjuryBadge = ({ status, className = '' }: InjuryBadgeProps) => {
+  const { t } = useDisplayPreferences()
+
+  if (!status) {
+    return null
+  }
+
+  return (
+    <span
+      title={t('player.injuryBadge', { status })}
+      className={`inline-flex items-center rounded-full px-2 py-0.5 text-[0.65rem] font-semibold uppercase tracking-wide ${getInjuryStatusClass(
+        status,
+      )} ${className}`}
+    >
+      {status}
+    </span>
+  )
+}
+
+export default InjuryBadge
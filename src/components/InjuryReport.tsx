@@ -0,0 +1,124 @@
+import { useMemo, useState } from 'react'
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences'
+import { buildInjuryReport, formatInjuryDate } from '../lib/injuries/data'
+import { formatLastUpdated } from '../lib/roster/formatters'
+import type { InjuryLogEntry } from '../types/injuries'
+import type { Player, SortDirection } from '../types/roster'
+import InjuryBadge from './InjuryBadge'
+
+type InjuryReportProps = {
+  players: Player[]
+  /** Status movements seen across roster loads, newest first. */
+  logEntries: InjuryLogEntry[]
+  onSelect: (playerId: string) => void
+}
+
+const describeMovement = ({ previous, current }: InjuryLogEntry) => {
+  if (previous === null) {
+    return 'Added to the report'
+  }
+
+  if (current === null) {
+    return 'Cleared'
+  }
+
+  return 'Status changed'
+}
+
+/**
+ * Every player with an injury listed, grouped by status (most serious first) with the newest or oldest
+ * injuries at the top of each group, followed by the log of status changes seen on earlier loads.
+ */
+const InjuryReport = ({ players, logEntries, onSelect }: InjuryReportProps) => {
+  const { locale } = useDisplayPreferences()
+  const [dateDirection, setDateDirection] = useState<SortDirection>('desc')
+  const groups = useMemo(() => buildInjuryReport(players, dateDirection), [players, dateDirection])
+  const injuredCount = groups.reduce((total, group) => total + group.entries.length, 0)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <p className="text-sm text-slate-600">
+          {injuredCount === 0
+            ? 'No injuries are listed on the roster.'
+            : `${injuredCount} ${injuredCount === 1 ? 'player' : 'players'} on the injury report`}
+        </p>
+        {injuredCount > 1 && (
+          <button
+            type="button"
+            onClick={() => setDateDirection((current) => (current === 'desc' ? 'asc' : 'desc'))}
+            className="ml-auto rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:bg-team/10 hover:text-team focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+          >
+            {dateDirection === 'desc' ? 'Newest first ▼' : 'Oldest first ▲'}
+          </button>
+        )}
+      </div>
+
+      {groups.map((group) => (
+        <section key={group.status} aria-label={`${group.status}: ${group.entries.length}`}>
+          <h3 className="mb-2 flex items-center gap-2">
+            <InjuryBadge status={group.status} className="text-xs" />
+            <span className="text-xs font-semibold text-slate-400">{group.entries.length}</span>
+          </h3>
+          <ul className="divide-y divide-slate-100 rounded-2xl border border-slate-200">
+            {group.entries.map(({ player, injury, injuries }) => (
+              <li key={player.id} className="flex flex-wrap items-baseline gap-x-3 gap-y-1 px-4 py-3 text-sm">
+                <span className="w-8 font-semibold tabular-nums text-slate-900">#{player.jersey}</span>
+                <button
+                  type="button"
+                  onClick={() => onSelect(player.id)}
+                  className="text-left font-semibold text-slate-800 underline-offset-2 transition hover:text-team hover:underline focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+                >
+                  {player.displayName}
+                </button>
+                <span className="text-xs uppercase tracking-wide text-slate-500">{player.position}</span>
+                <span className="text-slate-700">{injury.type ?? 'Injury'}</span>
+                {injury.description && injury.description !== injury.type && (
+                  <span className="basis-full pl-11 text-slate-500">{injury.description}</span>
+                )}
+                <span className="ml-auto text-xs tabular-nums text-slate-400">
+                  {formatInjuryDate(injury) ?? 'Undated'}
+                  {injuries.length > 1 && ` · ${injuries.length - 1} earlier`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+
+      <section className="rounded-2xl border border-slate-200 bg-slate-50/80 px-4 py-3">
+        <h3 className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">Change log</h3>
+        {logEntries.length === 0 ? (
+          <p className="mt-2 text-sm text-slate-500">
+            No status changes yet. Each time the roster reloads, players whose injury status moved are listed here.
+          </p>
+        ) : (
+          <ol className="mt-3 space-y-2 text-sm">
+            {logEntries.map((entry) => (
+              <li key={`${entry.playerId}-${entry.detectedAt}`} className="flex flex-wrap items-center gap-2">
+                <span className="w-40 text-xs text-slate-400">{formatLastUpdated(entry.detectedAt, locale)}</span>
+                <span className="font-semibold text-slate-800">{entry.playerName}</span>
+                <span className="text-slate-500">{describeMovement(entry)}:</span>
+                {entry.previous ? (
+                  <InjuryBadge status={entry.previous} />
+                ) : (
+                  <span className="text-xs text-slate-400">Healthy</span>
+                )}
+                <span className="text-slate-400" aria-label="to">
+                  →
+                </span>
+                {entry.current ? (
+                  <InjuryBadge status={entry.current} />
+                ) : (
+                  <span className="text-xs text-slate-400">Healthy</span>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+    </div>
+  )
+}
+
+export default InjuryReport
@@ -0,0 +1,121 @@
+import { useId, useMemo, useRef } from 'react'
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences'
+import { useFocusTrap } from '../hooks/useFocusTrap'
+import { buildComparisonRows } from '../lib/compare/data'
+import type { Player } from '../types/roster'
+
+type PlayerCompareModalProps = {
+  /** Two to four players, baseline first; `null` or fewer than two hides the modal. */
+  players: Player[] | null
+  onMakeBaseline: (player: Player) => void
+  onClose: () => void
+}
+
+/**
+ * The picked players side by side, one vitals row per line. Height and weight also show how far each
+ * player is from the first (baseline) player, and the biggest value is bolded.
+ */
+const PlayerCompareModal = ({ players, onMakeBaseline, onClose }: PlayerCompareModalProps) => {
+  const { units } = useDisplayPreferences()
+  const rows = useMemo(() => (players ? buildComparisonRows(players, units) : []), [players, units])
+  const dialogRef = useRef<HTMLDivElement>(null)
+  const titleId = useId()
+  const isOpen = players !== null && players.length >= 2
+  useFocusTrap(dialogRef, isOpen)
+
+  if (!isOpen) {
+    return null
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 py-8">
+      <div className="absolute inset-0 bg-scrim/50 backdrop-blur-sm" aria-hidden="true" onClick={onClose} />
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        className="relative z-10 max-h-full w-full max-w-4xl animate-fade-in-up overflow-auto rounded-3xl bg-surface p-6 shadow-2xl ring-1 ring-slate-100 focus:outline-none lg:p-8"
+      >
+        <div className="flex items-start justify-between">
+          <div>
+            <p className="text-sm font-semibold uppercase tracking-[0.35em] text-slate-400">Compare</p>
+            <h2 id={titleId} className="mt-2 text-2xl font-semibold text-slate-900">
+              {players.length} players side by side
+            </h2>
+            <p className="mt-1 text-sm text-slate-500">
+              Differences are measured from {players[0].displayName}. Share this page's link to share the comparison.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full p-2 text-slate-400 transition hover:text-team focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+            aria-label="Close comparison"
+          >
+            <svg viewBox="0 0 20 20" fill="currentColor" aria-hidden="true" className="h-5 w-5">
+              <path
+                fillRule="evenodd"
+                clipRule="evenodd"
+                d="M4.22 4.22a.75.75 0 0 1 1.06 0L10 8.94l4.72-4.72a.75.75 0 1 1 1.06 1.06L11.06 10l4.72 4.72a.75.75 0 1 1-1.06 1.06L10 11.06l-4.72 4.72a.75.75 0 1 1-1.06-1.06L8.94 10 4.22 5.28a.75.75 0 0 1 0-1.06Z"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <div className="mt-6 overflow-x-auto">
+          <table className="w-full table-fixed text-left text-sm text-slate-700">
+            <thead>
+              <tr>
+                <th scope="col" className="w-32 pb-3 pr-3">
+                  <span className="sr-only">Attribute</span>
+                </th>
+                {players.map((player, index) => (
+                  <th key={player.id} scope="col" className="min-w-36 pb-3 pr-3 align-bottom">
+                    <span className="block text-base font-semibold text-slate-900">{player.displayName}</span>
+                    {index === 0 ? (
+                      <span className="text-xs font-semibold uppercase tracking-wide text-team">Baseline</span>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => onMakeBaseline(player)}
+                        className="text-xs font-semibold uppercase tracking-wide text-slate-400 transition hover:text-team focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+                      >
+                        Make baseline
+                      </button>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.label} className="border-t border-slate-100">
+                  <th scope="row" className="py-2 pr-3 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    {row.label}
+                  </th>
+                  {row.values.map((value, index) => (
+                    <td
+                      key={players[index].id}
+                      className={`py-2 pr-3 ${row.leaderIndex === index ? 'font-semibold text-slate-900' : ''}`}
+                    >
+                      {value}
+                      {row.differences?.[index] && (
+                        <span className="ml-2 text-xs font-semibold tabular-nums text-slate-400">
+                          {row.differences[index]}
+                        </span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default PlayerCompareModal
@@ -1,71 +1,107 @@
+import { useId, useRef } from 'react'
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences'
+import { useFocusTrap } from '../hooks/useFocusTrap'
+import { isFavorite } from '../lib/favorites/data'
+import { formatHeight, formatWeight } from '../lib/units/data'
+import type { Favorites } from '../types/favorites'
 import type { Player } from '../types/roster'
+import FavoriteStar from './FavoriteStar'
 
 type PlayerInfoModalProps = {
   player: Player | null
   onClose: () => void
+  favorites: Favorites
+  onToggleFavorite: (playerId: string) => void
+  onNoteChange: (playerId: string, note: string) => void
 }
 
-const PlayerInfoModal = ({ player, onClose }: PlayerInfoModalProps) => {
+const PlayerInfoModal = ({ player, onClose, favorites, onToggleFavorite, onNoteChange }: PlayerInfoModalProps) => {
+  const { locale, units, t } = useDisplayPreferences()
+  const dialogRef = useRef<HTMLDivElement>(null)
+  const titleId = useId()
+  const summaryId = useId()
+  useFocusTrap(dialogRef, player !== null)
+
   if (!player) {
     return null
   }
 
+  const noteId = `player-note-${player.id}`
+
   const birthplaceParts = [player.birthCity, player.birthState, player.birthCountry].filter(Boolean)
   const birthplace = birthplaceParts.join(', ') || '—'
 
   const identifiers = [
-    { label: 'Full Name', value: player.fullName ?? player.displayName },
-    { label: 'Preferred Name', value: player.displayName !== player.fullName ? player.displayName : null },
-    { label: 'Short Name', value: player.shortName },
-    { label: 'First Name', value: player.firstName },
-    { label: 'Last Name', value: player.lastName },
-    { label: 'UID', value: player.uid },
-    { label: 'GUID', value: player.guid },
-    { label: 'Slug', value: player.slug },
-    { label: 'Type', value: player.type },
+    { label: t('player.fullName'), value: player.fullName ?? player.displayName },
+    { label: t('player.preferredName'), value: player.displayName !== player.fullName ? player.displayName : null },
+    { label: t('player.shortName'), value: player.shortName },
+    { label: t('player.firstName'), value: player.firstName },
+    { label: t('player.lastName'), value: player.lastName },
+    { label: t('player.uid'), value: player.uid },
+    { label: t('player.guid'), value: player.guid },
+    { label: t('player.slug'), value: player.slug },
+    { label: t('player.type'), value: player.type },
   ].filter((item) => item.value)
 
   const vitals = [
-    { label: 'Jersey', value: player.jersey },
-    { label: 'Position', value: player.positionName ?? player.position },
-    { label: 'Position Abbr.', value: player.positionAbbreviation },
-    { label: 'Class', value: player.experience },
-    { label: 'Class Abbr.', value: player.experienceAbbreviation },
+    { label: t('player.jersey'), value: player.jersey },
+    { label: t('player.position'), value: player.positionName ?? player.position },
+    { label: t('player.positionAbbreviation'), value: player.positionAbbreviation },
+    { label: t('player.class'), value: player.experience },
+    { label: t('player.classAbbreviation'), value: player.experienceAbbreviation },
     {
-      label: 'Experience (Years)',
+      label: t('player.experienceYears'),
       value:
         player.experienceYears !== null
-          ? player.experienceYears.toLocaleString(undefined, { maximumFractionDigits: 0 })
+          ? player.experienceYears.toLocaleString(locale, { maximumFractionDigits: 0 })
           : '—',
     },
-    { label: 'Status', value: player.status },
-    { label: 'Status Type', value: player.statusType },
-    { label: 'Status Abbr.', value: player.statusAbbreviation },
-    { label: 'Active', value: player.isActive ? 'Yes' : 'No' },
-    { label: 'Height', value: player.height },
-    { label: 'Weight', value: player.weight },
-    { label: 'Hometown', value: player.hometown },
-    { label: 'Birthplace', value: birthplace },
-    { label: 'Birth Country Abbr.', value: player.birthCountryAbbreviation },
+    { label: t('player.status'), value: player.status },
+    { label: t('player.statusType'), value: player.statusType },
+    { label: t('player.statusAbbreviation'), value: player.statusAbbreviation },
+    { label: t('player.active'), value: player.isActive ? t('player.yes') : t('player.no') },
+    { label: t('player.height'), value: formatHeight(player.height, units) },
+    { label: t('player.weight'), value: formatWeight(player.weight, units) },
+    { label: t('player.hometown'), value: player.hometown },
+    { label: t('player.birthplace'), value: birthplace },
+    { label: t('player.birthCountryAbbreviation'), value: player.birthCountryAbbreviation },
   ].filter((item) => item.value)
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center px-4 py-8">
-      <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" aria-hidden="true" onClick={onClose} />
-      <div className="relative z-10 w-full max-w-2xl animate-fade-in-up rounded-3xl bg-white p-6 shadow-2xl ring-1 ring-slate-100 lg:p-8">
+      <div className="absolute inset-0 bg-scrim/50 backdrop-blur-sm" aria-hidden="true" onClick={onClose} />
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        aria-describedby={summaryId}
+        tabIndex={-1}
+        className="relative z-10 max-h-full w-full max-w-2xl animate-fade-in-up overflow-y-auto rounded-3xl bg-surface p-6 shadow-2xl ring-1 ring-slate-100 focus:outline-none lg:p-8"
+      >
         <div className="flex items-start justify-between">
           <div>
-            <p className="text-sm font-semibold uppercase tracking-[0.35em] text-slate-400">Player</p>
-            <h2 className="mt-2 text-2xl font-semibold text-slate-900">{player.displayName}</h2>
-            <p className="mt-1 text-sm text-slate-500">
+            <p className="text-sm font-semibold uppercase tracking-[0.35em] text-slate-400">{t('player.heading')}</p>
+            <div className="mt-2 flex items-center gap-2">
+              <h2 id={titleId} className="text-2xl font-semibold text-slate-900">
+                {player.displayName}
+              </h2>
+              <FavoriteStar
+                isFavorite={isFavorite(favorites, player.id)}
+                playerName={player.displayName}
+                onToggle={() => onToggleFavorite(player.id)}
+                className="h-6 w-6"
+              />
+            </div>
+            <p id={summaryId} className="mt-1 text-sm text-slate-500">
               #{player.jersey} • {player.position}
             </p>
           </div>
           <button
             type="button"
             onClick={onClose}
-            className="rounded-full p-2 text-slate-400 transition hover:text-hoosier-red focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-hoosier-red"
-            aria-label="Close player details"
+            className="rounded-full p-2 text-slate-400 transition hover:text-team focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+            aria-label={t('player.close')}
           >
             <svg viewBox="0 0 20 20" fill="currentColor" aria-hidden="true" className="h-5 w-5">
               <path
@@ -79,7 +115,7 @@ const PlayerInfoModal = ({ player, onClose }: PlayerInfoModalProps) => {
 
         <div className="mt-6 grid gap-6 lg:grid-cols-2">
           <div>
-            <p className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">Vitals</p>
+            <p className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">{t('player.vitals')}</p>
             <dl className="mt-3 grid gap-3 text-sm text-slate-600 sm:grid-cols-2">
               {vitals.map((item) => (
                 <div key={item.label}>
@@ -92,7 +128,9 @@ const PlayerInfoModal = ({ player, onClose }: PlayerInfoModalProps) => {
 
           {identifiers.length > 0 && (
             <div>
-              <p className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">Identifiers</p>
+              <p className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">
+                {t('player.identifiers')}
+              </p>
               <dl className="mt-3 grid gap-3 text-sm text-slate-600 sm:grid-cols-2">
                 {identifiers.map((item) => (
                   <div key={item.label}>
@@ -106,21 +144,39 @@ const PlayerInfoModal = ({ player, onClose }: PlayerInfoModalProps) => {
 
           {player.injuries.length > 0 && (
             <div className="lg:col-span-2">
-              <p className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">Recent Injuries</p>
+              <p className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">
+                {t('player.recentInjuries')}
+              </p>
               <ul className="mt-3 space-y-3 text-sm text-slate-600">
                 {player.injuries.map((injury, index) => (
                   <li key={injury.id ?? `${player.id}-injury-${index}`} className="rounded-xl border border-slate-200 px-3 py-2">
-                    <p className="font-semibold text-slate-800">{injury.type ?? injury.status ?? 'Injury'}</p>
+                    <p className="font-semibold text-slate-800">
+                      {injury.type ?? injury.status ?? t('player.injuryFallback')}
+                    </p>
                     {injury.description && <p className="text-slate-600">{injury.description}</p>}
                     <div className="mt-1 flex flex-wrap gap-3 text-xs uppercase tracking-wide text-slate-400">
-                      {injury.status && <span>Status: {injury.status}</span>}
-                      {injury.date && <span>Updated: {injury.date}</span>}
+                      {injury.status && <span>{t('player.injuryStatus', { status: injury.status })}</span>}
+                      {injury.date && <span>{t('player.injuryUpdated', { date: injury.date })}</span>}
                     </div>
                   </li>
                 ))}
               </ul>
             </div>
           )}
+
+          <div className="lg:col-span-2">
+            <label htmlFor={noteId} className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">
+              {t('player.notes')}
+            </label>
+            <textarea
+              id={noteId}
+              value={favorites.notes[player.id] ?? ''}
+              onChange={(event) => onNoteChange(player.id, event.target.value)}
+              rows={3}
+              placeholder={t('player.notesPlaceholder')}
+              className="mt-2 w-full resize-y rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-700 shadow-sm focus:border-team focus:outline-none focus:ring-2 focus:ring-team/20"
+            />
+          </div>
         </div>
       </div>
     </div>
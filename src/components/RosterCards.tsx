@@ -1,63 +1,187 @@
 import type { CSSProperties } from 'react'
-import type { Player } from '../types/roster'
+import { useId, useMemo, useRef } from 'react'
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences'
+import { useVirtualList } from '../hooks/useVirtualList'
+import { MAX_COMPARED_PLAYERS } from '../lib/compare/constants'
+import { isPlayerCompared } from '../lib/compare/data'
+import { isFavorite } from '../lib/favorites/data'
+import { getInjuryStatus } from '../lib/injuries/data'
+import { DEFAULT_COLUMN_LAYOUT, getVisibleColumns } from '../lib/roster/columns'
+import type { RosterColumn } from '../lib/roster/columns'
+import { ESTIMATED_CARD_HEIGHT } from '../lib/virtualization/constants'
+import type { Favorites } from '../types/favorites'
+import type { Translate } from '../types/i18n'
+import type { Player, SortKey } from '../types/roster'
+import FavoriteStar from './FavoriteStar'
+import HighlightedText from './HighlightedText'
+import InjuryBadge from './InjuryBadge'
 
 type RosterCardsProps = {
   players: Player[]
   onSelect: (playerId: string) => void
   makeCardStyle?: (index: number) => CSSProperties
   emptyMessage?: string
+  /** Folded search terms to highlight on each card. */
+  highlightTerms?: string[]
+  /** Visible columns in display order; jersey and position head the card, the rest fill its details. */
+  columns?: RosterColumn[]
+  /** References of the players picked for comparison; the compare checkbox only shows with `onToggleCompare`. */
+  compareSelection?: string[]
+  onToggleCompare?: (player: Player) => void
+  /** Starred players and notes; the star only shows with `onToggleFavorite`. */
+  favorites?: Favorites
+  onToggleFavorite?: (playerId: string) => void
 }
 
-const RosterCards = ({ players, onSelect, makeCardStyle, emptyMessage = 'No players match that search.' }: RosterCardsProps) => {
+const defaultColumns = getVisibleColumns(DEFAULT_COLUMN_LAYOUT)
+
+// Matches the list's `gap-4`.
+const CARD_GAP = 16
+
+// Shown in the card header rather than the details list.
+const HEADER_COLUMN_KEYS = new Set<SortKey>(['jersey', 'displayName', 'position'])
+
+const CompareCheckbox = ({
+  player,
+  selection,
+  onToggle,
+  t,
+}: {
+  player: Player
+  selection: string[]
+  onToggle: (player: Player) => void
+  t: Translate
+}) => {
+  const checked = isPlayerCompared(selection, player)
+
+  return (
+    <label className="flex items-center gap-1.5 self-center text-xs font-semibold uppercase tracking-wide text-slate-500">
+      <input
+        type="checkbox"
+        checked={checked}
+        disabled={!checked && selection.length >= MAX_COMPARED_PLAYERS}
+        onChange={() => onToggle(player)}
+        aria-label={t('table.comparePlayer', { name: player.displayName })}
+        className="h-4 w-4 rounded border-slate-300 accent-team disabled:cursor-not-allowed disabled:opacity-40"
+      />
+      <span aria-hidden="true">{t('table.compare')}</span>
+    </label>
+  )
+}
+
+const RosterCards = ({
+  players,
+  onSelect,
+  makeCardStyle,
+  emptyMessage,
+  highlightTerms,
+  columns = defaultColumns,
+  compareSelection = [],
+  onToggleCompare,
+  favorites,
+  onToggleFavorite,
+}: RosterCardsProps) => {
+  const { units, t } = useDisplayPreferences()
+  const listRef = useRef<HTMLDivElement>(null)
+  const titleIdPrefix = useId()
+  const playerIds = useMemo(() => players.map((player) => player.id), [players])
+  // The cards scroll with the page, so the window is the viewport.
+  const { items, paddingStart, paddingEnd, visibleRange, hasScrolled, measureElement } = useVirtualList({
+    keys: playerIds,
+    estimatedSize: ESTIMATED_CARD_HEIGHT,
+    listRef,
+    gap: CARD_GAP,
+  })
+  const showJersey = columns.some((column) => column.key === 'jersey')
+  const showPosition = columns.some((column) => column.key === 'position')
+  const detailColumns = columns.filter((column) => !HEADER_COLUMN_KEYS.has(column.key))
+
   if (players.length === 0) {
     return (
       <div className="rounded-2xl border border-dashed border-slate-300 bg-slate-50 px-4 py-10 text-center text-base font-medium text-slate-500">
-        {emptyMessage}
+        {emptyMessage ?? t('cards.noMatches')}
       </div>
     )
   }
 
   return (
-    <div className="grid gap-4">
-      {players.map((player, index) => (
-        <article
-          key={player.id}
-          className="animate-fade-in-up rounded-2xl border border-slate-200 bg-white px-4 py-4 shadow-sm"
-          style={makeCardStyle ? makeCardStyle(index) : undefined}
-        >
-          <div className="flex items-baseline justify-between">
-            <span className="text-lg font-semibold text-hoosier-red">#{player.jersey}</span>
-            <span className="text-sm font-medium uppercase tracking-wide text-slate-500">{player.position}</span>
-          </div>
-          <h2 className="mt-1 text-xl font-semibold text-slate-900">
-            <button
-              type="button"
-              onClick={() => onSelect(player.id)}
-              className="w-full text-left text-slate-900 underline-offset-2 transition hover:text-hoosier-red hover:underline focus-visible:text-hoosier-red focus-visible:underline focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-hoosier-red"
-            >
-              {player.displayName}
-            </button>
-          </h2>
-          <dl className="mt-3 grid grid-cols-2 gap-2 text-sm text-slate-600">
-            <div>
-              <dt className="font-medium text-slate-500">Class</dt>
-              <dd>{player.experience}</dd>
-            </div>
-            <div>
-              <dt className="font-medium text-slate-500">Hometown</dt>
-              <dd>{player.hometown}</dd>
-            </div>
-            <div>
-              <dt className="font-medium text-slate-500">Height</dt>
-              <dd>{player.height}</dd>
-            </div>
-            <div>
-              <dt className="font-medium text-slate-500">Weight</dt>
-              <dd>{player.weight}</dd>
+    <div ref={listRef} className="grid gap-4" style={{ paddingTop: paddingStart, paddingBottom: paddingEnd }}>
+      {items.map(({ index }) => {
+        const player = players[index]
+        // Only the first screen of cards fades in; cards mounted by scrolling appear as they are.
+        const animated = !hasScrolled && index < visibleRange.end
+        const titleId = `${titleIdPrefix}-${player.id}`
+
+        return (
+          <article
+            key={player.id}
+            ref={measureElement}
+            data-index={index}
+            aria-labelledby={titleId}
+            className={`${animated ? 'animate-fade-in-up' : ''} rounded-2xl border border-slate-200 bg-surface px-4 py-4 shadow-sm`}
+            style={animated && makeCardStyle ? makeCardStyle(index) : undefined}
+          >
+            {(showJersey || showPosition || onToggleCompare) && (
+              <div className="flex items-baseline justify-between gap-3">
+                {showJersey && (
+                  <span className="text-lg font-semibold text-team">
+                    #<HighlightedText text={player.jersey} terms={highlightTerms} />
+                  </span>
+                )}
+                {showPosition && (
+                  <span className="ml-auto text-sm font-medium uppercase tracking-wide text-slate-500">
+                    <HighlightedText text={player.position} terms={highlightTerms} />
+                  </span>
+                )}
+                {onToggleCompare && (
+                  <CompareCheckbox player={player} selection={compareSelection} onToggle={onToggleCompare} t={t} />
+                )}
+              </div>
+            )}
+            {/* The star and injury badge sit beside the heading so its name is just the player's. */}
+            <div className="mt-1 flex items-center gap-2">
+              {onToggleFavorite && (
+                <FavoriteStar
+                  isFavorite={favorites ? isFavorite(favorites, player.id) : false}
+                  playerName={player.displayName}
+                  onToggle={() => onToggleFavorite(player.id)}
+                />
+              )}
+              <h2 id={titleId} className="min-w-0 flex-1 text-xl font-semibold text-slate-900">
+                <button
+                  type="button"
+                  onClick={() => onSelect(player.id)}
+                  className="text-left text-slate-900 underline-offset-2 transition hover:text-team hover:underline focus-visible:text-team focus-visible:underline focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+                >
+                  <HighlightedText text={player.displayName} terms={highlightTerms} />
+                </button>
+              </h2>
+              <InjuryBadge status={getInjuryStatus(player)} />
             </div>
-          </dl>
-        </article>
-      ))}
+            {favorites?.notes[player.id] && (
+              <p className="mt-2 whitespace-pre-line rounded-xl bg-amber-50 px-3 py-2 text-sm text-amber-900 dark:bg-amber-400/10 dark:text-amber-100">
+                {favorites.notes[player.id]}
+              </p>
+            )}
+            {detailColumns.length > 0 && (
+              <dl className="mt-3 grid grid-cols-2 gap-2 text-sm text-slate-600">
+                {detailColumns.map((column) => (
+                  <div key={column.key}>
+                    <dt className="font-medium text-slate-500">{t(column.label)}</dt>
+                    <dd>
+                      {column.highlight ? (
+                        <HighlightedText text={column.getText(player, units)} terms={highlightTerms} />
+                      ) : (
+                        column.getText(player, units)
+                      )}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </article>
+        )
+      })}
     </div>
   )
 }
@@ -0,0 +1,80 @@
+import { useMemo } from 'react'
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences'
+import { describeRosterChange, formatLastUpdated, summarizeRosterDiff } from '../lib/roster/formatters'
+import type { RosterChangeKind, RosterDiff } from '../types/roster'
+
+type RosterChangesPanelProps = {
+  changes: RosterDiff | null
+  onSelect?: (playerId: string) => void
+}
+
+const KIND_STYLES: Record<RosterChangeKind, string> = {
+  added: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-400/15 dark:text-emerald-200',
+  removed: 'bg-team/10 text-team',
+  jersey: 'bg-sky-100 text-sky-800 dark:bg-sky-400/15 dark:text-sky-200',
+  position: 'bg-violet-100 text-violet-800 dark:bg-violet-400/15 dark:text-violet-200',
+  status: 'bg-amber-100 text-amber-900 dark:bg-amber-400/15 dark:text-amber-200',
+  injury: 'bg-orange-100 text-orange-900 dark:bg-orange-400/15 dark:text-orange-200',
+}
+
+const RosterChangesPanel = ({ changes, onSelect }: RosterChangesPanelProps) => {
+  const { locale } = useDisplayPreferences()
+  const summary = useMemo(() => summarizeRosterDiff(changes), [changes])
+
+  if (!changes || !summary) {
+    return null
+  }
+
+  const comparedAt = formatLastUpdated(changes.comparedAt, locale)
+  const previousUpdatedAt = formatLastUpdated(changes.previousUpdatedAt, locale)
+
+  return (
+    <details className="group rounded-2xl border border-slate-200 bg-slate-50/80 px-4 py-3">
+      <summary className="flex cursor-pointer list-none items-center justify-between gap-3 text-sm">
+        <span className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">What's new</span>
+        <span className="flex items-center gap-2 font-semibold text-slate-700">
+          {summary}
+          <span className="text-slate-400 transition group-open:rotate-180" aria-hidden="true">
+            ▼
+          </span>
+        </span>
+      </summary>
+
+      <p className="mt-3 text-xs text-slate-500">
+        Detected {comparedAt}
+        {previousUpdatedAt ? `, compared with the roster saved ${previousUpdatedAt}` : ''}.
+      </p>
+
+      <ul className="mt-3 space-y-2 text-sm">
+        {changes.changes.map((change) => {
+          const { label, detail } = describeRosterChange(change)
+          const canSelect = Boolean(onSelect) && change.kind !== 'removed'
+
+          return (
+            <li key={`${change.kind}-${change.playerId}`} className="flex flex-wrap items-center gap-2">
+              <span
+                className={`rounded-full px-2 py-0.5 text-xs font-semibold uppercase tracking-wide ${KIND_STYLES[change.kind]}`}
+              >
+                {label}
+              </span>
+              {canSelect ? (
+                <button
+                  type="button"
+                  onClick={() => onSelect?.(change.playerId)}
+                  className="font-medium text-slate-800 underline-offset-2 transition hover:text-team hover:underline focus-visible:text-team focus-visible:underline focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+                >
+                  {change.playerName}
+                </button>
+              ) : (
+                <span className="font-medium text-slate-800">{change.playerName}</span>
+              )}
+              <span className="text-slate-500">{detail}</span>
+            </li>
+          )
+        })}
+      </ul>
+    </details>
+  )
+}
+
+export default RosterChangesPanel
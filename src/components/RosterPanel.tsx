@@ -0,0 +1,187 @@
+import type { CSSProperties } from 'react'
+import { getVisibleColumns } from '../lib/roster/columns'
+import { toggleSort } from '../lib/roster/sorting'
+import type { Favorites } from '../types/favorites'
+import type { ColumnLayout, Player, SortConfig } from '../types/roster'
+import ColumnSettings from './ColumnSettings'
+import ExportMenu from './ExportMenu'
+import FavoritesMenu from './FavoritesMenu'
+import RosterCards from './RosterCards'
+import RosterTable from './RosterTable'
+import SortControls from './SortControls'
+
+type RosterPanelProps = {
+  players: Player[]
+  loading: boolean
+  error: string | null
+  notice: string | null
+  formattedLastUpdated: string | null
+  sortConfig: SortConfig
+  onSortChange: (config: SortConfig) => void
+  columnLayout: ColumnLayout
+  onColumnLayoutChange: (layout: ColumnLayout) => void
+  /** Start of exported file names, e.g. "Indiana roster". */
+  exportFileName: string
+  onSelect: (playerId: string) => void
+  makeStaggerStyle?: (index: number) => CSSProperties
+  onRefresh?: () => void
+  isRefreshing?: boolean
+  staleSince?: number | null
+  loadingMessage?: string
+  emptyMessage?: string
+  highlightTerms?: string[]
+  compareSelection?: string[]
+  onToggleCompare?: (player: Player) => void
+  favorites?: Favorites
+  onToggleFavorite?: (playerId: string) => void
+  favoritesOnly?: boolean
+  /** With `onImportFavorites`, adds the favorites menu: the "Favorites only" filter and file import/export. */
+  onFavoritesOnlyChange?: (favoritesOnly: boolean) => void
+  onImportFavorites?: (imported: Favorites) => void
+}
+
+const RosterPanel = ({
+  players,
+  loading,
+  error,
+  notice,
+  formattedLastUpdated,
+  sortConfig,
+  onSortChange,
+  columnLayout,
+  onColumnLayoutChange,
+  exportFileName,
+  onSelect,
+  makeStaggerStyle,
+  onRefresh,
+  isRefreshing = false,
+  staleSince = null,
+  loadingMessage = 'Loading roster…',
+  emptyMessage,
+  highlightTerms,
+  compareSelection,
+  onToggleCompare,
+  favorites,
+  onToggleFavorite,
+  favoritesOnly = false,
+  onFavoritesOnlyChange,
+  onImportFavorites,
+}: RosterPanelProps) => {
+  const columns = getVisibleColumns(columnLayout)
+
+  return (
+    <>
+      {loading && (
+        <div className="flex h-40 items-center justify-center text-base font-medium text-slate-600">
+          <span className="animate-pulse">{loadingMessage}</span>
+        </div>
+      )}
+
+      {!loading && notice && !error && (
+        <div
+          className="animate-fade-in-up mb-4 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm font-semibold text-amber-900 dark:border-amber-800 dark:bg-amber-950/40 dark:text-amber-100"
+          style={{ animationDelay: '180ms' }}
+        >
+          {notice}
+        </div>
+      )}
+
+      {!loading && error && (
+        <div className="animate-fade-in-up flex h-40 flex-col items-center justify-center gap-4 text-center text-base font-semibold text-team">
+          {error}
+          {onRefresh && (
+            <button
+              type="button"
+              onClick={onRefresh}
+              className="rounded-full bg-team px-4 py-2 text-sm font-semibold text-team-contrast shadow-sm transition hover:bg-team/90 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+            >
+              Try again
+            </button>
+          )}
+        </div>
+      )}
+
+      {!loading && !error && (
+        <div className="space-y-6">
+          <div className="flex flex-wrap items-center gap-3">
+            {formattedLastUpdated && (
+              <p className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-400">
+                Last updated {formattedLastUpdated}
+                {staleSince !== null && <span className="ml-2 text-amber-600 dark:text-amber-400">(stale)</span>}
+              </p>
+            )}
+            {onRefresh && (
+              <button
+                type="button"
+                onClick={onRefresh}
+                disabled={isRefreshing}
+                aria-label={isRefreshing ? 'Refreshing roster' : 'Refresh roster'}
+                className="inline-flex items-center gap-1.5 rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:bg-team/10 hover:text-team focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team disabled:cursor-wait disabled:opacity-70"
+              >
+                <svg
+                  viewBox="0 0 20 20"
+                  fill="currentColor"
+                  aria-hidden="true"
+                  className={`h-3.5 w-3.5 ${isRefreshing ? 'animate-spin' : ''}`}
+                >
+                  <path
+                    fillRule="evenodd"
+                    clipRule="evenodd"
+                    d="M15.312 11.424a5.5 5.5 0 0 1-9.201 2.466l-.312-.311h2.433a.75.75 0 0 0 0-1.5H3.989a.75.75 0 0 0-.75.75v4.242a.75.75 0 0 0 1.5 0v-2.43l.31.31a7 7 0 0 0 11.712-3.138.75.75 0 0 0-1.449-.39Zm1.23-3.723a.75.75 0 0 0 .219-.53V2.929a.75.75 0 0 0-1.5 0V5.36l-.31-.31A7 7 0 0 0 3.239 8.188a.75.75 0 1 0 1.448.389A5.5 5.5 0 0 1 13.89 6.11l.311.31h-2.432a.75.75 0 0 0 0 1.5h4.243a.75.75 0 0 0 .53-.219Z"
+                  />
+                </svg>
+                {isRefreshing ? 'Refreshing' : 'Refresh'}
+              </button>
+            )}
+            <div className="ml-auto flex items-center gap-2">
+              {favorites && onFavoritesOnlyChange && onImportFavorites && (
+                <FavoritesMenu
+                  favorites={favorites}
+                  favoritesOnly={favoritesOnly}
+                  onFavoritesOnlyChange={onFavoritesOnlyChange}
+                  onImport={onImportFavorites}
+                />
+              )}
+              <ExportMenu players={players} columns={columns} fileName={exportFileName} />
+              <ColumnSettings layout={columnLayout} onChange={onColumnLayoutChange} />
+            </div>
+          </div>
+
+          <div className="hidden md:block">
+            <RosterTable
+              players={players}
+              sortConfig={sortConfig}
+              onSort={(key, additive) => onSortChange(toggleSort(sortConfig, key, additive))}
+              onSelect={onSelect}
+              makeRowStyle={makeStaggerStyle}
+              highlightTerms={highlightTerms}
+              columns={columns}
+              compareSelection={compareSelection}
+              onToggleCompare={onToggleCompare}
+              favorites={favorites}
+              onToggleFavorite={onToggleFavorite}
+            />
+          </div>
+
+          <div className="space-y-4 md:hidden">
+            {players.length > 1 && <SortControls sortConfig={sortConfig} onChange={onSortChange} />}
+            <RosterCards
+              players={players}
+              onSelect={onSelect}
+              makeCardStyle={makeStaggerStyle}
+              emptyMessage={emptyMessage}
+              highlightTerms={highlightTerms}
+              columns={columns}
+              compareSelection={compareSelection}
+              onToggleCompare={onToggleCompare}
+              favorites={favorites}
+              onToggleFavorite={onToggleFavorite}
+            />
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
+
+export default RosterPanel
@@ -1,95 +1,360 @@
-import type { CSSProperties } from 'react'
+import type { CSSProperties, FocusEvent, KeyboardEvent } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences'
+import { useVirtualList } from '../hooks/useVirtualList'
+import { getGridCellFocusTarget } from '../lib/a11y/focus'
+import { clampGridPosition, moveGridPosition } from '../lib/a11y/grid'
+import { MAX_COMPARED_PLAYERS } from '../lib/compare/constants'
+import { isPlayerCompared } from '../lib/compare/data'
+import { isFavorite } from '../lib/favorites/data'
+import { getInjuryStatus } from '../lib/injuries/data'
+import { DEFAULT_COLUMN_LAYOUT, getVisibleColumns } from '../lib/roster/columns'
+import type { RosterColumn } from '../lib/roster/columns'
+import { ESTIMATED_TABLE_ROW_HEIGHT } from '../lib/virtualization/constants'
+import type { GridPosition } from '../types/a11y'
+import type { Favorites } from '../types/favorites'
+import type { Translate } from '../types/i18n'
 import type { Player, SortConfig, SortKey } from '../types/roster'
-
-type Column = {
-  key: SortKey
-  label: string
-}
+import type { UnitSystem } from '../types/units'
+import FavoriteStar from './FavoriteStar'
+import HighlightedText from './HighlightedText'
+import InjuryBadge from './InjuryBadge'
 
 type RosterTableProps = {
   players: Player[]
   sortConfig: SortConfig
-  onSort: (key: SortKey) => void
+  /** `additive` is true for shift-clicks, which add the column as a tie-breaker. */
+  onSort: (key: SortKey, additive: boolean) => void
   onSelect: (playerId: string) => void
   makeRowStyle?: (index: number) => CSSProperties
-  columns?: Column[]
+  /** Visible columns in display order. */
+  columns?: RosterColumn[]
+  /** Folded search terms to highlight in the text columns. */
+  highlightTerms?: string[]
+  /** References of the players picked for comparison; the compare column only shows with `onToggleCompare`. */
+  compareSelection?: string[]
+  onToggleCompare?: (player: Player) => void
+  /** Starred players and notes; the star column only shows with `onToggleFavorite`. */
+  favorites?: Favorites
+  onToggleFavorite?: (playerId: string) => void
 }
 
-const defaultColumns: Column[] = [
-  { key: 'jersey', label: '#' },
-  { key: 'displayName', label: 'Name' },
-  { key: 'position', label: 'Pos' },
-  { key: 'experience', label: 'Class' },
-  { key: 'height', label: 'Height' },
-  { key: 'weight', label: 'Weight' },
-  { key: 'hometown', label: 'Hometown' },
-]
-
-const RosterTable = ({ players, sortConfig, onSort, onSelect, makeRowStyle, columns = defaultColumns }: RosterTableProps) => (
-  <div
-    className="animate-fade-in-up max-h-[65vh] overflow-auto rounded-2xl border border-slate-200"
-    style={{ animationDelay: '220ms' }}
-  >
-    <table className="min-w-full text-left text-sm text-slate-700">
-      <thead>
-        <tr className="bg-slate-50 text-xs font-semibold uppercase tracking-wider text-slate-500">
-          {columns.map((column) => {
-            const isActive = sortConfig.key === column.key
-            const ariaSort: 'ascending' | 'descending' | 'none' = isActive
-              ? sortConfig.direction === 'asc'
-                ? 'ascending'
-                : 'descending'
-              : 'none'
+const defaultColumns = getVisibleColumns(DEFAULT_COLUMN_LAYOUT)
 
-            return (
-              <th key={column.key} scope="col" className="sticky top-0 z-10 px-4 py-3" aria-sort={ariaSort}>
-                <button
-                  type="button"
-                  onClick={() => onSort(column.key)}
-                  aria-label={
-                    isActive
-                      ? `Sort by ${column.label}, ${sortConfig.direction === 'asc' ? 'ascending' : 'descending'}`
-                      : `Sort by ${column.label}`
-                  }
-                  className="flex w-full items-center justify-between gap-2 text-left uppercase tracking-wider text-slate-500 transition hover:text-slate-700 focus:outline-none focus-visible:text-slate-700 focus-visible:ring-2 focus-visible:ring-hoosier-red/40"
-                >
-                  <span>{column.label}</span>
-                  <span className="text-[0.65rem] text-slate-400" aria-hidden="true">
-                    {isActive ? (sortConfig.direction === 'asc' ? '▲' : '▼') : '▲▼'}
-                  </span>
-                </button>
+// Cells without a control of their own take focus themselves while navigating the grid.
+const FOCUSABLE_CELL_CLASSES =
+  'focus-visible:outline focus-visible:outline-2 focus-visible:-outline-offset-2 focus-visible:outline-team'
+
+const renderCell = (
+  column: RosterColumn,
+  player: Player,
+  units: UnitSystem,
+  tabIndex: number,
+  onSelect: (playerId: string) => void,
+  highlightTerms?: string[],
+) => {
+  const text = column.getText(player, units)
+  const content = column.highlight ? <HighlightedText text={text} terms={highlightTerms} /> : text
+
+  if (column.key === 'displayName') {
+    return (
+      <td key={column.key} className="whitespace-nowrap px-4 py-3">
+        <button
+          type="button"
+          onClick={() => onSelect(player.id)}
+          tabIndex={tabIndex}
+          className="text-left font-medium text-slate-800 underline-offset-2 transition hover:text-team hover:underline focus-visible:text-team focus-visible:underline focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+        >
+          {content}
+        </button>
+        <InjuryBadge status={getInjuryStatus(player)} className="ml-2" />
+      </td>
+    )
+  }
+
+  return (
+    <td
+      key={column.key}
+      tabIndex={tabIndex}
+      className={`whitespace-nowrap px-4 py-3 ${FOCUSABLE_CELL_CLASSES} ${column.key === 'jersey' ? 'font-semibold text-slate-900' : 'text-slate-600'}`}
+    >
+      {content}
+    </td>
+  )
+}
+
+const FavoriteCell = ({
+  player,
+  favorites,
+  onToggle,
+  tabIndex,
+  t,
+}: {
+  player: Player
+  favorites?: Favorites
+  onToggle: (playerId: string) => void
+  tabIndex: number
+  t: Translate
+}) => {
+  const note = favorites?.notes[player.id]
+
+  return (
+    <td className="py-3 pl-4 pr-0">
+      <span className="flex items-center gap-1">
+        <FavoriteStar
+          isFavorite={favorites ? isFavorite(favorites, player.id) : false}
+          playerName={player.displayName}
+          onToggle={() => onToggle(player.id)}
+          className="h-4 w-4"
+          tabIndex={tabIndex}
+        />
+        {note && (
+          <span className="text-xs text-slate-400" title={note} aria-label={t('table.hasNote')}>
+            ✎
+          </span>
+        )}
+      </span>
+    </td>
+  )
+}
+
+const CompareCell = ({
+  player,
+  selection,
+  onToggle,
+  tabIndex,
+  t,
+}: {
+  player: Player
+  selection: string[]
+  onToggle: (player: Player) => void
+  tabIndex: number
+  t: Translate
+}) => {
+  const checked = isPlayerCompared(selection, player)
+  const disabled = !checked && selection.length >= MAX_COMPARED_PLAYERS
+
+  return (
+    // A full selection disables the checkbox, so the cell takes its place in the grid.
+    <td tabIndex={disabled ? tabIndex : undefined} className={`py-3 pl-4 pr-0 ${FOCUSABLE_CELL_CLASSES}`}>
+      <input
+        type="checkbox"
+        checked={checked}
+        disabled={disabled}
+        tabIndex={tabIndex}
+        onChange={() => onToggle(player)}
+        aria-label={t('table.comparePlayer', { name: player.displayName })}
+        title={checked ? t('table.removeFromComparison') : t('table.addToComparison')}
+        className="h-4 w-4 rounded border-slate-300 accent-team disabled:cursor-not-allowed disabled:opacity-40"
+      />
+    </td>
+  )
+}
+
+const RosterTable = ({
+  players,
+  sortConfig,
+  onSort,
+  onSelect,
+  makeRowStyle,
+  columns = defaultColumns,
+  highlightTerms,
+  compareSelection = [],
+  onToggleCompare,
+  favorites,
+  onToggleFavorite,
+}: RosterTableProps) => {
+  const { units, t } = useDisplayPreferences()
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const bodyRef = useRef<HTMLTableSectionElement>(null)
+  const pendingFocusRef = useRef<GridPosition | null>(null)
+  const [activeCell, setActiveCell] = useState<GridPosition>({ row: 0, column: 0 })
+
+  const playerIds = useMemo(() => players.map((player) => player.id), [players])
+  const { items, paddingStart, paddingEnd, visibleRange, hasScrolled, measureElement, scrollToIndex } = useVirtualList({
+    keys: playerIds,
+    estimatedSize: ESTIMATED_TABLE_ROW_HEIGHT,
+    listRef: bodyRef,
+    scrollRef,
+  })
+
+  const columnOffset = (onToggleFavorite ? 1 : 0) + (onToggleCompare ? 1 : 0)
+  const gridSize = { rows: players.length, columns: columns.length + columnOffset }
+  // Only one cell is in the tab order; the arrow keys move between the rest (the ARIA grid pattern). If the
+  // active row has scrolled out of the window, the nearest rendered row stands in for it.
+  const activePosition = clampGridPosition(activeCell, gridSize)
+  const tabStopRow = items.length
+    ? Math.min(Math.max(activePosition.row, items[0].index), items[items.length - 1].index)
+    : activePosition.row
+  const getTabIndex = (row: number, column: number) => (row === tabStopRow && column === activePosition.column ? 0 : -1)
+
+  const focusCell = (position: GridPosition) => {
+    const row = bodyRef.current?.querySelector<HTMLTableRowElement>(`tr[data-index="${position.row}"]`)
+    const cell = row?.cells[position.column]
+
+    if (!cell) {
+      return false
+    }
+
+    getGridCellFocusTarget(cell).focus()
+    return true
+  }
+
+  // Rows reached by Page Down or Ctrl+End may only mount after the scroll that brings them into the window.
+  useEffect(() => {
+    if (pendingFocusRef.current && focusCell(pendingFocusRef.current)) {
+      pendingFocusRef.current = null
+    }
+  })
+
+  const handleGridKeyDown = (event: KeyboardEvent<HTMLTableSectionElement>) => {
+    const next = moveGridPosition(event.key, activePosition, gridSize, { ctrlKey: event.ctrlKey || event.metaKey })
+
+    if (!next) {
+      return
+    }
+
+    event.preventDefault()
+    setActiveCell(next)
+    scrollToIndex(next.row)
+    pendingFocusRef.current = focusCell(next) ? null : next
+  }
+
+  // Clicking or tabbing into a cell makes it the grid's tab stop.
+  const handleGridFocus = (event: FocusEvent<HTMLTableSectionElement>) => {
+    const cell = (event.target as HTMLElement).closest('td')
+    const rowIndex = cell?.parentElement?.dataset.index
+
+    if (cell && rowIndex !== undefined) {
+      setActiveCell({ row: Number(rowIndex), column: cell.cellIndex })
+    }
+  }
+
+  return (
+    <div
+      ref={scrollRef}
+      className="animate-fade-in-up max-h-[65vh] scroll-pt-10 overflow-auto rounded-2xl border border-slate-200"
+      style={{ animationDelay: '220ms' }}
+    >
+      <table
+        role="grid"
+        aria-label={t('table.label')}
+        aria-rowcount={players.length + 1}
+        className="min-w-full text-left text-sm text-slate-700"
+      >
+        <thead>
+          <tr aria-rowindex={1} className="bg-slate-50 text-xs font-semibold uppercase tracking-wider text-slate-500">
+            {onToggleFavorite && (
+              <th scope="col" className="sticky top-0 z-10 w-12 py-3 pl-4 pr-0">
+                <span className="sr-only">{t('table.favorite')}</span>
+              </th>
+            )}
+            {onToggleCompare && (
+              <th scope="col" className="sticky top-0 z-10 w-10 py-3 pl-4 pr-0">
+                <span className="sr-only">{t('table.compare')}</span>
               </th>
+            )}
+            {columns.map((column) => {
+              const priority = sortConfig.findIndex((criterion) => criterion.key === column.key)
+              const criterion = priority === -1 ? null : sortConfig[priority]
+              const directionLabel = criterion?.direction === 'desc' ? 'descending' : 'ascending'
+              // Only the primary sort column carries aria-sort; tie-breakers are announced in the label.
+              const ariaSort: 'ascending' | 'descending' | 'none' = priority === 0 ? directionLabel : 'none'
+              const label = t(column.label)
+
+              return (
+                <th key={column.key} scope="col" className="sticky top-0 z-10 px-4 py-3" aria-sort={ariaSort}>
+                  <button
+                    type="button"
+                    onClick={(event) => onSort(column.key, event.shiftKey)}
+                    title={t('table.sortHint')}
+                    aria-label={
+                      criterion
+                        ? t(sortConfig.length > 1 ? 'table.sortedByPriority' : 'table.sortedBy', {
+                            column: label,
+                            direction: t(criterion.direction === 'desc' ? 'table.descending' : 'table.ascending'),
+                            priority: priority + 1,
+                            count: sortConfig.length,
+                          })
+                        : t('table.sortBy', { column: label })
+                    }
+                    className="flex w-full items-center justify-between gap-2 text-left uppercase tracking-wider text-slate-500 transition hover:text-slate-700 focus:outline-none focus-visible:text-slate-700 focus-visible:ring-2 focus-visible:ring-team/40"
+                  >
+                    <span>{t(column.shortLabel)}</span>
+                    <span className="flex items-center gap-1 text-[0.65rem] text-slate-400" aria-hidden="true">
+                      {criterion && sortConfig.length > 1 && (
+                        <span className="inline-flex h-4 min-w-4 items-center justify-center rounded-full bg-team px-1 text-[0.6rem] font-semibold leading-none text-team-contrast">
+                          {priority + 1}
+                        </span>
+                      )}
+                      {criterion ? (criterion.direction === 'asc' ? '▲' : '▼') : '▲▼'}
+                    </span>
+                  </button>
+                </th>
+              )
+            })}
+          </tr>
+        </thead>
+        <tbody ref={bodyRef} onKeyDown={handleGridKeyDown} onFocus={handleGridFocus}>
+          {paddingStart > 0 && (
+            <tr aria-hidden="true">
+              <td colSpan={gridSize.columns} style={{ height: paddingStart }} />
+            </tr>
+          )}
+          {items.map(({ index }) => {
+            const player = players[index]
+            // Only the rows on the first screen fade in; rows mounted by scrolling appear as they are.
+            const animated = !hasScrolled && index < visibleRange.end
+
+            return (
+              <tr
+                key={player.id}
+                ref={measureElement}
+                data-index={index}
+                aria-rowindex={index + 2}
+                className={`${animated ? 'animate-fade-in-up' : ''} ${index % 2 === 0 ? 'bg-surface' : 'bg-slate-50/60'} transition hover:bg-team/5`}
+                style={animated && makeRowStyle ? makeRowStyle(index) : undefined}
+              >
+                {onToggleFavorite && (
+                  <FavoriteCell
+                    player={player}
+                    favorites={favorites}
+                    onToggle={onToggleFavorite}
+                    tabIndex={getTabIndex(index, 0)}
+                    t={t}
+                  />
+                )}
+                {onToggleCompare && (
+                  <CompareCell
+                    player={player}
+                    selection={compareSelection}
+                    onToggle={onToggleCompare}
+                    tabIndex={getTabIndex(index, onToggleFavorite ? 1 : 0)}
+                    t={t}
+                  />
+                )}
+                {columns.map((column, columnIndex) =>
+                  renderCell(
+                    column,
+                    player,
+                    units,
+                    getTabIndex(index, columnOffset + columnIndex),
+                    onSelect,
+                    highlightTerms,
+                  ),
+                )}
+              </tr>
             )
           })}
-        </tr>
-      </thead>
-      <tbody>
-        {players.map((player, index) => (
-          <tr
-            key={player.id}
-            className="animate-fade-in-up odd:bg-white even:bg-slate-50/60 transition hover:bg-hoosier-red/5"
-            style={makeRowStyle ? makeRowStyle(index) : undefined}
-          >
-            <td className="whitespace-nowrap px-4 py-3 font-semibold text-slate-900">{player.jersey}</td>
-            <td className="whitespace-nowrap px-4 py-3">
-              <button
-                type="button"
-                onClick={() => onSelect(player.id)}
-                className="text-left font-medium text-slate-800 underline-offset-2 transition hover:text-hoosier-red hover:underline focus-visible:text-hoosier-red focus-visible:underline focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-hoosier-red"
-              >
-                {player.displayName}
-              </button>
-            </td>
-            <td className="whitespace-nowrap px-4 py-3 text-slate-600">{player.position}</td>
-            <td className="whitespace-nowrap px-4 py-3 text-slate-600">{player.experience}</td>
-            <td className="whitespace-nowrap px-4 py-3 text-slate-600">{player.height}</td>
-            <td className="whitespace-nowrap px-4 py-3 text-slate-600">{player.weight}</td>
-            <td className="whitespace-nowrap px-4 py-3 text-slate-600">{player.hometown}</td>
-          </tr>
-        ))}
-      </tbody>
-    </table>
-  </div>
-)
+          {paddingEnd > 0 && (
+            <tr aria-hidden="true">
+              <td colSpan={gridSize.columns} style={{ height: paddingEnd }} />
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  )
+}
 
 export default RosterTable
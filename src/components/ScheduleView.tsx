@@ -0,0 +1,131 @@
+import type { CSSProperties } from 'react'
+import { useMemo } from 'react'
+import { formatScheduleGame, splitSchedule, summarizeScheduleResults } from '../lib/schedule/formatters'
+import type { FormattedScheduleGame } from '../lib/schedule/formatters'
+import type { GameResult, ScheduleGame } from '../types/roster'
+
+type ScheduleViewProps = {
+  games: ScheduleGame[]
+  loading: boolean
+  error: string | null
+  notice: string | null
+  formattedLastUpdated: string | null
+  makeStaggerStyle?: (index: number) => CSSProperties
+}
+
+const RESULT_STYLES: Record<GameResult, string> = {
+  W: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-400/15 dark:text-emerald-200',
+  L: 'bg-team/10 text-team',
+  T: 'bg-slate-200 text-slate-700',
+}
+
+const ScheduleGameRow = ({ game, style }: { game: FormattedScheduleGame; style?: CSSProperties }) => (
+  <li
+    className="animate-fade-in-up flex flex-col gap-3 rounded-2xl border border-slate-200 bg-surface px-4 py-3 shadow-sm sm:flex-row sm:items-center sm:justify-between"
+    style={style}
+  >
+    <div className="flex items-center gap-3">
+      {game.opponentLogo ? (
+        <img src={game.opponentLogo} alt="" aria-hidden="true" className="h-8 w-8 object-contain" loading="lazy" />
+      ) : (
+        <span className="h-8 w-8" aria-hidden="true" />
+      )}
+      <div>
+        <p className="text-base font-semibold text-slate-900">
+          <span className="mr-1 text-sm font-medium text-slate-500">{game.matchupPrefix}</span>
+          {game.opponent}
+        </p>
+        <p className="text-sm text-slate-500">
+          {[game.formattedDate, game.weekText, game.homeAwayDescriptor].filter(Boolean).join(' • ')}
+        </p>
+        {game.locationText && <p className="text-xs text-slate-400">{game.locationText}</p>}
+      </div>
+    </div>
+    <div className="flex flex-wrap items-center gap-2 text-sm sm:justify-end">
+      {game.result ? (
+        <span className={`rounded-full px-3 py-1 font-semibold ${RESULT_STYLES[game.result]}`}>{game.resultText}</span>
+      ) : (
+        game.statusText && <span className="text-slate-500">{game.statusText}</span>
+      )}
+      {game.broadcasts.length > 0 && (
+        <span className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+          {game.broadcasts.join(', ')}
+        </span>
+      )}
+    </div>
+  </li>
+)
+
+const ScheduleView = ({ games, loading, error, notice, formattedLastUpdated, makeStaggerStyle }: ScheduleViewProps) => {
+  const { completed, upcoming } = useMemo(() => splitSchedule(games), [games])
+  const formattedCompleted = useMemo(() => completed.map(formatScheduleGame), [completed])
+  const formattedUpcoming = useMemo(() => upcoming.map(formatScheduleGame), [upcoming])
+  const resultsSummary = useMemo(() => summarizeScheduleResults(games), [games])
+
+  if (loading) {
+    return (
+      <div className="flex h-40 items-center justify-center text-base font-medium text-slate-600">
+        <span className="animate-pulse">Loading schedule…</span>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="animate-fade-in-up flex h-40 items-center justify-center text-center text-base font-semibold text-team">
+        {error}
+      </div>
+    )
+  }
+
+  if (!games.length) {
+    return (
+      <div className="rounded-2xl border border-dashed border-slate-300 bg-slate-50 px-4 py-10 text-center text-base font-medium text-slate-500">
+        No games are on the schedule yet.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {notice && (
+        <div className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm font-semibold text-amber-900 dark:border-amber-800 dark:bg-amber-950/40 dark:text-amber-100">
+          {notice}
+        </div>
+      )}
+
+      {formattedLastUpdated && (
+        <p className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-400">
+          Last updated {formattedLastUpdated}
+        </p>
+      )}
+
+      {formattedCompleted.length > 0 && (
+        <section className="space-y-3">
+          <div className="flex items-baseline justify-between">
+            <h2 className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">Results</h2>
+            {resultsSummary && <p className="text-sm font-semibold text-slate-700">{resultsSummary}</p>}
+          </div>
+          <ol className="space-y-3">
+            {formattedCompleted.map((game, index) => (
+              <ScheduleGameRow key={game.id} game={game} style={makeStaggerStyle?.(index)} />
+            ))}
+          </ol>
+        </section>
+      )}
+
+      {formattedUpcoming.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-500">Upcoming</h2>
+          <ol className="space-y-3">
+            {formattedUpcoming.map((game, index) => (
+              <ScheduleGameRow key={game.id} game={game} style={makeStaggerStyle?.(index)} />
+            ))}
+          </ol>
+        </section>
+      )}
+    </div>
+  )
+}
+
+export default ScheduleView
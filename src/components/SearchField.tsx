@@ -1,39 +1,76 @@
-import type { CSSProperties, ChangeEvent } from 'react'
+import type { CSSProperties, ChangeEvent, FocusEvent } from 'react'
+import { useId, useRef, useState } from 'react'
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences'
+import type { SearchHint, SearchQueryError } from '../types/search'
 
 export type SearchFieldProps = {
   value: string
   onChange: (value: string) => void
   containerClassName?: string
   style?: CSSProperties
+  /** Syntax problems from `parseSearchQuery`, shown under the input. */
+  errors?: SearchQueryError[]
+  /** Autocomplete suggestions from `getSearchHints`, shown while the field has focus. */
+  hints?: SearchHint[]
 }
 
-const SearchField = ({ value, onChange, containerClassName, style }: SearchFieldProps) => {
+const SearchField = ({ value, onChange, containerClassName, style, errors = [], hints = [] }: SearchFieldProps) => {
+  const [focused, setFocused] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const errorId = useId()
+  const hintsId = useId()
+  const { t } = useDisplayPreferences()
+
   const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
     onChange(event.target.value)
   }
 
+  const handleBlur = (event: FocusEvent<HTMLLabelElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setFocused(false)
+    }
+  }
+
+  const applyHint = (hint: SearchHint) => {
+    onChange(hint.completion)
+    inputRef.current?.focus()
+  }
+
+  const showHints = focused && hints.length > 0
+  const describedBy = [errors.length ? errorId : null, showHints ? hintsId : null].filter(Boolean).join(' ')
+
   return (
     <label
       className={`block w-full space-y-2 text-sm font-semibold text-slate-600 ${containerClassName ?? ''}`}
       style={style}
+      onFocus={() => setFocused(true)}
+      onBlur={handleBlur}
     >
-      <span className="block uppercase tracking-wide">Search players</span>
+      <span className="block uppercase tracking-wide">{t('search.label')}</span>
       <div className="relative">
         <input
+          ref={inputRef}
           type="search"
           name="roster-search"
           autoComplete="off"
-          placeholder="Name, number, position, class, hometown..."
+          spellCheck={false}
+          placeholder={t('search.placeholder')}
           value={value}
           onChange={handleChange}
-          className="w-full rounded-2xl border border-slate-200 bg-white/95 px-4 py-3 pr-12 text-base font-normal text-slate-900 shadow-sm transition focus:border-hoosier-red focus:outline-none focus:ring-4 focus:ring-hoosier-red/15"
+          aria-invalid={errors.length > 0}
+          aria-describedby={describedBy || undefined}
+          className={`w-full rounded-2xl border bg-surface/95 px-4 py-3 pr-12 text-base font-normal text-slate-900 shadow-sm transition focus:outline-none focus:ring-4 ${
+            errors.length
+              ? 'border-amber-400 focus:border-amber-500 focus:ring-amber-200/60 dark:focus:ring-amber-400/25'
+              : 'border-slate-200 focus:border-team focus:ring-team/15'
+          }`}
         />
         {value && (
           <button
             type="button"
             onClick={() => onChange('')}
-            className="absolute inset-y-0 right-2 inline-flex items-center justify-center rounded-xl bg-white/60 px-2 text-slate-400 transition hover:text-hoosier-red focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-hoosier-red"
-            aria-label="Clear search"
+            className="absolute inset-y-0 right-2 inline-flex items-center justify-center rounded-xl bg-surface/60 px-2 text-slate-400 transition hover:text-team focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+            aria-label={t('search.clear')}
           >
             <svg viewBox="0 0 20 20" fill="currentColor" aria-hidden="true" className="h-4 w-4">
               <path
@@ -45,6 +82,39 @@ const SearchField = ({ value, onChange, containerClassName, style }: SearchField
           </button>
         )}
       </div>
+
+      {errors.length > 0 && (
+        <ul
+          id={errorId}
+          className="space-y-1 text-xs font-medium text-amber-900 dark:text-amber-200"
+          aria-live="polite"
+        >
+          {errors.map((error) => (
+            <li key={`${error.start}-${error.token}`}>
+              <code className="rounded bg-amber-100 px-1 py-0.5 font-mono dark:bg-amber-400/15">{error.token}</code>{' '}
+              {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showHints && (
+        <div id={hintsId} className="flex flex-wrap gap-1.5 text-xs font-normal" aria-label={t('search.suggestions')}>
+          {hints.map((hint) => (
+            <button
+              key={hint.label}
+              type="button"
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => applyHint(hint)}
+              title={hint.description ?? undefined}
+              className="rounded-full border border-slate-200 bg-surface px-2.5 py-1 text-slate-600 transition hover:border-team/40 hover:text-team focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+            >
+              <span className="font-mono font-semibold text-slate-800">{hint.label}</span>
+              {hint.description && <span className="ml-1.5 hidden text-slate-500 sm:inline">{hint.description}</span>}
+            </button>
+          ))}
+        </div>
+      )}
     </label>
   )
 }
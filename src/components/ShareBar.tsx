@@ -0,0 +1,63 @@
+type ShareSegment = {
+  label: string
+  count: number
+  className: string
+}
+
+type ShareBarProps = {
+  segments: ShareSegment[]
+  label: string
+}
+
+const formatPercent = (count: number, total: number) => `${Math.round((count / total) * 100)}%`
+
+/** A single 100% stacked bar with a legend; empty segments are left out. */
+const ShareBar = ({ segments, label }: ShareBarProps) => {
+  const visible = segments.filter((segment) => segment.count > 0)
+  const total = visible.reduce((sum, segment) => sum + segment.count, 0)
+
+  if (!total) {
+    return <p className="text-sm text-slate-500">No hometowns listed.</p>
+  }
+
+  let offset = 0
+
+  return (
+    <div className="space-y-3">
+      <svg
+        viewBox="0 0 100 8"
+        preserveAspectRatio="none"
+        className="h-6 w-full overflow-hidden rounded-full"
+        role="img"
+        aria-label={label}
+      >
+        {visible.map((segment) => {
+          const width = (segment.count / total) * 100
+          const x = offset
+          offset += width
+
+          return (
+            <rect key={segment.label} x={x} y={0} width={width} height={8} className={segment.className}>
+              <title>{`${segment.label}: ${segment.count} (${formatPercent(segment.count, total)})`}</title>
+            </rect>
+          )
+        })}
+      </svg>
+      <ul className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-slate-600">
+        {visible.map((segment) => (
+          <li key={segment.label} className="flex items-center gap-1.5">
+            <svg viewBox="0 0 10 10" className="h-2.5 w-2.5" aria-hidden="true">
+              <rect width={10} height={10} rx={2} className={segment.className} />
+            </svg>
+            <span className="font-semibold text-slate-800">{segment.label}</span>
+            <span className="tabular-nums">
+              {segment.count} · {formatPercent(segment.count, total)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default ShareBar
@@ -0,0 +1,42 @@
+import type { ChangeEvent } from 'react'
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences'
+import { formatSnapshotDate } from '../lib/roster/formatters'
+import type { RosterSnapshotSummary } from '../types/roster'
+
+type SnapshotPickerProps = {
+  entries: RosterSnapshotSummary[]
+  selectedKey: string | null
+  onSelect: (key: string | null) => void
+}
+
+const SnapshotPicker = ({ entries, selectedKey, onSelect }: SnapshotPickerProps) => {
+  const { locale } = useDisplayPreferences()
+
+  if (entries.length === 0) {
+    return null
+  }
+
+  const handleChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    onSelect(event.target.value || null)
+  }
+
+  return (
+    <label className="inline-flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.25em] text-slate-400">
+      Roster as of
+      <select
+        value={selectedKey ?? ''}
+        onChange={handleChange}
+        className="rounded-xl border border-slate-200 bg-surface px-3 py-1.5 text-sm font-medium normal-case tracking-normal text-slate-700 shadow-sm focus:border-team focus:outline-none focus:ring-4 focus:ring-team/15"
+      >
+        <option value="">Live</option>
+        {entries.map((entry) => (
+          <option key={entry.key} value={entry.key}>
+            {formatSnapshotDate(entry.snapshotDate, locale)} ({entry.playerCount} players)
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
+
+export default SnapshotPicker
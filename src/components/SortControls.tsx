@@ -0,0 +1,130 @@
+import { useId } from 'react'
+import type { ChangeEvent } from 'react'
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences'
+import {
+  MAX_SORT_KEYS,
+  SORT_KEY_LABELS,
+  SORT_KEYS,
+  removeSortKey,
+  setPrimarySortKey,
+  setSortDirection,
+} from '../lib/roster/sorting'
+import type { SortConfig, SortDirection, SortKey } from '../types/roster'
+
+type SortControlsProps = {
+  sortConfig: SortConfig
+  onChange: (config: SortConfig) => void
+}
+
+const selectClassName =
+  'rounded-xl border border-slate-200 bg-surface px-3 py-2 text-sm font-medium text-slate-700 shadow-sm focus:border-team focus:outline-none focus:ring-4 focus:ring-team/15'
+
+const chipButtonClassName =
+  'rounded-full px-1.5 text-slate-500 transition hover:text-team focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team'
+
+/**
+ * Sorting for the mobile card list, which has no column headers: a primary key with its direction,
+ * then up to two tie-breakers.
+ */
+const SortControls = ({ sortConfig, onChange }: SortControlsProps) => {
+  const primarySelectId = useId()
+  const { t } = useDisplayPreferences()
+  const [primary, ...tieBreakers] = sortConfig
+  const availableKeys = SORT_KEYS.filter((key) => !sortConfig.some((criterion) => criterion.key === key))
+
+  const handlePrimaryChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    onChange(setPrimarySortKey(sortConfig, event.target.value as SortKey))
+  }
+
+  const handleAdd = (event: ChangeEvent<HTMLSelectElement>) => {
+    const key = event.target.value as SortKey
+
+    if (key) {
+      onChange([...sortConfig, { key, direction: 'asc' }])
+    }
+  }
+
+  const toggleDirection = (key: SortKey, direction: SortDirection) => {
+    onChange(setSortDirection(sortConfig, key, direction === 'asc' ? 'desc' : 'asc'))
+  }
+
+  const describeDirection = (key: SortKey, direction: SortDirection) =>
+    t('sort.switchDirection', {
+      column: t(SORT_KEY_LABELS[key]),
+      direction: t(direction === 'asc' ? 'table.ascending' : 'table.descending'),
+    })
+
+  if (!primary) {
+    return null
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center gap-2">
+        <label htmlFor={primarySelectId} className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+          {t('sort.sortBy')}
+        </label>
+        <select id={primarySelectId} value={primary.key} onChange={handlePrimaryChange} className={selectClassName}>
+          {SORT_KEYS.map((key) => (
+            <option key={key} value={key}>
+              {t(SORT_KEY_LABELS[key])}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => toggleDirection(primary.key, primary.direction)}
+          aria-label={describeDirection(primary.key, primary.direction)}
+          className="rounded-xl border border-slate-200 bg-surface px-3 py-2 text-slate-600 shadow-sm transition hover:text-team focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team"
+        >
+          {primary.direction === 'asc' ? '▲' : '▼'}
+        </button>
+      </div>
+
+      {(tieBreakers.length > 0 || (availableKeys.length > 0 && sortConfig.length < MAX_SORT_KEYS)) && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">{t('sort.thenBy')}</span>
+          {tieBreakers.map(({ key, direction }, index) => (
+            <span
+              key={key}
+              className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-surface py-1 pl-2 pr-1 text-slate-700 shadow-sm"
+            >
+              <span className="inline-flex h-4 min-w-4 items-center justify-center rounded-full bg-team px-1 text-[0.6rem] font-semibold leading-none text-team-contrast">
+                {index + 2}
+              </span>
+              {t(SORT_KEY_LABELS[key])}
+              <button
+                type="button"
+                onClick={() => toggleDirection(key, direction)}
+                aria-label={describeDirection(key, direction)}
+                className={chipButtonClassName}
+              >
+                {direction === 'asc' ? '▲' : '▼'}
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(removeSortKey(sortConfig, key))}
+                aria-label={t('sort.stopSorting', { column: t(SORT_KEY_LABELS[key]) })}
+                className={chipButtonClassName}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          {availableKeys.length > 0 && sortConfig.length < MAX_SORT_KEYS && (
+            <select value="" onChange={handleAdd} aria-label={t('sort.addTieBreaker')} className={selectClassName}>
+              <option value="">{t('sort.add')}</option>
+              {availableKeys.map((key) => (
+                <option key={key} value={key}>
+                  {t(SORT_KEY_LABELS[key])}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SortControls
@@ -0,0 +1,142 @@
+import type { ChangeEvent, KeyboardEvent } from 'react'
+import { useId, useMemo, useState } from 'react'
+import { searchTeams } from '../lib/teams/data'
+import type { TeamSummary } from '../types/teams'
+
+type TeamPickerProps = {
+  teams: TeamSummary[]
+  selectedTeamId: string
+  onSelect: (teamId: string) => void
+  loading?: boolean
+  containerClassName?: string
+}
+
+const TeamPicker = ({ teams, selectedTeamId, onSelect, loading = false, containerClassName }: TeamPickerProps) => {
+  const listboxId = useId()
+  const [query, setQuery] = useState('')
+  const [isOpen, setIsOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  const selectedTeam = teams.find((team) => team.id === selectedTeamId) ?? null
+  const matches = useMemo(() => searchTeams(teams, query), [teams, query])
+
+  const close = () => {
+    setIsOpen(false)
+    setQuery('')
+  }
+
+  const choose = (team: TeamSummary) => {
+    if (team.id !== selectedTeamId) {
+      onSelect(team.id)
+    }
+    close()
+  }
+
+  const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
+    setQuery(event.target.value)
+    setActiveIndex(0)
+    setIsOpen(true)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault()
+      setIsOpen(true)
+      setActiveIndex((current) => Math.min(current + 1, Math.max(matches.length - 1, 0)))
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault()
+      setActiveIndex((current) => Math.max(current - 1, 0))
+    } else if (event.key === 'Enter' && isOpen) {
+      event.preventDefault()
+      const team = matches[activeIndex]
+      if (team) {
+        choose(team)
+      }
+    } else if (event.key === 'Escape' && isOpen) {
+      event.stopPropagation()
+      close()
+    }
+  }
+
+  const activeOptionId = isOpen && matches[activeIndex] ? `${listboxId}-${matches[activeIndex].id}` : undefined
+
+  return (
+    <div className={`relative w-full space-y-2 text-sm font-semibold text-slate-600 ${containerClassName ?? ''}`}>
+      <label htmlFor={`${listboxId}-input`} className="block uppercase tracking-wide">
+        Team
+      </label>
+      <div className="relative">
+        {selectedTeam?.logo && !isOpen && (
+          <img
+            src={selectedTeam.logo}
+            alt=""
+            aria-hidden="true"
+            className="pointer-events-none absolute left-3 top-1/2 h-6 w-6 -translate-y-1/2 object-contain"
+          />
+        )}
+        <input
+          id={`${listboxId}-input`}
+          type="text"
+          role="combobox"
+          aria-expanded={isOpen}
+          aria-controls={listboxId}
+          aria-autocomplete="list"
+          aria-activedescendant={activeOptionId}
+          autoComplete="off"
+          placeholder={loading ? 'Loading teams…' : 'Search FBS teams...'}
+          value={isOpen ? query : selectedTeam?.displayName ?? ''}
+          onChange={handleChange}
+          onFocus={() => setIsOpen(true)}
+          onBlur={close}
+          onKeyDown={handleKeyDown}
+          className={`w-full rounded-2xl border border-slate-200 bg-surface/95 py-3 pr-4 text-base font-normal text-slate-900 shadow-sm transition focus:border-team focus:outline-none focus:ring-4 focus:ring-team/15 ${
+            selectedTeam?.logo && !isOpen ? 'pl-11' : 'pl-4'
+          }`}
+        />
+        {isOpen && (
+          <ul
+            id={listboxId}
+            role="listbox"
+            aria-label="FBS teams"
+            className="absolute z-50 mt-2 max-h-72 w-full overflow-auto rounded-2xl border border-slate-200 bg-surface py-2 shadow-xl"
+          >
+            {matches.length === 0 && (
+              <li className="px-4 py-2 text-sm font-medium text-slate-500">No teams match that search.</li>
+            )}
+            {matches.map((team, index) => {
+              const isSelected = team.id === selectedTeamId
+              const isActive = index === activeIndex
+
+              return (
+                <li
+                  key={team.id}
+                  id={`${listboxId}-${team.id}`}
+                  role="option"
+                  aria-selected={isSelected}
+                  onMouseDown={(event) => event.preventDefault()}
+                  onClick={() => choose(team)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={`flex cursor-pointer items-center gap-3 px-4 py-2 text-sm font-medium ${
+                    isActive ? 'bg-team/10 text-team' : 'text-slate-700'
+                  }`}
+                >
+                  {team.logo ? (
+                    <img src={team.logo} alt="" aria-hidden="true" className="h-5 w-5 object-contain" loading="lazy" />
+                  ) : (
+                    <span className="h-5 w-5" aria-hidden="true" />
+                  )}
+                  <span className="flex-1">{team.displayName}</span>
+                  {team.abbreviation && (
+                    <span className="text-xs uppercase tracking-wide text-slate-400">{team.abbreviation}</span>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default TeamPicker
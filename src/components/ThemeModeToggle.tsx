@@ -0,0 +1,41 @@
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences'
+import type { MessageKey } from '../types/i18n'
+import type { ThemeMode } from '../types/theme'
+
+type ThemeModeToggleProps = {
+  mode: ThemeMode
+  onChange: (mode: ThemeMode) => void
+}
+
+const THEME_MODE_OPTIONS: { id: ThemeMode; label: MessageKey }[] = [
+  { id: 'light', label: 'preferences.themeLight' },
+  { id: 'dark', label: 'preferences.themeDark' },
+  { id: 'system', label: 'preferences.themeSystem' },
+]
+
+const ThemeModeToggle = ({ mode, onChange }: ThemeModeToggleProps) => {
+  const { t } = useDisplayPreferences()
+
+  return (
+    <div className="flex items-center gap-1" role="group" aria-label={t('preferences.theme')}>
+      {THEME_MODE_OPTIONS.map((option) => (
+        <button
+          key={option.id}
+          type="button"
+          onClick={() => onChange(option.id)}
+          aria-pressed={mode === option.id}
+          title={option.id === 'system' ? t('preferences.themeSystemDescription') : undefined}
+          className={`rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-wide transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team ${
+            mode === option.id
+              ? 'bg-team text-team-contrast'
+              : 'bg-slate-100 text-slate-500 hover:bg-team/10 hover:text-team'
+          }`}
+        >
+          {t(option.label)}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export default ThemeModeToggle
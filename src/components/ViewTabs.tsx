@@ -0,0 +1,82 @@
+import type { KeyboardEvent } from 'react'
+import { useRef } from 'react'
+import type { AppView, ViewTab } from '../types/views'
+
+type ViewTabsProps = {
+  tabs: ViewTab[]
+  activeView: AppView
+  onChange: (view: AppView) => void
+  panelId: string
+}
+
+const ViewTabs = ({ tabs, activeView, onChange, panelId }: ViewTabsProps) => {
+  const buttonRefs = useRef(new Map<AppView, HTMLButtonElement>())
+  const enabledTabs = tabs.filter((tab) => !tab.disabled)
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLButtonElement>) => {
+    const currentIndex = enabledTabs.findIndex((tab) => tab.id === activeView)
+    let nextIndex: number | null = null
+
+    if (event.key === 'ArrowRight') {
+      nextIndex = (currentIndex + 1) % enabledTabs.length
+    } else if (event.key === 'ArrowLeft') {
+      nextIndex = (currentIndex - 1 + enabledTabs.length) % enabledTabs.length
+    } else if (event.key === 'Home') {
+      nextIndex = 0
+    } else if (event.key === 'End') {
+      nextIndex = enabledTabs.length - 1
+    }
+
+    const nextTab = nextIndex !== null ? enabledTabs[nextIndex] : undefined
+
+    if (nextTab) {
+      event.preventDefault()
+      onChange(nextTab.id)
+      buttonRefs.current.get(nextTab.id)?.focus()
+    }
+  }
+
+  return (
+    <div role="tablist" aria-label="Roster views" className="flex flex-wrap gap-2">
+      {tabs.map((tab) => {
+        const isActive = tab.id === activeView
+
+        return (
+          <button
+            key={tab.id}
+            ref={(element) => {
+              if (element) {
+                buttonRefs.current.set(tab.id, element)
+              } else {
+                buttonRefs.current.delete(tab.id)
+              }
+            }}
+            type="button"
+            role="tab"
+            id={`${panelId}-tab-${tab.id}`}
+            aria-selected={isActive}
+            aria-controls={panelId}
+            tabIndex={isActive ? 0 : -1}
+            disabled={tab.disabled}
+            onClick={() => onChange(tab.id)}
+            onKeyDown={handleKeyDown}
+            className={`rounded-full px-4 py-2 text-sm font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-team disabled:cursor-not-allowed disabled:opacity-50 ${
+              isActive
+                ? 'bg-team text-team-contrast shadow-sm'
+                : 'bg-slate-100 text-slate-600 hover:bg-team/10 hover:text-team'
+            }`}
+          >
+            {tab.label}
+            {tab.description && (
+              <span className={`ml-2 text-xs font-medium ${isActive ? 'text-team-contrast/80' : 'text-slate-400'}`}>
+                {tab.description}
+              </span>
+            )}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+export default ViewTabs
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react'
+
+/** `value`, but only once it has stopped changing for `delayMs`. */
+export const useDebouncedValue = <T>(value: T, delayMs: number): T => {
+  const [debouncedValue, setDebouncedValue] = useState(value)
+
+  useEffect(() => {
+    const timeoutId = window.setTimeout(() => setDebouncedValue(value), delayMs)
+
+    return () => {
+      window.clearTimeout(timeoutId)
+    }
+  }, [value, delayMs])
+
+  return debouncedValue
+}
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react'
+import { clearDiagnostics, getDiagnosticsEntries, subscribeToDiagnostics } from '../lib/diagnostics/store'
+import { DIAGNOSTICS_QUERY_PARAM } from '../lib/diagnostics/constants'
+import type { DiagnosticsEntry } from '../types/diagnostics'
+
+export type UseDiagnosticsResult = {
+  entries: DiagnosticsEntry[]
+  isOpen: boolean
+  close: () => void
+  clear: () => void
+}
+
+const isDiagnosticsShortcut = (event: KeyboardEvent) =>
+  event.shiftKey && (event.ctrlKey || event.altKey) && event.code === 'KeyD'
+
+/**
+ * The diagnostics panel stays hidden until it is asked for, either with `?diagnostics` in the URL or
+ * by pressing Ctrl+Shift+D (Alt+Shift+D also works where the browser reserves the Ctrl shortcut).
+ */
+export const useDiagnostics = (): UseDiagnosticsResult => {
+  const entries = useSyncExternalStore(subscribeToDiagnostics, getDiagnosticsEntries)
+  const [isOpen, setIsOpen] = useState(
+    () => typeof window !== 'undefined' && new URLSearchParams(window.location.search).has(DIAGNOSTICS_QUERY_PARAM),
+  )
+
+  useEffect(() => {
+    if (typeof window === 'undefined') {
+      return
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isDiagnosticsShortcut(event)) {
+        event.preventDefault()
+        setIsOpen((current) => !current)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [])
+
+  const close = useCallback(() => {
+    setIsOpen(false)
+  }, [])
+
+  return { entries, isOpen, close, clear: clearDiagnostics }
+}
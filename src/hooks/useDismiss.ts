@@ -0,0 +1,31 @@
+import { useEffect } from 'react'
+import type { RefObject } from 'react'
+
+/** Calls `onDismiss` while `isOpen` when the user presses Escape or points anywhere outside `containerRef`. */
+export const useDismiss = (containerRef: RefObject<HTMLElement | null>, isOpen: boolean, onDismiss: () => void) => {
+  useEffect(() => {
+    if (!isOpen) {
+      return
+    }
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        onDismiss()
+      }
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onDismiss()
+      }
+    }
+
+    document.addEventListener('pointerdown', handlePointerDown)
+    window.addEventListener('keydown', handleKeyDown)
+
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown)
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [containerRef, isOpen, onDismiss])
+}
@@ -0,0 +1,32 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react'
+import { createTranslator } from '../lib/i18n/data'
+import {
+  getDisplayPreferences,
+  subscribeToDisplayPreferences,
+  updateDisplayPreferences,
+} from '../lib/preferences/store'
+import type { Locale, Translate } from '../types/i18n'
+import type { UnitSystem } from '../types/units'
+
+export type UseDisplayPreferencesResult = {
+  locale: Locale
+  units: UnitSystem
+  setLocale: (locale: Locale) => void
+  setUnits: (units: UnitSystem) => void
+  /** Looks up a message in the current language. */
+  t: Translate
+}
+
+/**
+ * Language and measurement units, remembered between visits. Every caller shares the same store, so
+ * components can read the preferences directly instead of having them passed down.
+ */
+export const useDisplayPreferences = (): UseDisplayPreferencesResult => {
+  const { locale, units } = useSyncExternalStore(subscribeToDisplayPreferences, getDisplayPreferences)
+  const t = useMemo(() => createTranslator(locale), [locale])
+
+  const setLocale = useCallback((nextLocale: Locale) => updateDisplayPreferences({ locale: nextLocale }), [])
+  const setUnits = useCallback((nextUnits: UnitSystem) => updateDisplayPreferences({ units: nextUnits }), [])
+
+  return { locale, units, setLocale, setUnits, t }
+}
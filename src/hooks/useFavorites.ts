@@ -0,0 +1,35 @@
+import { useCallback } from 'react'
+import { FAVORITES_STORAGE_KEY } from '../lib/favorites/constants'
+import { EMPTY_FAVORITES, isFavorites, mergeFavorites, setFavoriteNote, toggleFavorite } from '../lib/favorites/data'
+import type { Favorites } from '../types/favorites'
+import { usePersistentState } from './usePersistentState'
+
+export type UseFavoritesResult = {
+  favorites: Favorites
+  toggleFavorite: (playerId: string) => void
+  setNote: (playerId: string, note: string) => void
+  /** Merges an imported file into the stored favorites. */
+  importFavorites: (imported: Favorites) => void
+}
+
+/** Starred players and notes, remembered in this browser. */
+export const useFavorites = (): UseFavoritesResult => {
+  const [favorites, setFavorites] = usePersistentState(FAVORITES_STORAGE_KEY, EMPTY_FAVORITES, isFavorites)
+
+  const toggle = useCallback(
+    (playerId: string) => setFavorites((current) => toggleFavorite(current, playerId)),
+    [setFavorites],
+  )
+
+  const setNote = useCallback(
+    (playerId: string, note: string) => setFavorites((current) => setFavoriteNote(current, playerId, note)),
+    [setFavorites],
+  )
+
+  const importFavorites = useCallback(
+    (imported: Favorites) => setFavorites((current) => mergeFavorites(current, imported)),
+    [setFavorites],
+  )
+
+  return { favorites, toggleFavorite: toggle, setNote, importFavorites }
+}
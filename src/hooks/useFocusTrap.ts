@@ -0,0 +1,61 @@
+import { useEffect } from 'react'
+import type { RefObject } from 'react'
+import { getFocusableElements } from '../lib/a11y/focus'
+
+/**
+ * Modal focus handling while `isActive`: focus moves to `containerRef` itself (give it `tabIndex={-1}`)
+ * so screen readers start from the dialog's label, Tab and Shift+Tab then wrap around inside it, and when
+ * it closes focus goes back to whatever had it before, usually the button that opened it.
+ */
+export const useFocusTrap = (containerRef: RefObject<HTMLElement | null>, isActive: boolean) => {
+  useEffect(() => {
+    const container = containerRef.current
+
+    if (!isActive || !container) {
+      return
+    }
+
+    const previouslyFocused = document.activeElement instanceof HTMLElement ? document.activeElement : null
+
+    if (!container.contains(document.activeElement)) {
+      container.focus()
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Tab') {
+        return
+      }
+
+      const focusable = getFocusableElements(container)
+
+      if (focusable.length === 0) {
+        event.preventDefault()
+        container.focus()
+        return
+      }
+
+      const first = focusable[0]
+      const last = focusable[focusable.length - 1]
+      const active = document.activeElement
+
+      if (event.shiftKey && (active === first || active === container || !container.contains(active))) {
+        event.preventDefault()
+        last.focus()
+      } else if (!event.shiftKey && (active === last || !container.contains(active))) {
+        event.preventDefault()
+        first.focus()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+
+      // The trigger may have gone (say, the roster re-rendered without that player); focus stays put then.
+      if (previouslyFocused?.isConnected) {
+        previouslyFocused.focus()
+      }
+    }
+  }, [containerRef, isActive])
+}
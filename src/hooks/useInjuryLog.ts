@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react'
+import { loadInjuryLogEntries, subscribeToInjuryLog } from '../lib/injuries/logStore'
+import type { InjuryLogEntry } from '../types/injuries'
+
+/** The injury status movements logged for `teamId` across roster loads, newest first. */
+export const useInjuryLog = (teamId: string): InjuryLogEntry[] => {
+  const [entries, setEntries] = useState<InjuryLogEntry[]>(() => loadInjuryLogEntries(teamId))
+
+  useEffect(() => {
+    setEntries(loadInjuryLogEntries(teamId))
+
+    return subscribeToInjuryLog((updatedTeamId) => {
+      if (updatedTeamId === teamId) {
+        setEntries(loadInjuryLogEntries(teamId))
+      }
+    })
+  }, [teamId])
+
+  return entries
+}
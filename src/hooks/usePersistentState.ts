@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react'
+import type { Dispatch, SetStateAction } from 'react'
+
+const readStoredValue = <T,>(key: string, fallback: T, isValid: (value: unknown) => value is T): T => {
+  if (typeof window === 'undefined') {
+    return fallback
+  }
+
+  try {
+    const raw = window.localStorage.getItem(key)
+
+    if (raw === null) {
+      return fallback
+    }
+
+    const parsed: unknown = JSON.parse(raw)
+    return isValid(parsed) ? parsed : fallback
+  } catch (storageError) {
+    console.error(`Unable to read stored value for ${key}`, storageError)
+    return fallback
+  }
+}
+
+/**
+ * `useState` backed by localStorage. Stored values that fail `isValid` are ignored so a stale or
+ * hand-edited entry can never crash the UI. A non-null `initialOverride` (say, from a shared link)
+ * wins over the stored value on the first render and is then stored itself.
+ */
+export const usePersistentState = <T,>(
+  key: string,
+  fallback: T,
+  isValid: (value: unknown) => value is T,
+  initialOverride: T | null = null,
+): [T, Dispatch<SetStateAction<T>>] => {
+  const [value, setValue] = useState<T>(() => initialOverride ?? readStoredValue(key, fallback, isValid))
+
+  useEffect(() => {
+    if (typeof window === 'undefined') {
+      return
+    }
+
+    try {
+      window.localStorage.setItem(key, JSON.stringify(value))
+    } catch (storageError) {
+      console.error(`Unable to store value for ${key}`, storageError)
+    }
+  }, [key, value])
+
+  return [value, setValue]
+}
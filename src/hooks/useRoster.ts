@@ -1,12 +1,27 @@
-import { useEffect, useState } from 'react'
-import { ROSTER_ENDPOINT, ROSTER_STORAGE_KEY } from '../lib/roster/constants'
-import {
-  isValidPlayerRecord,
-  normalizeRecordStats,
-  normalizeTeamMeta,
-  parseRosterPayload,
-} from '../lib/roster/data'
-import type { CachedRoster, Player, TeamMeta, TeamRecordStats } from '../types/roster'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { recordDiagnostics } from '../lib/diagnostics/store'
+import { describeDataError, summarizeDataError, toDataSourceError } from '../lib/network/errors'
+import type { DataSourceError } from '../lib/network/errors'
+import { recordInjuryStatuses } from '../lib/injuries/logStore'
+import { isAbortError } from '../lib/network/retry'
+import { ROSTER_MAX_RETRIES, ROSTER_POLL_INTERVAL_MS, ROSTER_RETRY_BASE_DELAY_MS } from '../lib/roster/constants'
+import { parseRosterPayload } from '../lib/roster/data'
+import { diffRosters } from '../lib/roster/diff'
+import { loadLatestRosterSnapshot, saveRosterSnapshot } from '../lib/roster/snapshotStore'
+import { createRosterSnapshot } from '../lib/roster/snapshots'
+import { activeRosterSource } from '../lib/sources/activeSource'
+import type { PayloadDiagnostics, SourceResponseInfo } from '../types/diagnostics'
+import type { Player, RosterDiff, TeamMeta, TeamRecordStats } from '../types/roster'
+import type { RosterSource } from '../types/sources'
+
+export type UseRosterOptions = {
+  /** Background refresh interval while the tab is visible; `null` disables polling. */
+  pollIntervalMs?: number | null
+  maxRetries?: number
+  retryBaseDelayMs?: number
+  /** Where payloads come from; defaults to the source selected by `VITE_ROSTER_SOURCE`. */
+  source?: RosterSource
+}
 
 export type UseRosterResult = {
   players: Player[]
@@ -17,9 +32,26 @@ export type UseRosterResult = {
   error: string | null
   notice: string | null
   lastUpdated: number | null
+  changes: RosterDiff | null
+  isRefreshing: boolean
+  /** When the roster on screen was last fetched successfully, if the latest refresh attempt failed. */
+  staleSince: number | null
+  refresh: () => void
 }
 
-export const useRoster = (): UseRosterResult => {
+/**
+ * Loads and caches the roster for `teamId`. Passing `null` leaves the hook idle with an empty roster,
+ * which lets callers mount it before they know which team they need (e.g. an unannounced opponent).
+ */
+export const useRoster = (
+  teamId: string | null,
+  {
+    pollIntervalMs = ROSTER_POLL_INTERVAL_MS,
+    maxRetries = ROSTER_MAX_RETRIES,
+    retryBaseDelayMs = ROSTER_RETRY_BASE_DELAY_MS,
+    source = activeRosterSource,
+  }: UseRosterOptions = {},
+): UseRosterResult => {
   const [players, setPlayers] = useState<Player[]>([])
   const [recordSummary, setRecordSummary] = useState<string | null>(null)
   const [recordStats, setRecordStats] = useState<TeamRecordStats | null>(null)
@@ -28,164 +60,250 @@ export const useRoster = (): UseRosterResult => {
   const [error, setError] = useState<string | null>(null)
   const [notice, setNotice] = useState<string | null>(null)
   const [lastUpdated, setLastUpdated] = useState<number | null>(null)
+  const [changes, setChanges] = useState<RosterDiff | null>(null)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [staleSince, setStaleSince] = useState<number | null>(null)
+
+  const refreshRef = useRef<(() => void) | null>(null)
 
   useEffect(() => {
     const controller = new AbortController()
     let cancelled = false
+    let inFlight = false
+    let lastAttemptAt = 0
 
     let cachedPlayers: Player[] = []
     let cachedTimestamp: number | null = null
     let cachedTeamMeta: TeamMeta | null = null
+    let cachedChanges: RosterDiff | null = null
 
-    const hydrateFromCache = () => {
-      if (typeof window === 'undefined') {
-        return
-      }
+    // Clear the previous team's roster so it never flashes under another team's header.
+    setPlayers([])
+    setRecordSummary(null)
+    setRecordStats(null)
+    setTeamMeta(null)
+    setLastUpdated(null)
+    setChanges(null)
+    setError(null)
+    setNotice(null)
+    setIsRefreshing(false)
+    setStaleSince(null)
+    setLoading(teamId !== null)
 
-      try {
-        const raw = window.localStorage.getItem(ROSTER_STORAGE_KEY)
-
-        if (!raw) {
-          return
-        }
+    if (teamId === null) {
+      refreshRef.current = null
+      return
+    }
 
-        const parsed = JSON.parse(raw) as Partial<CachedRoster>
-        const storedPlayers = Array.isArray(parsed.players)
-          ? parsed.players.filter(isValidPlayerRecord)
-          : []
+    const hydrateFromCache = async () => {
+      try {
+        const snapshot = await loadLatestRosterSnapshot(teamId)
 
-        if (!storedPlayers.length) {
+        if (!snapshot || cancelled) {
           return
         }
 
-        cachedPlayers = storedPlayers
-        cachedTimestamp =
-          typeof parsed.updatedAt === 'number' && Number.isFinite(parsed.updatedAt)
-            ? parsed.updatedAt
-            : null
-        const summaryCandidate =
-          typeof parsed.recordSummary === 'string' ? parsed.recordSummary.trim() : ''
-        const cachedSummary = summaryCandidate ? summaryCandidate : null
-        const cachedStats = normalizeRecordStats(parsed.recordStats)
-        cachedTeamMeta = normalizeTeamMeta(parsed.teamMeta)
-
-        if (cancelled) {
-          return
-        }
+        cachedPlayers = snapshot.players
+        cachedTimestamp = snapshot.updatedAt || null
+        cachedTeamMeta = snapshot.teamMeta
+        cachedChanges = snapshot.changes
 
-        setRecordSummary(cachedSummary)
-        setRecordStats(cachedStats)
+        setRecordSummary(snapshot.recordSummary)
+        setRecordStats(snapshot.recordStats)
         setTeamMeta(cachedTeamMeta)
-        setPlayers(storedPlayers)
+        setPlayers(cachedPlayers)
+        setChanges(cachedChanges)
         setError(null)
         setLoading(false)
         setNotice(null)
-
-        if (cachedTimestamp) {
-          setLastUpdated(cachedTimestamp)
-        } else {
-          setLastUpdated(null)
-        }
+        setLastUpdated(cachedTimestamp)
       } catch (cacheError) {
         console.error('Unable to read cached roster', cacheError)
       }
     }
 
-    const loadRoster = async () => {
-      try {
-        if (cancelled) {
-          return
-        }
+    const loadRoster = async (background: boolean) => {
+      if (cancelled || inFlight) {
+        return
+      }
 
-        setError(null)
-        setNotice(null)
+      inFlight = true
+      lastAttemptAt = Date.now()
 
-        if (!cachedPlayers.length) {
-          setLoading(true)
-        }
+      const startedAt = lastAttemptAt
+      let response: SourceResponseInfo | null = null
+      let payloadDiagnostics: PayloadDiagnostics | null = null
 
-        const response = await fetch(ROSTER_ENDPOINT, { signal: controller.signal })
+      const reportDiagnostics = (failure: DataSourceError | null) => {
+        recordDiagnostics({
+          id: `${teamId}:${startedAt}`,
+          resource: 'roster',
+          teamId,
+          sourceId: source.id,
+          url: response?.url ?? failure?.url ?? null,
+          status: response?.status ?? failure?.status ?? null,
+          startedAt,
+          durationMs: Date.now() - startedAt,
+          background,
+          error: failure ? summarizeDataError(failure) : null,
+          payload: payloadDiagnostics,
+        })
+      }
+
+      try {
+        if (background) {
+          setIsRefreshing(true)
+        } else {
+          setError(null)
+          setNotice(null)
 
-        if (!response.ok) {
-          throw new Error(`Request failed with status ${response.status}`)
+          if (!cachedPlayers.length) {
+            setLoading(true)
+          }
         }
 
-        const payload = await response.json()
-        const { players: parsedPlayers, teamRecord, teamMeta: parsedTeamMeta } = parseRosterPayload(payload)
+        const payload = await source.fetchRoster(teamId, {
+          signal: controller.signal,
+          retries: maxRetries,
+          baseDelayMs: retryBaseDelayMs,
+          onResponse: (info) => {
+            response = info
+          },
+        })
+        const {
+          players: parsedPlayers,
+          teamRecord,
+          teamMeta: parsedTeamMeta,
+          diagnostics,
+        } = parseRosterPayload(payload, teamId)
 
         if (cancelled) {
           return
         }
 
-        cachedPlayers = parsedPlayers
+        payloadDiagnostics = diagnostics
+        reportDiagnostics(null)
+
         const timestamp = Date.now()
+
+        // Keep showing the last meaningful diff until the roster actually changes again.
+        const changeList = cachedPlayers.length ? diffRosters(cachedPlayers, parsedPlayers) : []
+        const nextChanges: RosterDiff | null = changeList.length
+          ? { comparedAt: timestamp, previousUpdatedAt: cachedTimestamp, changes: changeList }
+          : cachedChanges
+
+        cachedPlayers = parsedPlayers
         cachedTimestamp = timestamp
+        cachedTeamMeta = parsedTeamMeta
+        cachedChanges = nextChanges
 
         setRecordSummary(teamRecord.summary)
         setRecordStats(teamRecord.stats)
         setTeamMeta(parsedTeamMeta)
         setPlayers(parsedPlayers)
         setLastUpdated(timestamp)
+        setChanges(nextChanges)
+        setError(null)
+        setNotice(null)
+        setStaleSince(null)
         setLoading(false)
+        recordInjuryStatuses(teamId, parsedPlayers, timestamp, source)
 
-        if (typeof window !== 'undefined') {
-          try {
-            const payloadToStore: CachedRoster = {
+        try {
+          await saveRosterSnapshot(
+            createRosterSnapshot(teamId, timestamp, {
               players: parsedPlayers,
-              updatedAt: timestamp,
               recordSummary: teamRecord.summary,
               recordStats: teamRecord.stats,
               teamMeta: parsedTeamMeta,
-            }
-            window.localStorage.setItem(ROSTER_STORAGE_KEY, JSON.stringify(payloadToStore))
-          } catch (storageError) {
-            console.error('Unable to cache roster', storageError)
-          }
+              changes: nextChanges,
+            }),
+          )
+        } catch (storageError) {
+          console.error('Unable to cache roster', storageError)
         }
       } catch (err) {
-        if (cancelled) {
-          return
-        }
-
-        if (err instanceof DOMException && err.name === 'AbortError') {
+        if (cancelled || isAbortError(err)) {
           return
         }
 
-        console.error('Unable to load roster', err)
+        const failure = toDataSourceError(err)
+        reportDiagnostics(failure)
+        console.error('Unable to load roster', failure)
 
         if (!cachedPlayers.length) {
-          setError('Unable to load the roster right now. Please try again later.')
+          setError(describeDataError(failure, 'roster'))
           setRecordSummary(null)
           setRecordStats(null)
           setTeamMeta(null)
           setLastUpdated(null)
         } else {
           setNotice('Showing the last saved roster. Live data is currently unavailable.')
-
-          if (cachedTimestamp) {
-            setLastUpdated(cachedTimestamp)
-          } else {
-            setLastUpdated(null)
-          }
+          setStaleSince(cachedTimestamp)
+          setLastUpdated(cachedTimestamp)
 
           if (cachedTeamMeta) {
             setTeamMeta(cachedTeamMeta)
           }
         }
       } finally {
+        inFlight = false
+
         if (!cancelled) {
           setLoading(false)
+          setIsRefreshing(false)
         }
       }
     }
 
-    hydrateFromCache()
-    loadRoster()
+    const isVisible = () => document.visibilityState === 'visible'
+
+    const pollTimer =
+      pollIntervalMs !== null && pollIntervalMs > 0
+        ? window.setInterval(() => {
+            if (isVisible()) {
+              loadRoster(true)
+            }
+          }, pollIntervalMs)
+        : null
+
+    // Catch up right away when a backgrounded tab comes back after missing a poll.
+    const handleVisibilityChange = () => {
+      if (pollIntervalMs === null || pollTimer === null || !isVisible()) {
+        return
+      }
+
+      if (Date.now() - lastAttemptAt >= pollIntervalMs) {
+        loadRoster(true)
+      }
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    refreshRef.current = () => {
+      loadRoster(cachedPlayers.length > 0)
+    }
+
+    const run = async () => {
+      await hydrateFromCache()
+      await loadRoster(false)
+    }
+
+    run()
 
     return () => {
       cancelled = true
       controller.abort()
+      refreshRef.current = null
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+
+      if (pollTimer !== null) {
+        window.clearInterval(pollTimer)
+      }
     }
+  }, [teamId, pollIntervalMs, maxRetries, retryBaseDelayMs, source])
+
+  const refresh = useCallback(() => {
+    refreshRef.current?.()
   }, [])
 
   return {
@@ -197,5 +315,9 @@ export const useRoster = (): UseRosterResult => {
     error,
     notice,
     lastUpdated,
+    changes,
+    isRefreshing,
+    staleSince,
+    refresh,
   }
 }
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react'
+import {
+  listRosterSnapshots,
+  loadRosterSnapshot,
+  subscribeToRosterSnapshots,
+} from '../lib/roster/snapshotStore'
+import type { RosterSnapshot, RosterSnapshotSummary } from '../types/roster'
+
+export type UseRosterHistoryResult = {
+  entries: RosterSnapshotSummary[]
+  selectedKey: string | null
+  snapshot: RosterSnapshot | null
+  loading: boolean
+  selectSnapshot: (key: string | null) => void
+}
+
+/**
+ * Lists the saved snapshots for `teamId` and loads the one the user picks. A `null` selection means
+ * "live", so callers fall back to the roster from `useRoster`.
+ */
+export const useRosterHistory = (teamId: string): UseRosterHistoryResult => {
+  const [entries, setEntries] = useState<RosterSnapshotSummary[]>([])
+  const [selection, setSelection] = useState<{ teamId: string; key: string } | null>(null)
+  const [snapshot, setSnapshot] = useState<RosterSnapshot | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const selectedKey = selection?.teamId === teamId ? selection.key : null
+
+  useEffect(() => {
+    let cancelled = false
+
+    const refresh = async () => {
+      try {
+        const summaries = await listRosterSnapshots(teamId)
+
+        if (!cancelled) {
+          setEntries(summaries)
+        }
+      } catch (historyError) {
+        console.error('Unable to list roster snapshots', historyError)
+      }
+    }
+
+    setEntries([])
+    refresh()
+
+    const unsubscribe = subscribeToRosterSnapshots((savedTeamId) => {
+      if (savedTeamId === teamId) {
+        refresh()
+      }
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [teamId])
+
+  useEffect(() => {
+    let cancelled = false
+
+    setSnapshot(null)
+
+    if (!selectedKey) {
+      setLoading(false)
+      return
+    }
+
+    const load = async () => {
+      setLoading(true)
+
+      try {
+        const stored = await loadRosterSnapshot(teamId, selectedKey)
+
+        if (!cancelled) {
+          setSnapshot(stored)
+        }
+      } catch (historyError) {
+        console.error('Unable to load roster snapshot', historyError)
+      } finally {
+        if (!cancelled) {
+          setLoading(false)
+        }
+      }
+    }
+
+    load()
+
+    return () => {
+      cancelled = true
+    }
+  }, [teamId, selectedKey])
+
+  const selectSnapshot = (key: string | null) => {
+    setSelection(key ? { teamId, key } : null)
+  }
+
+  return { entries, selectedKey, snapshot, loading, selectSnapshot }
+}
@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react'
+import { buildScheduleStorageKey } from '../lib/schedule/constants'
+import { isValidScheduleGame, parseSchedulePayload, sortGamesByDate } from '../lib/schedule/data'
+import { activeRosterSource, scopeStorageKey } from '../lib/sources/activeSource'
+import type { CachedSchedule, ScheduleGame } from '../types/roster'
+import type { RosterSource } from '../types/sources'
+
+export type UseScheduleResult = {
+  games: ScheduleGame[]
+  loading: boolean
+  error: string | null
+  notice: string | null
+  lastUpdated: number | null
+}
+
+export const useSchedule = (teamId: string, source: RosterSource = activeRosterSource): UseScheduleResult => {
+  const [games, setGames] = useState<ScheduleGame[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    let cancelled = false
+
+    let cachedGames: ScheduleGame[] = []
+    let cachedTimestamp: number | null = null
+
+    const storageKey = scopeStorageKey(buildScheduleStorageKey(teamId), source)
+
+    setGames([])
+    setError(null)
+    setNotice(null)
+    setLastUpdated(null)
+    setLoading(true)
+
+    const hydrateFromCache = () => {
+      if (typeof window === 'undefined') {
+        return
+      }
+
+      try {
+        const raw = window.localStorage.getItem(storageKey)
+
+        if (!raw) {
+          return
+        }
+
+        const parsed = JSON.parse(raw) as Partial<CachedSchedule>
+        const storedGames = Array.isArray(parsed.games) ? parsed.games.filter(isValidScheduleGame) : []
+
+        if (!storedGames.length) {
+          return
+        }
+
+        cachedGames = sortGamesByDate(storedGames)
+        cachedTimestamp =
+          typeof parsed.updatedAt === 'number' && Number.isFinite(parsed.updatedAt) ? parsed.updatedAt : null
+
+        setGames(cachedGames)
+        setLastUpdated(cachedTimestamp)
+        setLoading(false)
+      } catch (cacheError) {
+        console.error('Unable to read cached schedule', cacheError)
+      }
+    }
+
+    const loadSchedule = async () => {
+      try {
+        const payload = await source.fetchSchedule(teamId, { signal: controller.signal })
+        const parsedGames = parseSchedulePayload(payload, teamId)
+
+        if (cancelled) {
+          return
+        }
+
+        const timestamp = Date.now()
+        cachedGames = parsedGames
+        cachedTimestamp = timestamp
+
+        setGames(parsedGames)
+        setLastUpdated(timestamp)
+        setError(null)
+        setNotice(null)
+
+        if (typeof window !== 'undefined') {
+          try {
+            const payloadToStore: CachedSchedule = { games: parsedGames, updatedAt: timestamp }
+            window.localStorage.setItem(storageKey, JSON.stringify(payloadToStore))
+          } catch (storageError) {
+            console.error('Unable to cache schedule', storageError)
+          }
+        }
+      } catch (err) {
+        if (cancelled || (err instanceof DOMException && err.name === 'AbortError')) {
+          return
+        }
+
+        console.error('Unable to load schedule', err)
+
+        if (!cachedGames.length) {
+          setError('Unable to load the schedule right now. Please try again later.')
+        } else {
+          setNotice('Showing the last saved schedule. Live data is currently unavailable.')
+          setLastUpdated(cachedTimestamp)
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false)
+        }
+      }
+    }
+
+    hydrateFromCache()
+    loadSchedule()
+
+    return () => {
+      cancelled = true
+      controller.abort()
+    }
+  }, [teamId, source])
+
+  return { games, loading, error, notice, lastUpdated }
+}
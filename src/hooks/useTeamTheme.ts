@@ -0,0 +1,31 @@
+import { useEffect } from 'react'
+import { buildTeamTheme, buildTeamThemeVariables } from '../lib/theme/team'
+import type { TeamMeta } from '../types/roster'
+
+/**
+ * Points the `team` colours at a team's brand colours. Until a team has loaded (or when it has no
+ * colours) the defaults in `index.css` apply.
+ */
+export const useTeamTheme = (team: Pick<TeamMeta, 'color' | 'alternateColor'> | null) => {
+  const color = team?.color ?? null
+  const alternateColor = team?.alternateColor ?? null
+
+  useEffect(() => {
+    if (typeof document === 'undefined' || (!color && !alternateColor)) {
+      return
+    }
+
+    const { style } = document.documentElement
+    const variables = buildTeamThemeVariables(buildTeamTheme({ color, alternateColor }))
+
+    for (const [name, value] of Object.entries(variables)) {
+      style.setProperty(name, value)
+    }
+
+    return () => {
+      for (const name of Object.keys(variables)) {
+        style.removeProperty(name)
+      }
+    }
+  }, [color, alternateColor])
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react'
+import { activeRosterSource, scopeStorageKey } from '../lib/sources/activeSource'
+import { FALLBACK_TEAMS, TEAMS_STORAGE_KEY } from '../lib/teams/constants'
+import { isValidTeamSummary, mergeWithFallbackTeams, parseTeamsPayload } from '../lib/teams/data'
+import type { RosterSource } from '../types/sources'
+import type { CachedTeamList, TeamSummary } from '../types/teams'
+
+export type UseTeamsResult = {
+  teams: TeamSummary[]
+  loading: boolean
+  error: string | null
+}
+
+export const useTeams = (source: RosterSource = activeRosterSource): UseTeamsResult => {
+  const [teams, setTeams] = useState<TeamSummary[]>(FALLBACK_TEAMS)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    let cancelled = false
+    let hasCachedTeams = false
+    const storageKey = scopeStorageKey(TEAMS_STORAGE_KEY, source)
+
+    const hydrateFromCache = () => {
+      if (typeof window === 'undefined') {
+        return
+      }
+
+      try {
+        const raw = window.localStorage.getItem(storageKey)
+
+        if (!raw) {
+          return
+        }
+
+        const parsed = JSON.parse(raw) as Partial<CachedTeamList>
+        const storedTeams = Array.isArray(parsed.teams) ? parsed.teams.filter(isValidTeamSummary) : []
+
+        if (!storedTeams.length) {
+          return
+        }
+
+        hasCachedTeams = true
+        setTeams(mergeWithFallbackTeams(storedTeams, FALLBACK_TEAMS))
+        setLoading(false)
+      } catch (cacheError) {
+        console.error('Unable to read cached team list', cacheError)
+      }
+    }
+
+    const loadTeams = async () => {
+      try {
+        const parsedTeams = parseTeamsPayload(await source.fetchTeams({ signal: controller.signal }))
+
+        if (cancelled) {
+          return
+        }
+
+        if (!parsedTeams.length) {
+          throw new Error('Team list response did not include any teams')
+        }
+
+        setTeams(mergeWithFallbackTeams(parsedTeams, FALLBACK_TEAMS))
+        setError(null)
+
+        if (typeof window !== 'undefined') {
+          try {
+            const payloadToStore: CachedTeamList = { teams: parsedTeams, updatedAt: Date.now() }
+            window.localStorage.setItem(storageKey, JSON.stringify(payloadToStore))
+          } catch (storageError) {
+            console.error('Unable to cache team list', storageError)
+          }
+        }
+      } catch (err) {
+        if (cancelled || (err instanceof DOMException && err.name === 'AbortError')) {
+          return
+        }
+
+        console.error('Unable to load team list', err)
+
+        if (!hasCachedTeams) {
+          setError('Unable to load the team list right now.')
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false)
+        }
+      }
+    }
+
+    hydrateFromCache()
+    loadTeams()
+
+    return () => {
+      cancelled = true
+      controller.abort()
+    }
+  }, [source])
+
+  return { teams, loading, error }
+}
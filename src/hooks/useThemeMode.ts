@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react'
+import type { Dispatch, SetStateAction } from 'react'
+import { DARK_MODE_CLASS, DARK_MODE_MEDIA_QUERY, THEME_MODE_STORAGE_KEY } from '../lib/theme/constants'
+import { isThemeMode } from '../lib/theme/team'
+import type { ResolvedThemeMode, ThemeMode } from '../types/theme'
+import { usePersistentState } from './usePersistentState'
+
+export type UseThemeModeResult = {
+  mode: ThemeMode
+  setMode: Dispatch<SetStateAction<ThemeMode>>
+  /** What `system` currently means, or the chosen mode. */
+  resolvedMode: ResolvedThemeMode
+}
+
+const prefersDark = () => typeof window !== 'undefined' && window.matchMedia?.(DARK_MODE_MEDIA_QUERY).matches
+
+/**
+ * Light, dark or following the operating system, remembered between visits. Applies the choice as the
+ * `dark` class on `<html>`; the inline script in `index.html` does the same before the first paint.
+ */
+export const useThemeMode = (): UseThemeModeResult => {
+  const [mode, setMode] = usePersistentState<ThemeMode>(THEME_MODE_STORAGE_KEY, 'system', isThemeMode)
+  const [systemDark, setSystemDark] = useState(prefersDark)
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || !window.matchMedia) {
+      return
+    }
+
+    const query = window.matchMedia(DARK_MODE_MEDIA_QUERY)
+    const handleChange = (event: MediaQueryListEvent) => setSystemDark(event.matches)
+
+    query.addEventListener('change', handleChange)
+
+    return () => {
+      query.removeEventListener('change', handleChange)
+    }
+  }, [])
+
+  const resolvedMode: ResolvedThemeMode = mode === 'system' ? (systemDark ? 'dark' : 'light') : mode
+
+  useEffect(() => {
+    if (typeof document === 'undefined') {
+      return
+    }
+
+    const root = document.documentElement
+    root.classList.toggle(DARK_MODE_CLASS, resolvedMode === 'dark')
+    root.style.colorScheme = resolvedMode
+  }, [resolvedMode])
+
+  return { mode, setMode, resolvedMode }
+}
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef } from 'react'
+import { OVERLAY_HISTORY_STATE_KEY, URL_PARAMS } from '../lib/navigation/constants'
+import { buildAppUrl, buildUrlSearch, readUrlState } from '../lib/navigation/url'
+import type { UrlState } from '../types/navigation'
+
+export type UseUrlStateResult = {
+  /**
+   * Goes back through history when the open player's details or comparison were pushed as their own
+   * entry. Returns `false` when there is no such entry (for example, the page was opened from a shared link).
+   */
+  leaveOverlayEntry: () => boolean
+}
+
+const isOverlayEntry = (historyState: unknown) =>
+  Boolean(historyState && typeof historyState === 'object' && OVERLAY_HISTORY_STATE_KEY in historyState)
+
+/**
+ * Mirrors `state` (which should be memoized) into the query string and hands the URL's state to
+ * `onNavigate` when the user moves through history. Opening a player or a comparison pushes a history
+ * entry so the back button closes it; every other change replaces the current entry.
+ */
+export const useUrlState = (state: UrlState, onNavigate: (state: UrlState) => void): UseUrlStateResult => {
+  const onNavigateRef = useRef(onNavigate)
+
+  useEffect(() => {
+    onNavigateRef.current = onNavigate
+  })
+
+  useEffect(() => {
+    if (typeof window === 'undefined') {
+      return
+    }
+
+    const { search, hash } = window.location
+    const nextSearch = buildUrlSearch(state, search)
+
+    if (nextSearch === search) {
+      return
+    }
+
+    const url = buildAppUrl(nextSearch, hash)
+    const currentParams = new URLSearchParams(search)
+    const openingPlayer = state.player !== null && !currentParams.has(URL_PARAMS.player)
+    const openingComparison = state.compare.length > 0 && !currentParams.has(URL_PARAMS.compare)
+    const showsOverlay = state.player !== null || state.compare.length > 0
+
+    try {
+      if (openingPlayer || openingComparison) {
+        window.history.pushState({ [OVERLAY_HISTORY_STATE_KEY]: state.player ?? state.compare.join(',') }, '', url)
+      } else {
+        // An entry that no longer shows a player or comparison stops being one the back button should close.
+        window.history.replaceState(showsOverlay ? window.history.state : null, '', url)
+      }
+    } catch (historyError) {
+      // Browsers throttle rapid history updates (fast typing in the search box); the next change catches up.
+      console.error('Unable to update the URL', historyError)
+    }
+  }, [state])
+
+  useEffect(() => {
+    if (typeof window === 'undefined') {
+      return
+    }
+
+    const handlePopState = () => {
+      onNavigateRef.current(readUrlState(window.location.search))
+    }
+
+    window.addEventListener('popstate', handlePopState)
+
+    return () => {
+      window.removeEventListener('popstate', handlePopState)
+    }
+  }, [])
+
+  const leaveOverlayEntry = useCallback(() => {
+    if (typeof window === 'undefined' || !isOverlayEntry(window.history.state)) {
+      return false
+    }
+
+    window.history.back()
+    return true
+  }, [])
+
+  return { leaveOverlayEntry }
+}
@@ -0,0 +1,201 @@
+import { useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react'
+import type { RefObject } from 'react'
+import { DEFAULT_OVERSCAN } from '../lib/virtualization/constants'
+import { buildVirtualLayout, expandRange, findVisibleRange } from '../lib/virtualization/data'
+import type { VirtualItem, VirtualRange } from '../types/virtualization'
+
+type UseVirtualListOptions = {
+  /** One stable key per item, in display order; measured heights follow the key when the list re-sorts. */
+  keys: string[]
+  estimatedSize: number
+  /** The element the items stack inside, including any padding this hook adds. */
+  listRef: RefObject<HTMLElement | null>
+  /** The scrolling element; without one the list scrolls with the page. */
+  scrollRef?: RefObject<HTMLElement | null>
+  /** Space between items, e.g. a `gap-4` grid. */
+  gap?: number
+  overscan?: number
+}
+
+type UseVirtualListResult = {
+  items: VirtualItem[]
+  /** Space standing in for the items above and below the rendered ones. */
+  paddingStart: number
+  paddingEnd: number
+  /** The items actually on screen, without the overscan. */
+  visibleRange: VirtualRange
+  /** False until the list or page first scrolls. */
+  hasScrolled: boolean
+  /** Ref callback for each rendered item, which must carry `data-index`. */
+  measureElement: (element: HTMLElement | null) => (() => void) | undefined
+  /** Scrolls just far enough to show the item, below any `scroll-padding-top` (e.g. for a sticky header). */
+  scrollToIndex: (index: number) => void
+}
+
+type Viewport = { start: number; end: number }
+
+const readViewport = (list: HTMLElement | null, scrollElement: HTMLElement | null): Viewport | null => {
+  if (!list) {
+    return null
+  }
+
+  const listTop = list.getBoundingClientRect().top
+
+  if (scrollElement) {
+    const offset = listTop - scrollElement.getBoundingClientRect().top
+
+    return { start: -offset, end: scrollElement.clientHeight - offset }
+  }
+
+  return { start: -listTop, end: window.innerHeight - listTop }
+}
+
+/**
+ * Windowed rendering for long lists: only the items near the viewport mount, with padding standing in for
+ * the rest. Heights start from `estimatedSize` and are corrected as each rendered item is measured.
+ */
+export const useVirtualList = ({
+  keys,
+  estimatedSize,
+  listRef,
+  scrollRef,
+  gap = 0,
+  overscan = DEFAULT_OVERSCAN,
+}: UseVirtualListOptions): UseVirtualListResult => {
+  const [viewport, setViewport] = useState<Viewport>(() => ({
+    start: 0,
+    end: typeof window === 'undefined' ? 0 : window.innerHeight,
+  }))
+  const [hasScrolled, setHasScrolled] = useState(false)
+  const [measuredSizes, setMeasuredSizes] = useState<Record<string, number>>({})
+  const keysRef = useRef(keys)
+
+  useLayoutEffect(() => {
+    keysRef.current = keys
+  }, [keys])
+
+  const [resizeObserver] = useState(() =>
+    typeof ResizeObserver === 'undefined'
+      ? null
+      : new ResizeObserver((entries) => {
+          setMeasuredSizes((current) => {
+            let next = current
+
+            entries.forEach((entry) => {
+              const element = entry.target as HTMLElement
+              const key = keysRef.current[Number(element.dataset.index)]
+              const size = element.offsetHeight
+
+              // Hidden lists (the cards on a wide screen) report zero; keep the estimate for those.
+              if (key !== undefined && size > 0 && next[key] !== size) {
+                next = next === current ? { ...current } : next
+                next[key] = size
+              }
+            })
+
+            return next
+          })
+        }),
+  )
+
+  const layout = useMemo(
+    () => buildVirtualLayout(keys, measuredSizes, estimatedSize, gap),
+    [keys, measuredSizes, estimatedSize, gap],
+  )
+
+  const updateViewport = useCallback(() => {
+    const next = readViewport(listRef.current, scrollRef?.current ?? null)
+
+    if (next) {
+      setViewport((current) => (current.start === next.start && current.end === next.end ? current : next))
+    }
+  }, [listRef, scrollRef])
+
+  useLayoutEffect(() => {
+    const scrollTarget: HTMLElement | Window = scrollRef?.current ?? window
+
+    const handleScroll = () => {
+      setHasScrolled(true)
+      updateViewport()
+    }
+
+    updateViewport()
+    scrollTarget.addEventListener('scroll', handleScroll, { passive: true })
+    window.addEventListener('resize', updateViewport)
+
+    return () => {
+      scrollTarget.removeEventListener('scroll', handleScroll)
+      window.removeEventListener('resize', updateViewport)
+    }
+  }, [scrollRef, updateViewport])
+
+  // Content above a page-scrolled list can move it without any scrolling, and a shorter list clamps the scroll.
+  useLayoutEffect(() => {
+    updateViewport()
+  }, [layout.totalSize, updateViewport])
+
+  const visibleRange = findVisibleRange(layout, viewport.start, viewport.end)
+  const renderedRange = expandRange(visibleRange, overscan, keys.length)
+
+  const items: VirtualItem[] = []
+
+  for (let index = renderedRange.start; index < renderedRange.end; index += 1) {
+    items.push({ index, key: keys[index], start: layout.starts[index], size: layout.sizes[index] })
+  }
+
+  const lastItem = items[items.length - 1]
+  const paddingStart = items.length ? items[0].start : 0
+  const paddingEnd = lastItem ? layout.totalSize - lastItem.start - lastItem.size : 0
+
+  const measureElement = useCallback(
+    (element: HTMLElement | null) => {
+      if (!element || !resizeObserver) {
+        return undefined
+      }
+
+      resizeObserver.observe(element)
+
+      return () => resizeObserver.unobserve(element)
+    },
+    [resizeObserver],
+  )
+
+  const scrollToIndex = (index: number) => {
+    const list = listRef.current
+    const scrollElement = scrollRef?.current ?? null
+
+    if (!list || index < 0 || index >= keys.length) {
+      return
+    }
+
+    const scrollPadding = parseFloat(getComputedStyle(scrollElement ?? document.documentElement).scrollPaddingTop) || 0
+    const viewportTop = scrollElement ? scrollElement.getBoundingClientRect().top : 0
+    const viewportHeight = scrollElement ? scrollElement.clientHeight : window.innerHeight
+    const scrollTop = scrollElement ? scrollElement.scrollTop : window.scrollY
+    // Item edges in the scroller's content coordinates; the list's own padding is already part of `start`.
+    const listTop = list.getBoundingClientRect().top - viewportTop + scrollTop
+    const itemTop = listTop + layout.starts[index]
+    const itemBottom = itemTop + layout.sizes[index]
+    let target: number | null = null
+
+    if (itemTop < scrollTop + scrollPadding) {
+      target = itemTop - scrollPadding
+    } else if (itemBottom > scrollTop + viewportHeight) {
+      target = itemBottom - viewportHeight
+    }
+
+    if (target === null) {
+      return
+    }
+
+    if (scrollElement) {
+      scrollElement.scrollTop = target
+    } else {
+      window.scrollTo({ top: target })
+    }
+
+    updateViewport()
+  }
+
+  return { items, paddingStart, paddingEnd, visibleRange, hasScrolled, measureElement, scrollToIndex }
+}
@@ -0,0 +1,17 @@
+/** Elements that can take keyboard focus, minus anything disabled or explicitly taken out of the tab order. */
+export const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(',')
+
+/** Keyboard-focusable elements inside `container`, in DOM (tab) order. */
+export const getFocusableElements = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR))
+
+/** What to focus when grid navigation lands on `cell`: its button or checkbox if it has one, else the cell. */
+export const getGridCellFocusTarget = (cell: HTMLElement) =>
+  cell.querySelector<HTMLElement>('a[href], button:not([disabled]), input:not([disabled])') ?? cell
@@ -0,0 +1,45 @@
+import type { GridPosition, GridSize } from '../../types/a11y'
+
+const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), Math.max(max, 0))
+
+/** Keeps `position` inside a grid that may have shrunk since it was stored (say, after a search). */
+export const clampGridPosition = (position: GridPosition, size: GridSize): GridPosition => ({
+  row: clamp(position.row, size.rows - 1),
+  column: clamp(position.column, size.columns - 1),
+})
+
+/**
+ * Where a key press moves focus in a data grid, following the ARIA grid pattern: arrows move one cell,
+ * Home/End jump to the ends of the row (with Ctrl, to the first/last cell of the grid) and Page Up/Down
+ * move `pageSize` rows. `null` for keys the grid doesn't handle.
+ */
+export const moveGridPosition = (
+  key: string,
+  position: GridPosition,
+  size: GridSize,
+  { ctrlKey = false, pageSize = 10 }: { ctrlKey?: boolean; pageSize?: number } = {},
+): GridPosition | null => {
+  const lastRow = size.rows - 1
+  const lastColumn = size.columns - 1
+
+  switch (key) {
+    case 'ArrowUp':
+      return { ...position, row: clamp(position.row - 1, lastRow) }
+    case 'ArrowDown':
+      return { ...position, row: clamp(position.row + 1, lastRow) }
+    case 'ArrowLeft':
+      return { ...position, column: clamp(position.column - 1, lastColumn) }
+    case 'ArrowRight':
+      return { ...position, column: clamp(position.column + 1, lastColumn) }
+    case 'PageUp':
+      return { ...position, row: clamp(position.row - pageSize, lastRow) }
+    case 'PageDown':
+      return { ...position, row: clamp(position.row + pageSize, lastRow) }
+    case 'Home':
+      return ctrlKey ? { row: 0, column: 0 } : { ...position, column: 0 }
+    case 'End':
+      return ctrlKey ? { row: lastRow, column: lastColumn } : { ...position, column: lastColumn }
+    default:
+      return null
+  }
+}
@@ -0,0 +1,143 @@
+import type {
+  CountBar,
+  Distribution,
+  HomeStateShare,
+  LeaderboardEntry,
+  PositionDistribution,
+  SizeMetric,
+  UnitAverage,
+} from '../../types/analytics'
+import type { Player, ScheduleGame, TeamMeta } from '../../types/roster'
+import { isInternationalPlayer, resolveStateCode } from '../hometowns/data'
+import { parseHeight, parseWeight } from '../roster/data'
+import { getPositionGroup, POSITION_GROUPS, POSITION_UNIT_LABELS, POSITION_UNITS } from '../roster/positions'
+
+export const readSizeMetric = (player: Player, metric: SizeMetric) =>
+  metric === 'height' ? parseHeight(player.height) : parseWeight(player.weight)
+
+/** Linear-interpolated quantile of ascending `values` (the same method spreadsheets use). */
+const quantile = (values: number[], fraction: number) => {
+  const position = (values.length - 1) * fraction
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+
+  return values[lower] + (values[upper] - values[lower]) * (position - lower)
+}
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((total, value) => total + value, 0) / values.length : null
+
+export const summarizeDistribution = (players: Player[], metric: SizeMetric): Distribution | null => {
+  const points = players
+    .map((player) => ({ player, value: readSizeMetric(player, metric) }))
+    .filter((point): point is { player: Player; value: number } => point.value !== null)
+    .sort((a, b) => a.value - b.value)
+
+  if (!points.length) {
+    return null
+  }
+
+  const values = points.map((point) => point.value)
+
+  return {
+    min: values[0],
+    q1: quantile(values, 0.25),
+    median: quantile(values, 0.5),
+    q3: quantile(values, 0.75),
+    max: values[values.length - 1],
+    points,
+  }
+}
+
+/** One distribution per position group that has at least one measured player, in depth-chart order. */
+export const buildPositionDistributions = (players: Player[], metric: SizeMetric): PositionDistribution[] =>
+  POSITION_GROUPS.flatMap(({ key, label }) => {
+    const distribution = summarizeDistribution(
+      players.filter((player) => getPositionGroup(player).key === key),
+      metric,
+    )
+
+    return distribution ? [{ key, label, distribution }] : []
+  })
+
+/** Player counts per class, youngest first. */
+export const buildClassBreakdown = (players: Player[]): CountBar[] => {
+  const classes = new Map<string, { count: number; years: number }>()
+
+  for (const player of players) {
+    if (!player.experience || player.experience === '—') {
+      continue
+    }
+
+    const entry = classes.get(player.experience) ?? { count: 0, years: Number.MAX_SAFE_INTEGER }
+    entry.count += 1
+    entry.years = Math.min(entry.years, player.experienceYears ?? Number.MAX_SAFE_INTEGER)
+    classes.set(player.experience, entry)
+  }
+
+  return [...classes.entries()]
+    .sort(([labelA, a], [labelB, b]) => a.years - b.years || labelA.localeCompare(labelB))
+    .map(([label, { count }]) => ({ label, count }))
+}
+
+export const buildUnitAverages = (players: Player[]): UnitAverage[] =>
+  POSITION_UNITS.map((unit) => {
+    const unitPlayers = players.filter((player) => getPositionGroup(player).unit === unit)
+    const heights = unitPlayers.map((player) => parseHeight(player.height)).filter((value) => value !== null)
+    const weights = unitPlayers.map((player) => parseWeight(player.weight)).filter((value) => value !== null)
+
+    return {
+      unit,
+      label: POSITION_UNIT_LABELS[unit],
+      playerCount: unitPlayers.length,
+      averageHeight: average(heights),
+      averageWeight: average(weights),
+    }
+  }).filter((entry) => entry.playerCount > 0)
+
+/**
+ * The team's home state: the state most home games are played in, or failing that a `location` that
+ * names a state (Indiana, Ohio, ...).
+ */
+export const inferHomeState = (games: ScheduleGame[], teamMeta: TeamMeta | null) => {
+  const counts = new Map<string, number>()
+
+  for (const game of games) {
+    const code = game.isHome && !game.isNeutralSite ? resolveStateCode(game.venueState) : null
+
+    if (code) {
+      counts.set(code, (counts.get(code) ?? 0) + 1)
+    }
+  }
+
+  const [mostCommon] = [...counts.entries()].sort((a, b) => b[1] - a[1])
+  return mostCommon?.[0] ?? resolveStateCode(teamMeta?.location ?? null)
+}
+
+export const buildHomeStateShare = (players: Player[], homeState: string | null): HomeStateShare => {
+  const share: HomeStateShare = { homeState, inState: 0, outOfState: 0, international: 0, unknown: 0 }
+
+  for (const player of players) {
+    const code = resolveStateCode(player.birthState)
+
+    if (isInternationalPlayer(player)) {
+      share.international += 1
+    } else if (!code) {
+      share.unknown += 1
+    } else if (code === homeState) {
+      share.inState += 1
+    } else {
+      share.outOfState += 1
+    }
+  }
+
+  return share
+}
+
+/** The `limit` largest players by `metric`; ties keep roster order. */
+export const buildLeaderboard = (players: Player[], metric: SizeMetric, limit = 5): LeaderboardEntry[] =>
+  players
+    .map((player) => ({ player, value: readSizeMetric(player, metric) }))
+    .filter((entry): entry is LeaderboardEntry => entry.value !== null)
+    .sort((a, b) => b.value - a.value)
+    .slice(0, limit)
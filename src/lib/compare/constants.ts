@@ -0,0 +1,2 @@
+export const MIN_COMPARED_PLAYERS = 2
+export const MAX_COMPARED_PLAYERS = 4
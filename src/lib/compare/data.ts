@@ -0,0 +1,74 @@
+import type { SizeMetric } from '../../types/analytics'
+import type { ComparisonRow } from '../../types/compare'
+import type { Player } from '../../types/roster'
+import type { UnitSystem } from '../../types/units'
+import { readSizeMetric } from '../analytics/stats'
+import { getPlayerReference, matchesPlayerReference } from '../navigation/url'
+import { getRosterColumn } from '../roster/columns'
+import { formatMeasurement, formatMeasurementDifference } from '../units/data'
+import { MAX_COMPARED_PLAYERS } from './constants'
+
+export const isPlayerCompared = (selection: string[], player: Player) =>
+  selection.some((reference) => matchesPlayerReference(player, reference))
+
+/** Adds or removes `player`; adding is ignored once the selection is full. */
+export const toggleComparedPlayer = (selection: string[], player: Player) => {
+  if (isPlayerCompared(selection, player)) {
+    return selection.filter((reference) => !matchesPlayerReference(player, reference))
+  }
+
+  return selection.length < MAX_COMPARED_PLAYERS ? [...selection, getPlayerReference(player)] : selection
+}
+
+/** Moves `player` to the front of the selection, making them the baseline differences are measured from. */
+export const makeBaselinePlayer = (selection: string[], player: Player) => [
+  ...selection.filter((reference) => matchesPlayerReference(player, reference)),
+  ...selection.filter((reference) => !matchesPlayerReference(player, reference)),
+]
+
+/** The selected players found in `players`, in selection order; references that don't match are skipped. */
+export const resolveComparedPlayers = (selection: string[], players: Player[]) =>
+  selection.flatMap((reference) => players.find((player) => matchesPlayerReference(player, reference)) ?? [])
+
+const buildMeasuredRow = (label: string, players: Player[], metric: SizeMetric, units: UnitSystem): ComparisonRow => {
+  const measurements = players.map((player) => readSizeMetric(player, metric))
+  const [baseline] = measurements
+  const known = measurements.filter((value) => value !== null)
+  const max = Math.max(...known)
+  const allEqual = known.every((value) => value === known[0])
+
+  return {
+    label,
+    // An unparseable listing is shown as written rather than hidden.
+    values: measurements.map((value, index) =>
+      value === null ? players[index][metric] || '—' : formatMeasurement(value, metric, units),
+    ),
+    differences: measurements.map((value, index) =>
+      index === 0 || value === null || baseline === null
+        ? null
+        : (formatMeasurementDifference(value, baseline, metric, units) ?? 'Same'),
+    ),
+    leaderIndex: known.length > 1 && !allEqual ? measurements.indexOf(max) : null,
+  }
+}
+
+const buildTextRow = (label: string, players: Player[], getText: (player: Player) => string): ComparisonRow => ({
+  label,
+  values: players.map((player) => getText(player) || '—'),
+  differences: null,
+  leaderIndex: null,
+})
+
+/** The vitals shown side by side, one row per attribute. */
+export const buildComparisonRows = (players: Player[], units: UnitSystem): ComparisonRow[] => [
+  buildTextRow('Jersey', players, (player) => `#${player.jersey}`),
+  buildTextRow('Position', players, (player) => player.positionName ?? player.position),
+  buildTextRow('Class', players, (player) => player.experience),
+  buildTextRow('Years in program', players, getRosterColumn('experienceYears').getText),
+  buildMeasuredRow('Height', players, 'height', units),
+  buildMeasuredRow('Weight', players, 'weight', units),
+  buildTextRow('Hometown', players, (player) => player.hometown),
+  buildTextRow('Birthplace', players, getRosterColumn('birthplace').getText),
+  buildTextRow('Roster status', players, (player) => player.status),
+  buildTextRow('Injuries', players, getRosterColumn('injuries').getText),
+]
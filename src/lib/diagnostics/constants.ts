@@ -0,0 +1 @@
+export const DIAGNOSTICS_QUERY_PARAM = 'diagnostics'
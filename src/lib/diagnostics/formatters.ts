@@ -0,0 +1,30 @@
+import type { DataErrorKind, DiagnosticsEntry } from '../../types/diagnostics'
+
+const ERROR_KIND_LABELS: Record<DataErrorKind, string> = {
+  network: 'Network error',
+  http: 'HTTP error',
+  parse: 'Invalid JSON',
+  schema: 'Schema drift',
+}
+
+export const formatErrorKind = (kind: DataErrorKind) => ERROR_KIND_LABELS[kind]
+
+export const formatDuration = (durationMs: number) =>
+  durationMs < 1000 ? `${Math.round(durationMs)} ms` : `${(durationMs / 1000).toFixed(1)} s`
+
+export const formatRequestTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit', second: '2-digit' })
+
+export const formatResponseStatus = (entry: DiagnosticsEntry) => {
+  if (entry.status !== null) {
+    return String(entry.status)
+  }
+
+  return entry.error ? 'No response' : '—'
+}
+
+/** Unknown athlete fields, most frequent first. */
+export const listUnknownFields = (unknownFields: Record<string, number>) =>
+  Object.entries(unknownFields)
+    .map(([field, count]) => ({ field, count }))
+    .sort((a, b) => b.count - a.count || a.field.localeCompare(b.field))
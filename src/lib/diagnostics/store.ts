@@ -0,0 +1,33 @@
+import type { DiagnosticsEntry } from '../../types/diagnostics'
+
+const MAX_DIAGNOSTICS_ENTRIES = 25
+
+let entries: DiagnosticsEntry[] = []
+const diagnosticsListeners = new Set<() => void>()
+
+const notifyListeners = () => {
+  for (const listener of diagnosticsListeners) {
+    listener()
+  }
+}
+
+export const subscribeToDiagnostics = (listener: () => void) => {
+  diagnosticsListeners.add(listener)
+
+  return () => {
+    diagnosticsListeners.delete(listener)
+  }
+}
+
+/** Newest first. The array is replaced on every change so it can back `useSyncExternalStore`. */
+export const getDiagnosticsEntries = () => entries
+
+export const recordDiagnostics = (entry: DiagnosticsEntry) => {
+  entries = [entry, ...entries].slice(0, MAX_DIAGNOSTICS_ENTRIES)
+  notifyListeners()
+}
+
+export const clearDiagnostics = () => {
+  entries = []
+  notifyListeners()
+}
@@ -0,0 +1,42 @@
+// Excel only reads a CSV as UTF-8 (accents, apostrophes) when it starts with a byte order mark.
+const UTF8_BOM = '\uFEFF'
+
+export const downloadTextFile = (contents: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([mimeType.startsWith('text/csv') ? UTF8_BOM + contents : contents], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+
+  link.href = url
+  link.download = fileName
+  link.rel = 'noopener'
+  document.body.append(link)
+  link.click()
+  link.remove()
+
+  // Give the browser a moment to start the download before the blob goes away.
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/** Copies `text`, falling back to a hidden textarea where the async Clipboard API is unavailable. */
+export const copyText = async (text: string) => {
+  if (navigator.clipboard?.writeText) {
+    await navigator.clipboard.writeText(text)
+    return
+  }
+
+  const textarea = document.createElement('textarea')
+  textarea.value = text
+  textarea.setAttribute('readonly', '')
+  textarea.style.position = 'fixed'
+  textarea.style.opacity = '0'
+  document.body.append(textarea)
+  textarea.select()
+
+  try {
+    if (!document.execCommand('copy')) {
+      throw new Error('Copy command was rejected')
+    }
+  } finally {
+    textarea.remove()
+  }
+}
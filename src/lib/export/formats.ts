@@ -0,0 +1,80 @@
+import type { ExportFormat, ExportSettings } from '../../types/export'
+import type { Player } from '../../types/roster'
+import type { RosterColumn } from '../roster/columns'
+import { foldText } from '../search/fuzzy'
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json;charset=utf-8',
+  tsv: 'text/tab-separated-values;charset=utf-8',
+}
+
+// Spreadsheets run cells that start with these as formulas, so exported text is prefixed to stay text.
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/
+
+const neutralizeFormula = (value: string) => (FORMULA_PREFIX_PATTERN.test(value) ? `'${value}` : value)
+
+/** Quotes a CSV field when it holds a comma, quote or line break, doubling any quotes (RFC 4180). */
+export const escapeCsvField = (value: string) => {
+  const safe = neutralizeFormula(value)
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+/** Tabs and line breaks would split a pasted row, so they become spaces. */
+export const escapeTsvField = (value: string) => neutralizeFormula(value.replace(/[\t\r\n]+/g, ' '))
+
+/** A header row of column labels followed by one row per player, exactly as the table shows them. */
+export const buildExportRows = (
+  players: Player[],
+  columns: RosterColumn[],
+  { units, t }: ExportSettings,
+): string[][] => [
+  columns.map((column) => t(column.label)),
+  ...players.map((player) => columns.map((column) => column.getText(player, units))),
+]
+
+export const toCsv = (players: Player[], columns: RosterColumn[], settings: ExportSettings) =>
+  buildExportRows(players, columns, settings)
+    .map((row) => row.map(escapeCsvField).join(','))
+    .join('\r\n')
+
+export const toTsv = (players: Player[], columns: RosterColumn[], settings: ExportSettings) =>
+  buildExportRows(players, columns, settings)
+    .map((row) => row.map(escapeTsvField).join('\t'))
+    .join('\n')
+
+/** One object per player keyed by column key, in column order. */
+export const toJson = (players: Player[], columns: RosterColumn[], { units }: ExportSettings) =>
+  JSON.stringify(
+    players.map((player) => Object.fromEntries(columns.map((column) => [column.key, column.getText(player, units)]))),
+    null,
+    2,
+  )
+
+export const serializePlayers = (
+  format: ExportFormat,
+  players: Player[],
+  columns: RosterColumn[],
+  settings: ExportSettings,
+) => {
+  switch (format) {
+    case 'csv':
+      return toCsv(players, columns, settings)
+    case 'json':
+      return toJson(players, columns, settings)
+    default:
+      return toTsv(players, columns, settings)
+  }
+}
+
+/** e.g. `indiana-roster-2026-10-19.csv` */
+export const buildExportFileName = (baseName: string, format: ExportFormat, date = new Date()) => {
+  const slug = foldText(baseName)
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+  const day = [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map((part) => String(part).padStart(2, '0'))
+    .join('-')
+
+  return `${slug || 'roster'}-${day}.${format}`
+}
@@ -0,0 +1,6 @@
+export const FAVORITES_STORAGE_KEY = 'iu-football-favorites'
+
+/** Bumped if the export file's shape ever changes, so older files can still be read. */
+export const FAVORITES_FILE_VERSION = 1
+
+export const FAVORITES_FILE_NAME = 'roster favorites'
@@ -0,0 +1,75 @@
+import type { Favorites, FavoritesFile } from '../../types/favorites'
+import type { Player } from '../../types/roster'
+import { FAVORITES_FILE_VERSION } from './constants'
+
+export const EMPTY_FAVORITES: Favorites = { playerIds: [], notes: {} }
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export const isFavorites = (value: unknown): value is Favorites =>
+  isRecord(value) &&
+  Array.isArray(value.playerIds) &&
+  value.playerIds.every((playerId) => typeof playerId === 'string') &&
+  isRecord(value.notes) &&
+  Object.values(value.notes).every((note) => typeof note === 'string')
+
+export const isFavorite = (favorites: Favorites, playerId: string) => favorites.playerIds.includes(playerId)
+
+export const toggleFavorite = (favorites: Favorites, playerId: string): Favorites => ({
+  ...favorites,
+  playerIds: isFavorite(favorites, playerId)
+    ? favorites.playerIds.filter((id) => id !== playerId)
+    : [...favorites.playerIds, playerId],
+})
+
+/** Stores `note` for the player; a blank note removes the entry rather than keeping an empty string. */
+export const setFavoriteNote = (favorites: Favorites, playerId: string, note: string): Favorites => {
+  const notes = { ...favorites.notes }
+
+  if (note.trim()) {
+    notes[playerId] = note
+  } else {
+    delete notes[playerId]
+  }
+
+  return { ...favorites, notes }
+}
+
+export const serializeFavorites = (favorites: Favorites, exportedAt = new Date()) => {
+  const file: FavoritesFile = {
+    version: FAVORITES_FILE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    playerIds: favorites.playerIds,
+    notes: favorites.notes,
+  }
+
+  return JSON.stringify(file, null, 2)
+}
+
+/** Reads an exported favorites file, or returns `null` when `text` isn't one. */
+export const parseFavoritesFile = (text: string): Favorites | null => {
+  try {
+    const parsed: unknown = JSON.parse(text)
+
+    if (!isFavorites(parsed)) {
+      return null
+    }
+
+    return { playerIds: [...new Set(parsed.playerIds)], notes: parsed.notes }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Adds an imported file to what is already stored: stars are combined, and where both have a note for
+ * the same player the imported one wins.
+ */
+export const mergeFavorites = (current: Favorites, imported: Favorites): Favorites => ({
+  playerIds: [...new Set([...current.playerIds, ...imported.playerIds])],
+  notes: { ...current.notes, ...imported.notes },
+})
+
+export const keepFavorites = (players: Player[], favorites: Favorites) =>
+  players.filter((player) => isFavorite(favorites, player.id))
@@ -0,0 +1,165 @@
+import type { FacetGroup, FacetKey, FacetOption, FacetSelection } from '../../types/filters'
+import type { Player } from '../../types/roster'
+import { getHomeRegion } from '../hometowns/data'
+
+type FacetDefinition = {
+  key: FacetKey
+  label: string
+  /** The values a player contributes to this facet; a player with none never matches a checked value. */
+  getValues: (player: Player) => string[]
+  /** Option order; defaults to most common across the whole list first, so options don't jump around. */
+  compareOptions?: (a: FacetOption, b: FacetOption, players: Player[]) => number
+  /** Set by its own control (the hometown map) rather than a sidebar checkbox group. */
+  hidden?: boolean
+}
+
+const present = (value: string | null) => (value && value !== '—' ? [value] : [])
+
+const experienceRank = (players: Player[], experience: string) =>
+  players.find((player) => player.experience === experience)?.experienceYears ?? Number.MAX_SAFE_INTEGER
+
+export const FACET_DEFINITIONS: FacetDefinition[] = [
+  {
+    key: 'position',
+    label: 'Position',
+    getValues: (player) => present(player.positionAbbreviation ?? player.position),
+  },
+  {
+    key: 'experience',
+    label: 'Class',
+    getValues: (player) => present(player.experience),
+    compareOptions: (a, b, players) =>
+      experienceRank(players, a.value) - experienceRank(players, b.value) || a.value.localeCompare(b.value),
+  },
+  {
+    key: 'status',
+    label: 'Roster status',
+    getValues: (player) => present(player.status),
+  },
+  {
+    key: 'activity',
+    label: 'Availability',
+    getValues: (player) => [player.isActive ? 'Active' : 'Inactive'],
+  },
+  {
+    key: 'injury',
+    label: 'Injuries',
+    getValues: (player) => {
+      if (!player.injuries.length) {
+        return ['Healthy']
+      }
+
+      const statuses = player.injuries
+        .map((injury) => injury.status)
+        .filter((status): status is string => Boolean(status))
+      return statuses.length ? [...new Set(statuses)] : ['Injured']
+    },
+  },
+  {
+    key: 'birthState',
+    label: 'Home state',
+    getValues: (player) => present(player.birthState),
+    compareOptions: (a, b) => a.value.localeCompare(b.value),
+  },
+  {
+    key: 'birthCountry',
+    label: 'Home country',
+    getValues: (player) => present(player.birthCountry),
+  },
+  {
+    key: 'homeRegion',
+    label: 'Home region',
+    getValues: (player) => present(getHomeRegion(player)),
+    hidden: true,
+  },
+]
+
+const SIDEBAR_FACET_DEFINITIONS = FACET_DEFINITIONS.filter((definition) => !definition.hidden)
+
+export const EMPTY_FACET_SELECTION: FacetSelection = {}
+
+export const countSelectedFacets = (selection: FacetSelection) =>
+  Object.values(selection).reduce((total, values) => total + (values?.length ?? 0), 0)
+
+export const toggleFacetValue = (selection: FacetSelection, key: FacetKey, value: string): FacetSelection => {
+  const current = selection[key] ?? []
+  const next = current.includes(value) ? current.filter((entry) => entry !== value) : [...current, value]
+
+  return { ...selection, [key]: next }
+}
+
+/** Checks (or unchecks) several values of one facet at once, e.g. every country in "International". */
+export const setFacetValues = (
+  selection: FacetSelection,
+  key: FacetKey,
+  values: string[],
+  selected: boolean,
+): FacetSelection => {
+  const current = (selection[key] ?? []).filter((entry) => !values.includes(entry))
+  return { ...selection, [key]: selected ? [...current, ...values] : current }
+}
+
+/** `selection` without the given facets, for counts that shouldn't be narrowed by them. */
+export const omitFacets = (selection: FacetSelection, keys: FacetKey[]): FacetSelection =>
+  Object.fromEntries(Object.entries(selection).filter(([key]) => !keys.includes(key as FacetKey)))
+
+/** Whether `player` satisfies every checked facet, optionally ignoring one facet (for counting). */
+export const matchesFacets = (player: Player, selection: FacetSelection, ignoredKey?: FacetKey) =>
+  FACET_DEFINITIONS.every(({ key, getValues }) => {
+    const selected = selection[key]
+
+    if (key === ignoredKey || !selected?.length) {
+      return true
+    }
+
+    return getValues(player).some((value) => selected.includes(value))
+  })
+
+/**
+ * Builds the checkbox groups for `players` (already narrowed by the search). Each count reflects the
+ * other facets' selections, so checking "WR" updates the class counts but not the position counts.
+ */
+export const buildFacetGroups = (players: Player[], selection: FacetSelection): FacetGroup[] =>
+  SIDEBAR_FACET_DEFINITIONS.map(({ key, label, getValues, compareOptions }) => {
+    const counts = new Map<string, number>()
+    const totals = new Map<string, number>()
+
+    for (const player of players) {
+      const values = getValues(player)
+
+      for (const value of values) {
+        totals.set(value, (totals.get(value) ?? 0) + 1)
+
+        if (!counts.has(value)) {
+          counts.set(value, 0)
+        }
+      }
+
+      if (matchesFacets(player, selection, key)) {
+        for (const value of values) {
+          counts.set(value, (counts.get(value) ?? 0) + 1)
+        }
+      }
+    }
+
+    // Keep checked values visible even when the search no longer matches anyone with them.
+    for (const value of selection[key] ?? []) {
+      if (!counts.has(value)) {
+        counts.set(value, 0)
+      }
+    }
+
+    const selected = selection[key] ?? []
+    const options: FacetOption[] = [...counts.entries()].map(([value, count]) => ({
+      value,
+      count,
+      selected: selected.includes(value),
+    }))
+
+    const byFrequency = (a: FacetOption, b: FacetOption) =>
+      (totals.get(b.value) ?? 0) - (totals.get(a.value) ?? 0) || a.value.localeCompare(b.value)
+
+    options.sort((a, b) => (compareOptions ? compareOptions(a, b, players) : byFrequency(a, b)))
+
+    return { key, label, options }
+  }).filter((group) => group.options.length > 1 || group.options.some((option) => option.selected))
@@ -0,0 +1,18 @@
+import type { PositionGroupKey } from '../../types/positions'
+
+export const FLIP_CARD_PAGE = 'flip-card.html'
+export const FLIP_CARD_OPPONENT_PARAM = 'opponent'
+
+/** Row tint and edge colour per group, spelled out in full so Tailwind keeps them. */
+export const POSITION_GROUP_CLASSES: Record<PositionGroupKey, string> = {
+  QB: 'border-l-red-700 bg-red-50',
+  RB: 'border-l-orange-500 bg-orange-50',
+  WR: 'border-l-amber-500 bg-amber-50',
+  TE: 'border-l-lime-600 bg-lime-50',
+  OL: 'border-l-emerald-700 bg-emerald-50',
+  DL: 'border-l-sky-700 bg-sky-50',
+  LB: 'border-l-indigo-600 bg-indigo-50',
+  DB: 'border-l-violet-600 bg-violet-50',
+  ST: 'border-l-slate-500 bg-slate-100',
+  ATH: 'border-l-stone-400 bg-stone-50',
+}
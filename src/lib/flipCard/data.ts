@@ -0,0 +1,26 @@
+import type { FlipCardSection } from '../../types/flipCard'
+import type { Player } from '../../types/roster'
+import { comparePlayers, parseHeight, parseWeight } from '../roster/data'
+import { getPositionGroup, POSITION_UNIT_LABELS, POSITION_UNITS } from '../roster/positions'
+
+/**
+ * Splits active players into offense, defense and special teams, each in jersey order. Units without
+ * players are left out.
+ */
+export const buildFlipCardSections = (players: Player[]): FlipCardSection[] =>
+  POSITION_UNITS.map((unit) => ({
+    unit,
+    label: POSITION_UNIT_LABELS[unit],
+    players: players
+      .filter((player) => player.isActive && getPositionGroup(player).unit === unit)
+      .sort((a, b) => comparePlayers(a, b, [{ key: 'jersey', direction: 'asc' }])),
+  })).filter((section) => section.players.length > 0)
+
+/** `6-2 / 215`, the spotter-sheet shorthand for height and weight. */
+export const formatCompactSize = (player: Player) => {
+  const inches = parseHeight(player.height)
+  const pounds = parseWeight(player.weight)
+  const height = inches === null ? '—' : `${Math.floor(inches / 12)}-${inches % 12}`
+
+  return `${height} / ${pounds ?? '—'}`
+}
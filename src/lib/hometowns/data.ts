@@ -0,0 +1,76 @@
+import type { FacetKey, FacetSelection } from '../../types/filters'
+import type { HometownBucket, HometownSummary } from '../../types/hometowns'
+import type { Player } from '../../types/roster'
+import { foldText } from '../search/fuzzy'
+import { INTERNATIONAL_REGION, STATE_TILES, US_COUNTRY_VALUES } from './constants'
+
+const STATE_CODES_BY_NAME = new Map(
+  STATE_TILES.flatMap((tile) => [
+    [foldText(tile.code), tile.code],
+    [foldText(tile.name), tile.code],
+  ]),
+)
+
+/** Maps a `birthState` such as `IN` or `Indiana` to its postal code, or `null` when it isn't a state. */
+export const resolveStateCode = (birthState: string | null) =>
+  birthState ? (STATE_CODES_BY_NAME.get(foldText(birthState.trim())) ?? null) : null
+
+const isUnitedStates = (player: Player) =>
+  [player.birthCountryAbbreviation, player.birthCountry].some(
+    (value) => value !== null && US_COUNTRY_VALUES.has(foldText(value.trim())),
+  )
+
+/** Born outside the US: a named country that isn't the United States. */
+export const isInternationalPlayer = (player: Player): player is Player & { birthCountry: string } =>
+  player.birthCountry !== null && !isUnitedStates(player)
+
+/** Where the map places `player`: a state code, `International`, or `null` when the birthplace is unknown. */
+export const getHomeRegion = (player: Player) =>
+  isInternationalPlayer(player) ? INTERNATIONAL_REGION : resolveStateCode(player.birthState)
+
+const addToBucket = (bucket: HometownBucket, value: string) => {
+  bucket.count += 1
+
+  if (!bucket.values.includes(value)) {
+    bucket.values.push(value)
+  }
+}
+
+export const summarizeHometowns = (players: Player[]): HometownSummary => {
+  const states: Record<string, HometownBucket> = {}
+  const international: HometownBucket = { count: 0, values: [] }
+  let unknownCount = 0
+
+  for (const player of players) {
+    if (isInternationalPlayer(player)) {
+      addToBucket(international, player.birthCountry)
+      continue
+    }
+
+    const code = resolveStateCode(player.birthState)
+
+    if (!code || !player.birthState) {
+      unknownCount += 1
+      continue
+    }
+
+    states[code] ??= { count: 0, values: [] }
+    addToBucket(states[code], player.birthState)
+  }
+
+  const maxCount = Math.max(0, ...Object.values(states).map((bucket) => bucket.count))
+
+  return { states, international, unknownCount, maxCount }
+}
+
+/**
+ * The facet a map click sets. It holds both state codes and International, so picking several regions shows
+ * everyone from any of them; counts on the map ignore it so every state stays visible.
+ */
+export const HOMETOWN_FACET_KEYS: FacetKey[] = ['homeRegion']
+
+export const getSelectedStateCodes = (selection: FacetSelection) =>
+  (selection.homeRegion ?? []).filter((region) => region !== INTERNATIONAL_REGION)
+
+export const isInternationalSelected = (selection: FacetSelection) =>
+  selection.homeRegion?.includes(INTERNATIONAL_REGION) ?? false
@@ -0,0 +1,11 @@
+import type { Locale } from '../../types/i18n'
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+/** Each language named in itself, for the language picker. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+}
+
+export const LOCALES = Object.keys(LOCALE_NAMES) as Locale[]
@@ -0,0 +1,27 @@
+import type { Locale, MessageKey, MessageParams, Translate } from '../../types/i18n'
+import { DEFAULT_LOCALE, LOCALES } from './constants'
+import { MESSAGES } from './messages'
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale)
+
+/** The first supported language in the browser's preference list, e.g. `es` for `es-MX`. */
+export const detectLocale = (languages: readonly string[] = []): Locale =>
+  languages.map((language) => language.split('-')[0].toLowerCase()).find(isLocale) ?? DEFAULT_LOCALE
+
+/** Looks `key` up for `locale` and fills its `{name}` placeholders; unknown placeholders are left as written. */
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams) => {
+  const message = MESSAGES[locale][key]
+
+  if (!params) {
+    return message
+  }
+
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder,
+  )
+}
+
+export const createTranslator =
+  (locale: Locale): Translate =>
+  (key, params) =>
+    translate(locale, key, params)
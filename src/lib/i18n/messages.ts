@@ -0,0 +1,305 @@
+import type { Locale, MessageKey } from '../../types/i18n'
+
+/**
+ * English is the source language: its keys define `MessageKey`, and every other locale has to
+ * translate all of them. `{name}` placeholders are filled from the params passed to `t`.
+ */
+export const EN_MESSAGES = {
+  'app.teamFallback': 'Team',
+  'app.kicker': '{nickname} Football',
+  'app.kickerFallback': 'College Football',
+  'app.title': '{team} Football Roster',
+  'app.intro':
+    'Search the full {team} roster, powered by live data from ESPN. Find players by name, number, position, class, or hometown in seconds.',
+  'app.flipCardLink': 'Printable flip card →',
+  'app.currentRecord': 'Current Record',
+  'app.teamStatus': 'Team Status',
+  'app.unranked': 'Unranked',
+  'app.nextGame': 'Next Game',
+  'app.broadcast': 'Broadcast: {networks}',
+  'app.ticketsFrom': 'From {price}',
+  'app.exportFileName': '{team} roster',
+  'app.opponentFallback': 'Opponent',
+  'app.scouting': 'Scouting',
+  'app.snapshotNotice': 'Viewing the roster as saved on {date}.',
+  'app.backToLive': 'Back to live',
+  'app.loadingRoster': 'Loading roster…',
+  'app.loadingOpponentRoster': 'Loading opponent roster…',
+  'app.noMatchingFavorites': 'None of your favorites match that search.',
+  'app.noFavorites': 'No favorites yet. Star players to add them to your watchlist.',
+  'app.resultCount.one': '1 player matches',
+  'app.resultCount.other': '{count} players match',
+
+  'record.pointsFor': 'Points For',
+  'record.pointsAgainst': 'Points Against',
+  'record.pointsPerGame': 'PPG',
+  'record.opponentPointsPerGame': 'Opp PPG',
+  'record.pointDifferential': 'Point Diff',
+
+  'tabs.roster': 'Roster',
+  'tabs.opponent': 'Opponent',
+  'tabs.opponentUnknown': 'TBD',
+  'tabs.schedule': 'Schedule',
+  'tabs.injuries': 'Injuries',
+  'tabs.dashboard': 'Stats',
+
+  'preferences.language': 'Language',
+  'preferences.units': 'Units',
+  'preferences.imperial': 'ft / lb',
+  'preferences.metric': 'cm / kg',
+  'preferences.imperialDescription': 'Feet, inches and pounds',
+  'preferences.metricDescription': 'Centimetres and kilograms',
+  'preferences.theme': 'Colour theme',
+  'preferences.themeLight': 'Light',
+  'preferences.themeDark': 'Dark',
+  'preferences.themeSystem': 'Auto',
+  'preferences.themeSystemDescription': 'Match your device setting',
+
+  'search.label': 'Search players',
+  'search.placeholder': "Name, number, or pos:WR class:SR height>6'2…",
+  'search.clear': 'Clear search',
+  'search.suggestions': 'Search suggestions',
+
+  'columns.jersey': 'Jersey',
+  'columns.jersey.short': '#',
+  'columns.displayName': 'Name',
+  'columns.displayName.short': 'Name',
+  'columns.position': 'Position',
+  'columns.position.short': 'Pos',
+  'columns.positionName': 'Position name',
+  'columns.positionName.short': 'Position',
+  'columns.experience': 'Class',
+  'columns.experience.short': 'Class',
+  'columns.experienceYears': 'Years in program',
+  'columns.experienceYears.short': 'Yrs',
+  'columns.height': 'Height',
+  'columns.height.short': 'Height',
+  'columns.weight': 'Weight',
+  'columns.weight.short': 'Weight',
+  'columns.hometown': 'Hometown',
+  'columns.hometown.short': 'Hometown',
+  'columns.birthplace': 'Birthplace',
+  'columns.birthplace.short': 'Birthplace',
+  'columns.status': 'Roster status',
+  'columns.status.short': 'Status',
+  'columns.injuries': 'Injuries',
+  'columns.injuries.short': 'Inj',
+
+  'table.label': 'Players',
+  'table.favorite': 'Favorite',
+  'table.compare': 'Compare',
+  'table.hasNote': 'Has a note',
+  'table.addFavorite': 'Add {name} to favorites',
+  'table.removeFavorite': 'Remove {name} from favorites',
+  'table.addFavoriteHint': 'Add to favorites',
+  'table.removeFavoriteHint': 'Remove from favorites',
+  'table.comparePlayer': 'Compare {name}',
+  'table.addToComparison': 'Add to comparison',
+  'table.removeFromComparison': 'Remove from comparison',
+  'table.sortBy': 'Sort by {column}',
+  'table.sortedBy': 'Sort by {column}, {direction}',
+  'table.sortedByPriority': 'Sort by {column}, {direction}, sort priority {priority} of {count}',
+  'table.sortHint': 'Shift-click to add as a tie-breaker',
+  'table.ascending': 'ascending',
+  'table.descending': 'descending',
+
+  'sort.sortBy': 'Sort by',
+  'sort.thenBy': 'Then by',
+  'sort.switchDirection': '{column} {direction}; switch direction',
+  'sort.stopSorting': 'Stop sorting by {column}',
+  'sort.addTieBreaker': 'Add a tie-breaker sort',
+  'sort.add': 'Add…',
+
+  'cards.noMatches': 'No players match that search.',
+
+  'player.heading': 'Player',
+  'player.close': 'Close player details',
+  'player.vitals': 'Vitals',
+  'player.identifiers': 'Identifiers',
+  'player.recentInjuries': 'Recent Injuries',
+  'player.injuryFallback': 'Injury',
+  'player.injuryStatus': 'Status: {status}',
+  'player.injuryBadge': 'Injury status: {status}',
+  'player.injuryUpdated': 'Updated: {date}',
+  'player.notes': 'Notes',
+  'player.notesPlaceholder': "Only saved in this browser; move them with the Favorites menu's download and import.",
+  'player.yes': 'Yes',
+  'player.no': 'No',
+  'player.fullName': 'Full Name',
+  'player.preferredName': 'Preferred Name',
+  'player.shortName': 'Short Name',
+  'player.firstName': 'First Name',
+  'player.lastName': 'Last Name',
+  'player.uid': 'UID',
+  'player.guid': 'GUID',
+  'player.slug': 'Slug',
+  'player.type': 'Type',
+  'player.jersey': 'Jersey',
+  'player.position': 'Position',
+  'player.positionAbbreviation': 'Position Abbr.',
+  'player.class': 'Class',
+  'player.classAbbreviation': 'Class Abbr.',
+  'player.experienceYears': 'Experience (Years)',
+  'player.status': 'Status',
+  'player.statusType': 'Status Type',
+  'player.statusAbbreviation': 'Status Abbr.',
+  'player.active': 'Active',
+  'player.height': 'Height',
+  'player.weight': 'Weight',
+  'player.hometown': 'Hometown',
+  'player.birthplace': 'Birthplace',
+  'player.birthCountryAbbreviation': 'Birth Country Abbr.',
+}
+
+const ES_MESSAGES: Record<MessageKey, string> = {
+  'app.teamFallback': 'Equipo',
+  'app.kicker': 'Fútbol americano · {nickname}',
+  'app.kickerFallback': 'Fútbol americano universitario',
+  'app.title': 'Plantilla de fútbol americano de {team}',
+  'app.intro':
+    'Busca en la plantilla completa de {team}, con datos en vivo de ESPN. Encuentra jugadores por nombre, número, posición, año o ciudad natal en segundos.',
+  'app.flipCardLink': 'Ficha imprimible →',
+  'app.currentRecord': 'Récord actual',
+  'app.teamStatus': 'Situación del equipo',
+  'app.unranked': 'Sin clasificar',
+  'app.nextGame': 'Próximo partido',
+  'app.broadcast': 'Transmisión: {networks}',
+  'app.ticketsFrom': 'Desde {price}',
+  'app.exportFileName': 'Plantilla de {team}',
+  'app.opponentFallback': 'Rival',
+  'app.scouting': 'Analizando a',
+  'app.snapshotNotice': 'Viendo la plantilla guardada el {date}.',
+  'app.backToLive': 'Volver a en vivo',
+  'app.loadingRoster': 'Cargando plantilla…',
+  'app.loadingOpponentRoster': 'Cargando plantilla del rival…',
+  'app.noMatchingFavorites': 'Ninguno de tus favoritos coincide con esa búsqueda.',
+  'app.noFavorites': 'Aún no tienes favoritos. Marca jugadores con la estrella para añadirlos a tu lista.',
+  'app.resultCount.one': '1 jugador coincide',
+  'app.resultCount.other': '{count} jugadores coinciden',
+
+  'record.pointsFor': 'Puntos a favor',
+  'record.pointsAgainst': 'Puntos en contra',
+  'record.pointsPerGame': 'PPP',
+  'record.opponentPointsPerGame': 'PPP rival',
+  'record.pointDifferential': 'Diferencia',
+
+  'tabs.roster': 'Plantilla',
+  'tabs.opponent': 'Rival',
+  'tabs.opponentUnknown': 'Por definir',
+  'tabs.schedule': 'Calendario',
+  'tabs.injuries': 'Lesiones',
+  'tabs.dashboard': 'Estadísticas',
+
+  'preferences.language': 'Idioma',
+  'preferences.units': 'Unidades',
+  'preferences.imperial': 'ft / lb',
+  'preferences.metric': 'cm / kg',
+  'preferences.imperialDescription': 'Pies, pulgadas y libras',
+  'preferences.metricDescription': 'Centímetros y kilogramos',
+  'preferences.theme': 'Tema de color',
+  'preferences.themeLight': 'Claro',
+  'preferences.themeDark': 'Oscuro',
+  'preferences.themeSystem': 'Auto',
+  'preferences.themeSystemDescription': 'Igual que tu dispositivo',
+
+  'search.label': 'Buscar jugadores',
+  'search.placeholder': "Nombre, número o pos:WR class:SR height>6'2…",
+  'search.clear': 'Borrar búsqueda',
+  'search.suggestions': 'Sugerencias de búsqueda',
+
+  'columns.jersey': 'Número',
+  'columns.jersey.short': '#',
+  'columns.displayName': 'Nombre',
+  'columns.displayName.short': 'Nombre',
+  'columns.position': 'Posición',
+  'columns.position.short': 'Pos',
+  'columns.positionName': 'Nombre de la posición',
+  'columns.positionName.short': 'Posición',
+  'columns.experience': 'Año',
+  'columns.experience.short': 'Año',
+  'columns.experienceYears': 'Años en el programa',
+  'columns.experienceYears.short': 'Años',
+  'columns.height': 'Estatura',
+  'columns.height.short': 'Estatura',
+  'columns.weight': 'Peso',
+  'columns.weight.short': 'Peso',
+  'columns.hometown': 'Ciudad natal',
+  'columns.hometown.short': 'Ciudad natal',
+  'columns.birthplace': 'Lugar de nacimiento',
+  'columns.birthplace.short': 'Nacimiento',
+  'columns.status': 'Estado en la plantilla',
+  'columns.status.short': 'Estado',
+  'columns.injuries': 'Lesiones',
+  'columns.injuries.short': 'Les',
+
+  'table.label': 'Jugadores',
+  'table.favorite': 'Favorito',
+  'table.compare': 'Comparar',
+  'table.hasNote': 'Tiene una nota',
+  'table.addFavorite': 'Añadir a {name} a favoritos',
+  'table.removeFavorite': 'Quitar a {name} de favoritos',
+  'table.addFavoriteHint': 'Añadir a favoritos',
+  'table.removeFavoriteHint': 'Quitar de favoritos',
+  'table.comparePlayer': 'Comparar a {name}',
+  'table.addToComparison': 'Añadir a la comparación',
+  'table.removeFromComparison': 'Quitar de la comparación',
+  'table.sortBy': 'Ordenar por {column}',
+  'table.sortedBy': 'Ordenar por {column}, {direction}',
+  'table.sortedByPriority': 'Ordenar por {column}, {direction}, prioridad {priority} de {count}',
+  'table.sortHint': 'Mayús + clic para añadirla como desempate',
+  'table.ascending': 'ascendente',
+  'table.descending': 'descendente',
+
+  'sort.sortBy': 'Ordenar por',
+  'sort.thenBy': 'Luego por',
+  'sort.switchDirection': '{column} {direction}; cambiar el sentido',
+  'sort.stopSorting': 'Dejar de ordenar por {column}',
+  'sort.addTieBreaker': 'Añadir un criterio de desempate',
+  'sort.add': 'Añadir…',
+
+  'cards.noMatches': 'Ningún jugador coincide con esa búsqueda.',
+
+  'player.heading': 'Jugador',
+  'player.close': 'Cerrar detalles del jugador',
+  'player.vitals': 'Datos',
+  'player.identifiers': 'Identificadores',
+  'player.recentInjuries': 'Lesiones recientes',
+  'player.injuryFallback': 'Lesión',
+  'player.injuryStatus': 'Estado: {status}',
+  'player.injuryBadge': 'Estado de la lesión: {status}',
+  'player.injuryUpdated': 'Actualizado: {date}',
+  'player.notes': 'Notas',
+  'player.notesPlaceholder':
+    'Solo se guardan en este navegador; pásalas a otro con la descarga e importación del menú Favoritos.',
+  'player.yes': 'Sí',
+  'player.no': 'No',
+  'player.fullName': 'Nombre completo',
+  'player.preferredName': 'Nombre preferido',
+  'player.shortName': 'Nombre corto',
+  'player.firstName': 'Nombre',
+  'player.lastName': 'Apellido',
+  'player.uid': 'UID',
+  'player.guid': 'GUID',
+  'player.slug': 'Slug',
+  'player.type': 'Tipo',
+  'player.jersey': 'Número',
+  'player.position': 'Posición',
+  'player.positionAbbreviation': 'Abrev. de posición',
+  'player.class': 'Año',
+  'player.classAbbreviation': 'Abrev. de año',
+  'player.experienceYears': 'Experiencia (años)',
+  'player.status': 'Estado',
+  'player.statusType': 'Tipo de estado',
+  'player.statusAbbreviation': 'Abrev. de estado',
+  'player.active': 'Activo',
+  'player.height': 'Estatura',
+  'player.weight': 'Peso',
+  'player.hometown': 'Ciudad natal',
+  'player.birthplace': 'Lugar de nacimiento',
+  'player.birthCountryAbbreviation': 'Abrev. país de nacimiento',
+}
+
+export const MESSAGES: Record<Locale, Record<MessageKey, string>> = {
+  en: EN_MESSAGES,
+  es: ES_MESSAGES,
+}
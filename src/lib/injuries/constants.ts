@@ -0,0 +1,21 @@
+export const INJURY_LOG_STORAGE_KEY = 'iu-football-injury-log'
+
+export const buildInjuryLogStorageKey = (teamId: string) => `${INJURY_LOG_STORAGE_KEY}:${teamId}`
+
+/** Status movements kept per team; older ones drop off the end of the log. */
+export const MAX_INJURY_LOG_ENTRIES = 100
+
+/** Report order, most serious first. Statuses ESPN adds later are listed after these, alphabetically. */
+export const INJURY_STATUS_ORDER = ['Out', 'Doubtful', 'Questionable', 'Probable', 'Day-To-Day']
+
+export const UNKNOWN_INJURY_STATUS = 'Unspecified'
+
+export const INJURY_STATUS_CLASSES: Record<string, string> = {
+  out: 'bg-team/10 text-team',
+  doubtful: 'bg-orange-100 text-orange-900 dark:bg-orange-400/15 dark:text-orange-200',
+  questionable: 'bg-amber-100 text-amber-900 dark:bg-amber-400/15 dark:text-amber-200',
+  probable: 'bg-sky-100 text-sky-800 dark:bg-sky-400/15 dark:text-sky-200',
+  'day-to-day': 'bg-violet-100 text-violet-800 dark:bg-violet-400/15 dark:text-violet-200',
+}
+
+export const DEFAULT_INJURY_STATUS_CLASS = 'bg-slate-100 text-slate-600'
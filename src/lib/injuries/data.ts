@@ -0,0 +1,147 @@
+import type { InjuryLog, InjuryLogEntry, InjuryReportEntry, InjuryReportGroup } from '../../types/injuries'
+import type { Player, PlayerInjury, SortDirection } from '../../types/roster'
+import {
+  DEFAULT_INJURY_STATUS_CLASS,
+  INJURY_STATUS_CLASSES,
+  INJURY_STATUS_ORDER,
+  MAX_INJURY_LOG_ENTRIES,
+  UNKNOWN_INJURY_STATUS,
+} from './constants'
+
+const parseInjuryDate = (injury: PlayerInjury) => {
+  const time = injury.date ? Date.parse(injury.date) : Number.NaN
+  return Number.isNaN(time) ? null : time
+}
+
+/** Newest first; undated injuries go last. */
+const compareInjuriesByDate = (a: PlayerInjury, b: PlayerInjury) =>
+  (parseInjuryDate(b) ?? Number.NEGATIVE_INFINITY) - (parseInjuryDate(a) ?? Number.NEGATIVE_INFINITY)
+
+/** Snapshots cached before injuries were tracked may not carry the array at all. */
+const listInjuries = (player: Player) => (Array.isArray(player.injuries) ? player.injuries : [])
+
+/** `Out`, `questionable` and `OUT` all read as the same status, spelled the way the report lists it. */
+const canonicalStatus = (status: string | null) => {
+  if (!status) {
+    return UNKNOWN_INJURY_STATUS
+  }
+
+  return INJURY_STATUS_ORDER.find((known) => known.toLowerCase() === status.toLowerCase()) ?? status
+}
+
+/** The status of the player's latest injury, or `null` when none is listed. */
+export const getInjuryStatus = (player: Player): string | null => {
+  const [latest] = [...listInjuries(player)].sort(compareInjuriesByDate)
+  return latest ? canonicalStatus(latest.status) : null
+}
+
+export const getInjuryStatusClass = (status: string) =>
+  INJURY_STATUS_CLASSES[status.toLowerCase()] ?? DEFAULT_INJURY_STATUS_CLASS
+
+const statusRank = (status: string) => {
+  const index = INJURY_STATUS_ORDER.indexOf(status)
+  return index === -1 ? INJURY_STATUS_ORDER.length : index
+}
+
+/** Formats an injury's date as e.g. "Oct 14", or `null` when it has none. */
+export const formatInjuryDate = (injury: PlayerInjury) => {
+  const time = parseInjuryDate(injury)
+  // ESPN dates are midnight UTC; formatting them in local time would show the day before in the Americas.
+  return time === null
+    ? null
+    : new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
+/**
+ * Every injured player, grouped by the status of their latest injury (most serious group first) and
+ * ordered within each group by that injury's date.
+ */
+export const buildInjuryReport = (players: Player[], dateDirection: SortDirection = 'desc'): InjuryReportGroup[] => {
+  const groups = new Map<string, InjuryReportEntry[]>()
+
+  for (const player of players) {
+    const injuries = [...listInjuries(player)].sort(compareInjuriesByDate)
+    const [injury] = injuries
+
+    if (!injury) {
+      continue
+    }
+
+    const status = canonicalStatus(injury.status)
+    groups.set(status, [...(groups.get(status) ?? []), { player, injury, injuries }])
+  }
+
+  const byDate = (a: InjuryReportEntry, b: InjuryReportEntry) => {
+    const order = compareInjuriesByDate(a.injury, b.injury)
+    return (dateDirection === 'desc' ? order : -order) || a.player.displayName.localeCompare(b.player.displayName)
+  }
+
+  return [...groups.entries()]
+    .sort(([statusA], [statusB]) => statusRank(statusA) - statusRank(statusB) || statusA.localeCompare(statusB))
+    .map(([status, entries]) => ({ status, entries: entries.sort(byDate) }))
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isInjuryLogEntry = (value: unknown): value is InjuryLogEntry =>
+  isRecord(value) &&
+  typeof value.playerId === 'string' &&
+  typeof value.playerName === 'string' &&
+  (value.previous === null || typeof value.previous === 'string') &&
+  (value.current === null || typeof value.current === 'string') &&
+  typeof value.detectedAt === 'number'
+
+export const isInjuryLog = (value: unknown): value is InjuryLog =>
+  isRecord(value) &&
+  typeof value.checkedAt === 'number' &&
+  isRecord(value.statuses) &&
+  Object.values(value.statuses).every((status) => typeof status === 'string') &&
+  Array.isArray(value.entries) &&
+  value.entries.every(isInjuryLogEntry)
+
+const collectStatuses = (players: Player[]) => {
+  const statuses: Record<string, string> = {}
+
+  for (const player of players) {
+    const status = getInjuryStatus(player)
+
+    if (status) {
+      statuses[player.id] = status
+    }
+  }
+
+  return statuses
+}
+
+/**
+ * Compares the roster loaded at `updatedAt` with the statuses seen at the previous check and logs each
+ * player whose injury status moved. The first check for a team only records where everyone stands.
+ * Returns `log` itself when the roster was already checked.
+ */
+export const updateInjuryLog = (log: InjuryLog | null, players: Player[], updatedAt: number): InjuryLog => {
+  const statuses = collectStatuses(players)
+
+  if (!log) {
+    return { checkedAt: updatedAt, statuses, entries: [] }
+  }
+
+  if (updatedAt <= log.checkedAt) {
+    return log
+  }
+
+  const movements: InjuryLogEntry[] = players.flatMap((player) => {
+    const previous = log.statuses[player.id] ?? null
+    const current = statuses[player.id] ?? null
+
+    return previous === current
+      ? []
+      : [{ playerId: player.id, playerName: player.displayName, previous, current, detectedAt: updatedAt }]
+  })
+
+  return {
+    checkedAt: updatedAt,
+    statuses,
+    entries: [...movements, ...log.entries].slice(0, MAX_INJURY_LOG_ENTRIES),
+  }
+}
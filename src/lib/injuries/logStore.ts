@@ -0,0 +1,66 @@
+import type { InjuryLog, InjuryLogEntry } from '../../types/injuries'
+import type { Player } from '../../types/roster'
+import type { RosterSource } from '../../types/sources'
+import { activeRosterSource, scopeStorageKey } from '../sources/activeSource'
+import { buildInjuryLogStorageKey } from './constants'
+import { isInjuryLog, updateInjuryLog } from './data'
+
+const injuryLogListeners = new Set<(teamId: string) => void>()
+
+export const subscribeToInjuryLog = (listener: (teamId: string) => void) => {
+  injuryLogListeners.add(listener)
+
+  return () => {
+    injuryLogListeners.delete(listener)
+  }
+}
+
+const readInjuryLog = (teamId: string, source: RosterSource): InjuryLog | null => {
+  if (typeof window === 'undefined') {
+    return null
+  }
+
+  try {
+    const raw = window.localStorage.getItem(scopeStorageKey(buildInjuryLogStorageKey(teamId), source))
+    const parsed: unknown = raw === null ? null : JSON.parse(raw)
+    return isInjuryLog(parsed) ? parsed : null
+  } catch (storageError) {
+    console.error('Unable to read injury log', storageError)
+    return null
+  }
+}
+
+/** Status movements for `teamId`, newest first. */
+export const loadInjuryLogEntries = (teamId: string, source = activeRosterSource): InjuryLogEntry[] =>
+  readInjuryLog(teamId, source)?.entries ?? []
+
+/** Logs injury status movements in a freshly loaded roster; a roster already checked is ignored. */
+export const recordInjuryStatuses = (
+  teamId: string,
+  players: Player[],
+  updatedAt: number,
+  source = activeRosterSource,
+) => {
+  // An empty payload says nothing about injuries; it must not read as everyone getting healthy.
+  if (typeof window === 'undefined' || !players.length) {
+    return
+  }
+
+  const log = readInjuryLog(teamId, source)
+  const nextLog = updateInjuryLog(log, players, updatedAt)
+
+  if (nextLog === log) {
+    return
+  }
+
+  try {
+    window.localStorage.setItem(scopeStorageKey(buildInjuryLogStorageKey(teamId), source), JSON.stringify(nextLog))
+  } catch (storageError) {
+    console.error('Unable to store injury log', storageError)
+    return
+  }
+
+  for (const listener of injuryLogListeners) {
+    listener(teamId)
+  }
+}
@@ -0,0 +1,14 @@
+export const URL_PARAMS = {
+  team: 'team',
+  view: 'view',
+  search: 'q',
+  sort: 'sort',
+  player: 'player',
+  compare: 'compare',
+} as const
+
+/**
+ * Marks history entries pushed when a player's details or a comparison opened, so closing them can go
+ * back instead.
+ */
+export const OVERLAY_HISTORY_STATE_KEY = 'overlay'
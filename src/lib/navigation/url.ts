@@ -0,0 +1,139 @@
+import type { FacetSelection } from '../../types/filters'
+import type { UrlState } from '../../types/navigation'
+import type { Player, SortConfig, SortKey } from '../../types/roster'
+import type { AppView } from '../../types/views'
+import { MAX_COMPARED_PLAYERS } from '../compare/constants'
+import { FACET_DEFINITIONS } from '../filters/facets'
+import { FLIP_CARD_OPPONENT_PARAM, FLIP_CARD_PAGE } from '../flipCard/constants'
+import { DEFAULT_SORT, DEFAULT_TEAM_ID } from '../roster/constants'
+import { MAX_SORT_KEYS, SORT_KEYS } from '../roster/sorting'
+import { isTeamId } from '../teams/data'
+import { URL_PARAMS } from './constants'
+
+const APP_VIEWS: AppView[] = ['roster', 'opponent', 'schedule', 'injuries', 'dashboard']
+
+const isAppView = (value: string | null): value is AppView => APP_VIEWS.includes(value as AppView)
+
+const isSortKey = (value: string): value is SortKey => SORT_KEYS.includes(value as SortKey)
+
+/** Sort criteria as `position,-weight`: keys in priority order, `-` for descending. */
+export const serializeSort = (config: SortConfig) =>
+  config.map(({ key, direction }) => `${direction === 'desc' ? '-' : ''}${key}`).join(',')
+
+export const parseSortParam = (value: string | null): SortConfig => {
+  const config: SortConfig = []
+
+  for (const entry of value?.split(',') ?? []) {
+    const key = entry.replace(/^-/, '')
+
+    if (isSortKey(key) && !config.some((criterion) => criterion.key === key) && config.length < MAX_SORT_KEYS) {
+      config.push({ key, direction: entry.startsWith('-') ? 'desc' : 'asc' })
+    }
+  }
+
+  return config.length ? config : DEFAULT_SORT
+}
+
+/** The value used to link to `player`: their slug when ESPN provides one, otherwise their id. */
+export const getPlayerReference = (player: Player) => player.slug ?? player.id
+
+export const matchesPlayerReference = (player: Player, reference: string) =>
+  player.id === reference || player.slug === reference
+
+/** Player references as `marcus-hale,4432178`, without duplicates and capped at the comparison limit. */
+export const parseCompareParam = (value: string | null) =>
+  [...new Set(value?.split(',').map((reference) => reference.trim()) ?? [])]
+    .filter(Boolean)
+    .slice(0, MAX_COMPARED_PLAYERS)
+
+/** Reads the shareable state from a query string; anything missing or invalid falls back to the default. */
+export const readUrlState = (search = typeof window === 'undefined' ? '' : window.location.search): UrlState => {
+  const params = new URLSearchParams(search)
+  const teamId = params.get(URL_PARAMS.team)
+  const view = params.get(URL_PARAMS.view)
+  const facets: FacetSelection = {}
+
+  for (const { key } of FACET_DEFINITIONS) {
+    const values = params.getAll(key).filter(Boolean)
+
+    if (values.length) {
+      facets[key] = [...new Set(values)]
+    }
+  }
+
+  return {
+    teamId: isTeamId(teamId) ? teamId : null,
+    view: isAppView(view) ? view : 'roster',
+    search: params.get(URL_PARAMS.search) ?? '',
+    sort: parseSortParam(params.get(URL_PARAMS.sort)),
+    facets,
+    player: params.get(URL_PARAMS.player) || null,
+    compare: parseCompareParam(params.get(URL_PARAMS.compare)),
+  }
+}
+
+const OWNED_PARAMS = new Set<string>([...Object.values(URL_PARAMS), ...FACET_DEFINITIONS.map(({ key }) => key)])
+
+/**
+ * Builds the query string for `state`, leaving out defaults so plain links stay short. Parameters the
+ * app doesn't own (such as `?diagnostics`) are carried over from `currentSearch`.
+ */
+export const buildUrlSearch = (state: UrlState, currentSearch = ''): string => {
+  const params = new URLSearchParams()
+
+  if (state.teamId && state.teamId !== DEFAULT_TEAM_ID) {
+    params.set(URL_PARAMS.team, state.teamId)
+  }
+
+  if (state.view !== 'roster') {
+    params.set(URL_PARAMS.view, state.view)
+  }
+
+  if (state.search.trim()) {
+    params.set(URL_PARAMS.search, state.search)
+  }
+
+  const sort = serializeSort(state.sort)
+
+  if (sort !== serializeSort(DEFAULT_SORT)) {
+    params.set(URL_PARAMS.sort, sort)
+  }
+
+  for (const { key } of FACET_DEFINITIONS) {
+    for (const value of state.facets[key] ?? []) {
+      params.append(key, value)
+    }
+  }
+
+  if (state.player) {
+    params.set(URL_PARAMS.player, state.player)
+  }
+
+  if (state.compare.length) {
+    params.set(URL_PARAMS.compare, state.compare.join(','))
+  }
+
+  for (const [key, value] of new URLSearchParams(currentSearch)) {
+    if (!OWNED_PARAMS.has(key)) {
+      params.append(key, value)
+    }
+  }
+
+  // Commas and colons are safe in a query string, and leaving them readable keeps shared links legible.
+  const query = params.toString().replace(/%2C/gi, ',').replace(/%3A/gi, ':')
+  return query ? `?${query}` : ''
+}
+
+/** An app URL under Vite's `base` (`/iu-football-gameday/` on GitHub Pages), keeping any hash. */
+export const buildAppUrl = (search: string, hash = '') => `${import.meta.env.BASE_URL}${search}${hash}`
+
+/** The printable flip card for `teamId`, optionally with the next opponent alongside. */
+export const buildFlipCardUrl = (teamId: string, includeOpponent: boolean) => {
+  const params = new URLSearchParams({ [URL_PARAMS.team]: teamId })
+
+  if (includeOpponent) {
+    params.set(FLIP_CARD_OPPONENT_PARAM, '1')
+  }
+
+  return `${import.meta.env.BASE_URL}${FLIP_CARD_PAGE}?${params}`
+}
@@ -0,0 +1,63 @@
+import type { DataErrorKind, DataErrorSummary } from '../../types/diagnostics'
+
+type DataSourceErrorOptions = {
+  status?: number | null
+  url?: string | null
+  cause?: unknown
+}
+
+/**
+ * A failure while fetching or reading a data payload, tagged with where in the pipeline it happened:
+ * `network` (no response), `http` (non-2xx status), `parse` (body was not JSON) or `schema` (JSON we
+ * no longer recognise).
+ */
+export class DataSourceError extends Error {
+  readonly kind: DataErrorKind
+  readonly status: number | null
+  readonly url: string | null
+
+  constructor(kind: DataErrorKind, message: string, { status = null, url = null, cause }: DataSourceErrorOptions = {}) {
+    super(message, { cause })
+    this.name = 'DataSourceError'
+    this.kind = kind
+    this.status = status
+    this.url = url
+  }
+}
+
+export const toDataSourceError = (error: unknown): DataSourceError => {
+  if (error instanceof DataSourceError) {
+    return error
+  }
+
+  if (error instanceof SyntaxError) {
+    return new DataSourceError('parse', error.message, { cause: error })
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+  return new DataSourceError('network', message, { cause: error })
+}
+
+export const summarizeDataError = (error: DataSourceError): DataErrorSummary => ({
+  kind: error.kind,
+  message: error.message,
+  status: error.status,
+})
+
+/**
+ * User-facing copy for a failed load, e.g. `describeDataError(error, 'roster')`.
+ */
+export const describeDataError = (error: DataSourceError, subject: string) => {
+  switch (error.kind) {
+    case 'http':
+      return `The ${subject} service responded with an error${
+        error.status !== null ? ` (HTTP ${error.status})` : ''
+      }. Please try again later.`
+    case 'parse':
+      return `The ${subject} response could not be read. Please try again later.`
+    case 'schema':
+      return `The ${subject} data arrived in an unexpected format and could not be displayed.`
+    default:
+      return `Unable to reach the ${subject} service right now. Check your connection and try again.`
+  }
+}
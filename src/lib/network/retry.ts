@@ -0,0 +1,66 @@
+export type RetryOptions = {
+  signal?: AbortSignal
+  retries?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+}
+
+const TRANSIENT_STATUS_CODES = new Set([408, 425, 429, 500, 502, 503, 504])
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError'
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'))
+      return
+    }
+
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort)
+      resolve()
+    }, ms)
+
+    const handleAbort = () => {
+      window.clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }
+
+    signal?.addEventListener('abort', handleAbort, { once: true })
+  })
+
+/**
+ * Exponential backoff with jitter: attempt n waits between half and all of `base * 2^n`, capped at `maxDelayMs`.
+ */
+export const getBackoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number) => {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt)
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2))
+}
+
+/**
+ * `fetch` that retries network failures and transient HTTP statuses (timeouts, rate limits, 5xx).
+ * Other responses, including non-transient errors, are returned to the caller untouched.
+ */
+export const fetchWithRetry = async (
+  input: RequestInfo | URL,
+  { signal, retries = 3, baseDelayMs = 1000, maxDelayMs = 15000 }: RetryOptions = {},
+): Promise<Response> => {
+  let attempt = 0
+
+  for (;;) {
+    try {
+      const response = await fetch(input, { signal })
+
+      if (!TRANSIENT_STATUS_CODES.has(response.status) || attempt >= retries) {
+        return response
+      }
+    } catch (error) {
+      if (isAbortError(error) || attempt >= retries) {
+        throw error
+      }
+    }
+
+    await wait(getBackoffDelay(attempt, baseDelayMs, maxDelayMs), signal)
+    attempt += 1
+  }
+}
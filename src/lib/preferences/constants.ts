@@ -0,0 +1 @@
+export const DISPLAY_PREFERENCES_STORAGE_KEY = 'iu-football-display-preferences'
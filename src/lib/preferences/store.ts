@@ -0,0 +1,66 @@
+import type { DisplayPreferences } from '../../types/preferences'
+import { detectLocale, isLocale } from '../i18n/data'
+import { DEFAULT_UNIT_SYSTEM } from '../units/constants'
+import { isUnitSystem } from '../units/data'
+import { DISPLAY_PREFERENCES_STORAGE_KEY } from './constants'
+
+const readDefaults = (): DisplayPreferences => ({
+  locale: detectLocale(typeof navigator === 'undefined' ? [] : navigator.languages),
+  units: DEFAULT_UNIT_SYSTEM,
+})
+
+/** Saved preferences, with anything missing or no longer valid taken from the browser defaults. */
+const loadDisplayPreferences = (): DisplayPreferences => {
+  const defaults = readDefaults()
+
+  if (typeof window === 'undefined') {
+    return defaults
+  }
+
+  try {
+    const raw = window.localStorage.getItem(DISPLAY_PREFERENCES_STORAGE_KEY)
+    const stored: unknown = raw ? JSON.parse(raw) : null
+
+    if (!stored || typeof stored !== 'object') {
+      return defaults
+    }
+
+    const { locale, units } = stored as Record<string, unknown>
+
+    return {
+      locale: isLocale(locale) ? locale : defaults.locale,
+      units: isUnitSystem(units) ? units : defaults.units,
+    }
+  } catch (storageError) {
+    console.error('Unable to read stored display preferences', storageError)
+    return defaults
+  }
+}
+
+let preferences = loadDisplayPreferences()
+const preferenceListeners = new Set<() => void>()
+
+export const subscribeToDisplayPreferences = (listener: () => void) => {
+  preferenceListeners.add(listener)
+
+  return () => {
+    preferenceListeners.delete(listener)
+  }
+}
+
+/** Replaced on every change so it can back `useSyncExternalStore`. */
+export const getDisplayPreferences = () => preferences
+
+export const updateDisplayPreferences = (update: Partial<DisplayPreferences>) => {
+  preferences = { ...preferences, ...update }
+
+  try {
+    window.localStorage.setItem(DISPLAY_PREFERENCES_STORAGE_KEY, JSON.stringify(preferences))
+  } catch (storageError) {
+    console.error('Unable to store display preferences', storageError)
+  }
+
+  for (const listener of preferenceListeners) {
+    listener()
+  }
+}
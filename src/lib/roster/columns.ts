@@ -0,0 +1,181 @@
+import type { MessageKey } from '../../types/i18n'
+import type { ColumnLayout, Player, SortKey } from '../../types/roster'
+import type { UnitSystem } from '../../types/units'
+import { formatHeight, formatWeight } from '../units/data'
+
+export type RosterColumn = {
+  key: SortKey
+  /** Full name, used in the column menu and on the mobile cards. */
+  label: MessageKey
+  /** Compact table header. */
+  shortLabel: MessageKey
+  /** The cell text; heights and weights follow `units`, defaulting to ESPN's imperial listing. */
+  getText: (player: Player, units?: UnitSystem) => string
+  /** Whether search matches are highlighted in this column. */
+  highlight: boolean
+  /** Locked columns can be moved but never hidden (the name opens the player details). */
+  locked?: boolean
+}
+
+const formatBirthplace = (player: Player) =>
+  [player.birthCity, player.birthState, player.birthCountry].filter(Boolean).join(', ') || '—'
+
+// Object order is the default column order.
+const COLUMNS_BY_KEY: Record<SortKey, RosterColumn> = {
+  jersey: {
+    key: 'jersey',
+    label: 'columns.jersey',
+    shortLabel: 'columns.jersey.short',
+    getText: (player) => player.jersey,
+    highlight: true,
+  },
+  displayName: {
+    key: 'displayName',
+    label: 'columns.displayName',
+    shortLabel: 'columns.displayName.short',
+    getText: (player) => player.displayName,
+    highlight: true,
+    locked: true,
+  },
+  position: {
+    key: 'position',
+    label: 'columns.position',
+    shortLabel: 'columns.position.short',
+    getText: (player) => player.position,
+    highlight: true,
+  },
+  positionName: {
+    key: 'positionName',
+    label: 'columns.positionName',
+    shortLabel: 'columns.positionName.short',
+    getText: (player) => player.positionName ?? player.position,
+    highlight: true,
+  },
+  experience: {
+    key: 'experience',
+    label: 'columns.experience',
+    shortLabel: 'columns.experience.short',
+    getText: (player) => player.experience,
+    highlight: true,
+  },
+  experienceYears: {
+    key: 'experienceYears',
+    label: 'columns.experienceYears',
+    shortLabel: 'columns.experienceYears.short',
+    getText: (player) => (player.experienceYears === null ? '—' : String(player.experienceYears)),
+    highlight: false,
+  },
+  height: {
+    key: 'height',
+    label: 'columns.height',
+    shortLabel: 'columns.height.short',
+    getText: (player, units) => formatHeight(player.height, units),
+    highlight: false,
+  },
+  weight: {
+    key: 'weight',
+    label: 'columns.weight',
+    shortLabel: 'columns.weight.short',
+    getText: (player, units) => formatWeight(player.weight, units),
+    highlight: false,
+  },
+  hometown: {
+    key: 'hometown',
+    label: 'columns.hometown',
+    shortLabel: 'columns.hometown.short',
+    getText: (player) => player.hometown,
+    highlight: true,
+  },
+  birthplace: {
+    key: 'birthplace',
+    label: 'columns.birthplace',
+    shortLabel: 'columns.birthplace.short',
+    getText: formatBirthplace,
+    highlight: true,
+  },
+  status: {
+    key: 'status',
+    label: 'columns.status',
+    shortLabel: 'columns.status.short',
+    getText: (player) => player.status,
+    highlight: false,
+  },
+  injuries: {
+    key: 'injuries',
+    label: 'columns.injuries',
+    shortLabel: 'columns.injuries.short',
+    getText: (player) => String(player.injuries.length),
+    highlight: false,
+  },
+}
+
+export const ROSTER_COLUMNS: RosterColumn[] = Object.values(COLUMNS_BY_KEY)
+
+export const getRosterColumn = (key: SortKey): RosterColumn => COLUMNS_BY_KEY[key]
+
+export const DEFAULT_COLUMN_LAYOUT: ColumnLayout = {
+  order: ROSTER_COLUMNS.map((column) => column.key),
+  hidden: ['positionName', 'experienceYears', 'birthplace', 'status', 'injuries'],
+}
+
+const isColumnKey = (value: unknown): value is SortKey =>
+  typeof value === 'string' && Object.hasOwn(COLUMNS_BY_KEY, value)
+
+export const isColumnLayout = (value: unknown): value is ColumnLayout => {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+
+  const { order, hidden } = value as Record<string, unknown>
+  return Array.isArray(order) && Array.isArray(hidden)
+}
+
+/**
+ * Repairs a stored layout: unknown and duplicate keys are dropped, columns added since it was saved are
+ * appended using their default visibility, and locked columns are always shown.
+ */
+export const normalizeColumnLayout = (layout: ColumnLayout): ColumnLayout => {
+  const order = [...new Set(layout.order.filter(isColumnKey))]
+
+  for (const key of DEFAULT_COLUMN_LAYOUT.order) {
+    if (!order.includes(key)) {
+      order.push(key)
+    }
+  }
+
+  const missingDefaults = DEFAULT_COLUMN_LAYOUT.hidden.filter((key) => !layout.order.includes(key))
+  const hidden = [...new Set([...layout.hidden.filter(isColumnKey), ...missingDefaults])].filter(
+    (key) => !getRosterColumn(key).locked,
+  )
+
+  return { order, hidden }
+}
+
+export const getVisibleColumns = (layout: ColumnLayout) =>
+  layout.order.filter((key) => !layout.hidden.includes(key)).map(getRosterColumn)
+
+export const toggleColumnVisibility = (layout: ColumnLayout, key: SortKey): ColumnLayout => {
+  if (getRosterColumn(key).locked) {
+    return layout
+  }
+
+  const hidden = layout.hidden.includes(key)
+    ? layout.hidden.filter((entry) => entry !== key)
+    : [...layout.hidden, key]
+
+  return { ...layout, hidden }
+}
+
+/** Moves `key` into the position currently held by `targetKey`. */
+export const moveColumn = (layout: ColumnLayout, key: SortKey, targetKey: SortKey): ColumnLayout => {
+  const targetIndex = layout.order.indexOf(targetKey)
+
+  if (key === targetKey || targetIndex === -1 || !layout.order.includes(key)) {
+    return layout
+  }
+
+  const order = layout.order.filter((entry) => entry !== key)
+  order.splice(targetIndex, 0, key)
+
+  return { ...layout, order }
+}
@@ -1,7 +1,16 @@
 import type { SortConfig } from '../../types/roster'
 
-export const TEAM_ID = '84'
+export const DEFAULT_TEAM_ID = '84'
 export const ROSTER_STORAGE_KEY = 'iu-football-roster-cache'
-export const ROSTER_ENDPOINT = `https://site.api.espn.com/apis/site/v2/sports/football/college-football/teams/${TEAM_ID}?enable=roster`
 
-export const DEFAULT_SORT: SortConfig = { key: 'jersey', direction: 'asc' }
+export const buildRosterEndpoint = (teamId: string) =>
+  `https://site.api.espn.com/apis/site/v2/sports/football/college-football/teams/${encodeURIComponent(teamId)}?enable=roster`
+
+export const buildRosterStorageKey = (teamId: string) => `${ROSTER_STORAGE_KEY}:${teamId}`
+
+export const ROSTER_POLL_INTERVAL_MS = 5 * 60 * 1000
+export const ROSTER_MAX_RETRIES = 3
+export const ROSTER_RETRY_BASE_DELAY_MS = 1000
+
+export const DEFAULT_SORT: SortConfig = [{ key: 'jersey', direction: 'asc' }]
+export const COLUMN_LAYOUT_STORAGE_KEY = 'iu-football-column-layout'
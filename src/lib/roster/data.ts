@@ -1,13 +1,17 @@
-import { TEAM_ID } from './constants'
+import type { PayloadDiagnostics, RejectedAthlete } from '../../types/diagnostics'
 import type {
   ParsedTeamRecord,
   Player,
   PlayerInjury,
   SortConfig,
+  SortCriterion,
+  SortDirection,
   TeamMeta,
   TeamNextEvent,
   TeamRecordStats,
 } from '../../types/roster'
+import { DataSourceError } from '../network/errors'
+import { getRosterColumn } from './columns'
 
 export const parseWeight = (weight: string): number | null => {
   const match = weight.match(/\d+/)
@@ -32,83 +36,65 @@ export const parseHeight = (height: string): number | null => {
   return feet * 12 + inches
 }
 
-export const comparePlayers = (a: Player, b: Player, config: SortConfig): number => {
-  const { key, direction } = config
+/** Missing values count as larger than any number, so they sort last ascending and first descending. */
+const compareNullableNumbers = (valueA: number | null, valueB: number | null, direction: SortDirection) => {
   const modifier = direction === 'asc' ? 1 : -1
 
-  if (key === 'jersey') {
-    const jerseyA = Number.parseInt(a.jersey, 10)
-    const jerseyB = Number.parseInt(b.jersey, 10)
-    const hasJerseyA = Number.isFinite(jerseyA)
-    const hasJerseyB = Number.isFinite(jerseyB)
-
-    if (!hasJerseyA && !hasJerseyB) {
-      return a.displayName.localeCompare(b.displayName, undefined, { sensitivity: 'base' }) * modifier
-    }
-
-    if (!hasJerseyA) {
-      return direction === 'asc' ? 1 : -1
-    }
-
-    if (!hasJerseyB) {
-      return direction === 'asc' ? -1 : 1
-    }
-
-    if (jerseyA !== jerseyB) {
-      return (jerseyA - jerseyB) * modifier
-    }
+  if (valueA === null && valueB === null) {
+    return 0
   }
 
-  if (key === 'weight') {
-    const weightA = parseWeight(a.weight)
-    const weightB = parseWeight(b.weight)
-
-    if (weightA === null && weightB === null) {
-      return a.displayName.localeCompare(b.displayName, undefined, { sensitivity: 'base' }) * modifier
-    }
-
-    if (weightA === null) {
-      return direction === 'asc' ? 1 : -1
-    }
-
-    if (weightB === null) {
-      return direction === 'asc' ? -1 : 1
-    }
-
-    if (weightA !== weightB) {
-      return (weightA - weightB) * modifier
-    }
+  if (valueA === null) {
+    return modifier
   }
 
-  if (key === 'height') {
-    const heightA = parseHeight(a.height)
-    const heightB = parseHeight(b.height)
-
-    if (heightA === null && heightB === null) {
-      return a.displayName.localeCompare(b.displayName, undefined, { sensitivity: 'base' }) * modifier
-    }
+  if (valueB === null) {
+    return -modifier
+  }
 
-    if (heightA === null) {
-      return direction === 'asc' ? 1 : -1
-    }
+  return (valueA - valueB) * modifier
+}
 
-    if (heightB === null) {
-      return direction === 'asc' ? -1 : 1
-    }
+const parseJersey = (jersey: string) => {
+  const parsed = Number.parseInt(jersey, 10)
+  return Number.isFinite(parsed) ? parsed : null
+}
 
-    if (heightA !== heightB) {
-      return (heightA - heightB) * modifier
+const compareByCriterion = (a: Player, b: Player, criterion: SortCriterion): number => {
+  const { key, direction } = criterion
+
+  switch (key) {
+    case 'jersey':
+      return compareNullableNumbers(parseJersey(a.jersey), parseJersey(b.jersey), direction)
+    case 'weight':
+      return compareNullableNumbers(parseWeight(a.weight), parseWeight(b.weight), direction)
+    case 'height':
+      return compareNullableNumbers(parseHeight(a.height), parseHeight(b.height), direction)
+    case 'experienceYears':
+      return compareNullableNumbers(a.experienceYears, b.experienceYears, direction)
+    case 'injuries':
+      return compareNullableNumbers(a.injuries.length, b.injuries.length, direction)
+    default: {
+      const { getText } = getRosterColumn(key)
+      const modifier = direction === 'asc' ? 1 : -1
+      return getText(a).localeCompare(getText(b), undefined, { sensitivity: 'base' }) * modifier
     }
   }
+}
 
-  const baseComparison = (a[key] as string).localeCompare(b[key] as string, undefined, {
-    sensitivity: 'base',
-  })
+/**
+ * Compares by each criterion in turn, falling back to the player's name in the primary direction.
+ */
+export const comparePlayers = (a: Player, b: Player, config: SortConfig): number => {
+  for (const criterion of config) {
+    const comparison = compareByCriterion(a, b, criterion)
 
-  if (baseComparison !== 0) {
-    return baseComparison * modifier
+    if (comparison !== 0) {
+      return comparison
+    }
   }
 
+  const modifier = config[0]?.direction === 'desc' ? -1 : 1
   return a.displayName.localeCompare(b.displayName, undefined, { sensitivity: 'base' }) * modifier
 }
 
@@ -299,6 +285,59 @@ export const normalizePlayerInjuries = (value: unknown): PlayerInjury[] => {
     .filter((injury): injury is PlayerInjury => Boolean(injury))
 }
 
+const nullableString = (value: unknown): string | null => trimStringOrNull(toStringOrNull(value))
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Upgrades a stored player to the current `Player` shape. Records that pass `isValidPlayerRecord` are
+ * kept even when newer optional fields are missing, which are filled with empty defaults instead.
+ */
+export const normalizePlayerRecord = (value: unknown): Player | null => {
+  if (!isRecord(value) || !isValidPlayerRecord(value)) {
+    return null
+  }
+
+  // The optional fields are read untyped, since older snapshots may hold anything there.
+  const record: Record<string, unknown> = value
+
+  return {
+    id: value.id,
+    uid: nullableString(record.uid),
+    guid: nullableString(record.guid),
+    displayName: value.displayName,
+    fullName: nullableString(record.fullName),
+    firstName: nullableString(record.firstName),
+    lastName: nullableString(record.lastName),
+    shortName: nullableString(record.shortName),
+    jersey: value.jersey,
+    position: value.position,
+    positionAbbreviation: nullableString(record.positionAbbreviation),
+    positionName: nullableString(record.positionName),
+    positionId: toTrimmedString(record.positionId),
+    experience: value.experience,
+    experienceAbbreviation: nullableString(record.experienceAbbreviation),
+    experienceYears: toNumberOrNull(record.experienceYears),
+    height: value.height,
+    weight: value.weight,
+    hometown: value.hometown,
+    birthCity: nullableString(record.birthCity),
+    birthState: nullableString(record.birthState),
+    birthCountry: nullableString(record.birthCountry),
+    birthCountryAbbreviation: nullableString(record.birthCountryAbbreviation),
+    flagUrl: nullableString(record.flagUrl),
+    flagAlt: nullableString(record.flagAlt),
+    status: nullableString(record.status) ?? '—',
+    statusType: nullableString(record.statusType),
+    statusAbbreviation: nullableString(record.statusAbbreviation),
+    isActive: typeof record.isActive === 'boolean' ? record.isActive : true,
+    slug: nullableString(record.slug),
+    type: nullableString(record.type),
+    injuries: normalizePlayerInjuries(record.injuries),
+  }
+}
+
 const createEmptyTeamMeta = (): TeamMeta => ({
   rank: null,
   standingSummary: null,
@@ -348,6 +387,7 @@ const normalizeTeamNextEvent = (value: unknown): TeamNextEvent | null => {
     shortName: trimStringOrNull(toStringOrNull(record.shortName)),
     date: trimStringOrNull(toStringOrNull(record.date)),
     opponent: trimStringOrNull(toStringOrNull(record.opponent)),
+    opponentId: toTrimmedString(record.opponentId),
     opponentAbbreviation: trimStringOrNull(toStringOrNull(record.opponentAbbreviation)),
     opponentRank: toNumberOrNull(record.opponentRank),
     isHome,
@@ -365,7 +405,7 @@ const normalizeTeamNextEvent = (value: unknown): TeamNextEvent | null => {
   }
 }
 
-const parseTeamNextEvent = (record: unknown): TeamNextEvent | null => {
+const parseTeamNextEvent = (record: unknown, teamId: string): TeamNextEvent | null => {
   if (!record || typeof record !== 'object') {
     return null
   }
@@ -380,6 +420,7 @@ const parseTeamNextEvent = (record: unknown): TeamNextEvent | null => {
   const competitions = Array.isArray(source.competitions) ? source.competitions : []
 
   let opponent: string | null = null
+  let opponentId: string | null = null
   let opponentAbbreviation: string | null = null
   let opponentRank: number | null = null
   let isHome: boolean | null = null
@@ -409,17 +450,20 @@ const parseTeamNextEvent = (record: unknown): TeamNextEvent | null => {
 
         const competitorRecord = competitor as Record<string, unknown>
         const teamRecord = competitorRecord.team as Record<string, unknown> | undefined
-        const teamIdValue = teamRecord?.id
-        const teamId = teamIdValue !== undefined && teamIdValue !== null ? String(teamIdValue) : null
+        const competitorIdValue = teamRecord?.id
+        const competitorId =
+          competitorIdValue !== undefined && competitorIdValue !== null ? String(competitorIdValue) : null
         const homeAway = trimStringOrNull(toStringOrNull(competitorRecord.homeAway))
 
-        if (teamId === TEAM_ID) {
+        if (competitorId === teamId) {
           if (homeAway) {
             isHome = homeAway === 'home'
           }
           continue
         }
 
+        opponentId = competitorId
+
         if (teamRecord) {
           opponent =
             trimStringOrNull(toStringOrNull(teamRecord.displayName)) ??
@@ -450,10 +494,11 @@ const parseTeamNextEvent = (record: unknown): TeamNextEvent | null => {
 
           const competitorRecord = entry as Record<string, unknown>
           const teamRecord = competitorRecord.team as Record<string, unknown> | undefined
-          const teamIdValue = teamRecord?.id
-          const teamId = teamIdValue !== undefined && teamIdValue !== null ? String(teamIdValue) : null
+          const competitorIdValue = teamRecord?.id
+          const competitorId =
+            competitorIdValue !== undefined && competitorIdValue !== null ? String(competitorIdValue) : null
 
-          return teamId === TEAM_ID
+          return competitorId === teamId
         })
 
         if (ourCompetitor && typeof ourCompetitor === 'object') {
@@ -537,6 +582,7 @@ const parseTeamNextEvent = (record: unknown): TeamNextEvent | null => {
     shortName: trimStringOrNull(toStringOrNull(source.shortName)),
     date: trimStringOrNull(toStringOrNull(source.date)),
     opponent,
+    opponentId,
     opponentAbbreviation,
     opponentRank,
     isHome,
@@ -578,7 +624,7 @@ export const normalizeTeamMeta = (value: unknown): TeamMeta | null => {
   return result
 }
 
-export const parseTeamMeta = (payload: unknown): TeamMeta => {
+export const parseTeamMeta = (payload: unknown, teamId: string): TeamMeta => {
   const result = createEmptyTeamMeta()
 
   if (!payload || typeof payload !== 'object') {
@@ -604,7 +650,7 @@ export const parseTeamMeta = (payload: unknown): TeamMeta => {
   result.alternateColor = trimStringOrNull(toStringOrNull(teamRecord.alternateColor))
 
   const nextEvent = Array.isArray(teamRecord.nextEvent) ? teamRecord.nextEvent[0] : null
-  const parsedNextEvent = parseTeamNextEvent(nextEvent)
+  const parsedNextEvent = parseTeamNextEvent(nextEvent, teamId)
   if (parsedNextEvent) {
     result.nextEvent = parsedNextEvent
   }
@@ -674,129 +720,220 @@ export const parseTeamRecord = (payload: unknown): ParsedTeamRecord => {
   return result
 }
 
-export const mapPlayersFromPayload = (payload: unknown): Player[] => {
-  const athletes = (payload as { team?: { athletes?: unknown[] } })?.team?.athletes ?? []
+// Fields `parseAthlete` reads, plus ones ESPN sends that the roster deliberately ignores. Anything
+// else is counted as an unknown field so payload drift shows up in the diagnostics panel.
+const KNOWN_ATHLETE_FIELDS = new Set([
+  'id',
+  'uid',
+  'guid',
+  'type',
+  'slug',
+  'displayName',
+  'fullName',
+  'firstName',
+  'lastName',
+  'shortName',
+  'jersey',
+  'position',
+  'experience',
+  'displayHeight',
+  'displayWeight',
+  'birthPlace',
+  'birthCountry',
+  'flag',
+  'status',
+  'active',
+  'injuries',
+  'alternateIds',
+  'height',
+  'weight',
+  'age',
+  'dateOfBirth',
+  'links',
+  'headshot',
+  'college',
+  'hand',
+  'citizenship',
+  'debutYear',
+])
+
+type AthleteParseResult = { player: Player } | { rejected: Omit<RejectedAthlete, 'index'> }
+
+const parseAthlete = (record: Record<string, unknown>): AthleteParseResult => {
+  const idValue = record.id
+  const id = idValue !== undefined && idValue !== null ? String(idValue).trim() : ''
+
+  const displayName =
+    trimStringOrNull(toStringOrNull(record.displayName)) ??
+    trimStringOrNull(toStringOrNull(record.fullName)) ??
+    ''
 
-  return (Array.isArray(athletes) ? athletes : [])
-    .map((athlete) => {
-      if (!athlete || typeof athlete !== 'object') {
-        return null
-      }
+  if (!id) {
+    return { rejected: { id: null, name: displayName || null, reason: 'Missing athlete id' } }
+  }
+
+  if (!displayName) {
+    return { rejected: { id, name: null, reason: 'Missing display name' } }
+  }
+
+  const firstName = trimStringOrNull(toStringOrNull(record.firstName))
+  const lastName = trimStringOrNull(toStringOrNull(record.lastName))
+  const fullName = trimStringOrNull(toStringOrNull(record.fullName))
+  const shortName = trimStringOrNull(toStringOrNull(record.shortName))
+  const uid = trimStringOrNull(toStringOrNull(record.uid))
+  const guid = trimStringOrNull(toStringOrNull(record.guid))
+  const slug = trimStringOrNull(toStringOrNull(record.slug))
+  const type = trimStringOrNull(toStringOrNull(record.type))
+
+  const jersey = trimStringOrNull(toStringOrNull(record.jersey)) ?? '—'
+
+  const positionRecord = record.position as Record<string, unknown> | undefined
+  const positionDisplay =
+    trimStringOrNull(toStringOrNull(positionRecord?.displayName)) ??
+    trimStringOrNull(toStringOrNull(positionRecord?.abbreviation)) ??
+    '—'
+  const positionAbbreviation = trimStringOrNull(toStringOrNull(positionRecord?.abbreviation))
+  const positionName =
+    trimStringOrNull(toStringOrNull(positionRecord?.name)) ?? positionDisplay
+  const positionId = toTrimmedString(positionRecord?.id)
+
+  const experienceRecord = record.experience as Record<string, unknown> | undefined
+  const experience =
+    trimStringOrNull(toStringOrNull(experienceRecord?.displayValue)) ?? '—'
+  const experienceAbbreviation = trimStringOrNull(toStringOrNull(experienceRecord?.abbreviation))
+  const experienceYears = toNumberOrNull(experienceRecord?.years)
+
+  const height = trimStringOrNull(toStringOrNull(record.displayHeight)) ?? '—'
+  const weight = trimStringOrNull(toStringOrNull(record.displayWeight)) ?? '—'
+
+  const birthPlace = record.birthPlace as Record<string, unknown> | undefined
+  const birthCity = trimStringOrNull(toStringOrNull(birthPlace?.city))
+  const birthState = trimStringOrNull(toStringOrNull(birthPlace?.state))
+  const birthCountryName = trimStringOrNull(toStringOrNull(birthPlace?.country))
+
+  const birthCountryRecord = record.birthCountry as Record<string, unknown> | undefined
+  const birthCountryAbbreviation = trimStringOrNull(toStringOrNull(birthCountryRecord?.abbreviation))
+  const birthCountry =
+    birthCountryName ??
+    trimStringOrNull(toStringOrNull(birthCountryRecord?.name)) ??
+    birthCountryAbbreviation
+
+  const hometownParts = [birthCity, birthState || birthCountry].filter(Boolean)
+  const hometown = hometownParts.join(', ') || '—'
+
+  const flagRecord = record.flag as Record<string, unknown> | undefined
+  const flagUrl = trimStringOrNull(toStringOrNull(flagRecord?.href))
+  const flagAlt = trimStringOrNull(toStringOrNull(flagRecord?.alt))
+
+  const statusRecord = record.status as Record<string, unknown> | undefined
+  const status =
+    trimStringOrNull(toStringOrNull(statusRecord?.name)) ??
+    trimStringOrNull(toStringOrNull(statusRecord?.type)) ??
+    '—'
+  const statusType = trimStringOrNull(toStringOrNull(statusRecord?.type))
+  const statusAbbreviation = trimStringOrNull(toStringOrNull(statusRecord?.abbreviation))
+
+  const isActive =
+    typeof record.active === 'boolean'
+      ? record.active
+      : statusType?.toLowerCase() === 'active'
+
+  const injuries = normalizePlayerInjuries(record.injuries)
 
-      const record = athlete as Record<string, unknown>
+  return {
+    player: {
+      id,
+      uid,
+      guid,
+      displayName,
+      fullName,
+      firstName,
+      lastName,
+      shortName,
+      jersey,
+      position: positionDisplay,
+      positionAbbreviation,
+      positionName,
+      positionId,
+      experience,
+      experienceAbbreviation,
+      experienceYears,
+      height,
+      weight,
+      hometown,
+      birthCity,
+      birthState,
+      birthCountry,
+      birthCountryAbbreviation,
+      flagUrl,
+      flagAlt,
+      status,
+      statusType,
+      statusAbbreviation,
+      isActive,
+      slug,
+      type,
+      injuries,
+    },
+  }
+}
 
-      const idValue = record.id
-      const id = idValue !== undefined && idValue !== null ? String(idValue).trim() : ''
+export type MappedPlayers = {
+  players: Player[]
+  diagnostics: PayloadDiagnostics
+}
 
-      const displayName =
-        trimStringOrNull(toStringOrNull(record.displayName)) ??
-        trimStringOrNull(toStringOrNull(record.fullName)) ??
-        ''
+/**
+ * Maps `team.athletes` to players, recording every record it has to drop (and why) along with any
+ * athlete fields it does not recognise.
+ */
+export const mapPlayersWithDiagnostics = (payload: unknown): MappedPlayers => {
+  const athletes = (payload as { team?: { athletes?: unknown } })?.team?.athletes
+  const diagnostics: PayloadDiagnostics = {
+    athleteCount: 0,
+    acceptedCount: 0,
+    rejected: [],
+    unknownFields: {},
+    warnings: [],
+  }
+
+  if (!Array.isArray(athletes)) {
+    diagnostics.warnings.push(
+      athletes === undefined ? 'Payload has no team.athletes list' : 'team.athletes is not a list',
+    )
+    return { players: [], diagnostics }
+  }
+
+  const players: Player[] = []
+  diagnostics.athleteCount = athletes.length
+
+  athletes.forEach((athlete, index) => {
+    if (!athlete || typeof athlete !== 'object' || Array.isArray(athlete)) {
+      diagnostics.rejected.push({ index, id: null, name: null, reason: 'Record is not an object' })
+      return
+    }
 
-      if (!id || !displayName) {
-        return null
+    const record = athlete as Record<string, unknown>
+
+    for (const field of Object.keys(record)) {
+      if (!KNOWN_ATHLETE_FIELDS.has(field)) {
+        diagnostics.unknownFields[field] = (diagnostics.unknownFields[field] ?? 0) + 1
       }
+    }
 
-      const firstName = trimStringOrNull(toStringOrNull(record.firstName))
-      const lastName = trimStringOrNull(toStringOrNull(record.lastName))
-      const fullName = trimStringOrNull(toStringOrNull(record.fullName))
-      const shortName = trimStringOrNull(toStringOrNull(record.shortName))
-      const uid = trimStringOrNull(toStringOrNull(record.uid))
-      const guid = trimStringOrNull(toStringOrNull(record.guid))
-      const slug = trimStringOrNull(toStringOrNull(record.slug))
-      const type = trimStringOrNull(toStringOrNull(record.type))
-
-      const jersey = trimStringOrNull(toStringOrNull(record.jersey)) ?? '—'
-
-      const positionRecord = record.position as Record<string, unknown> | undefined
-      const positionDisplay =
-        trimStringOrNull(toStringOrNull(positionRecord?.displayName)) ??
-        trimStringOrNull(toStringOrNull(positionRecord?.abbreviation)) ??
-        '—'
-      const positionAbbreviation = trimStringOrNull(toStringOrNull(positionRecord?.abbreviation))
-      const positionName =
-        trimStringOrNull(toStringOrNull(positionRecord?.name)) ?? positionDisplay
-      const positionId = toTrimmedString(positionRecord?.id)
-
-      const experienceRecord = record.experience as Record<string, unknown> | undefined
-      const experience =
-        trimStringOrNull(toStringOrNull(experienceRecord?.displayValue)) ?? '—'
-      const experienceAbbreviation = trimStringOrNull(toStringOrNull(experienceRecord?.abbreviation))
-      const experienceYears = toNumberOrNull(experienceRecord?.years)
-
-      const height = trimStringOrNull(toStringOrNull(record.displayHeight)) ?? '—'
-      const weight = trimStringOrNull(toStringOrNull(record.displayWeight)) ?? '—'
-
-      const birthPlace = record.birthPlace as Record<string, unknown> | undefined
-      const birthCity = trimStringOrNull(toStringOrNull(birthPlace?.city))
-      const birthState = trimStringOrNull(toStringOrNull(birthPlace?.state))
-      const birthCountryName = trimStringOrNull(toStringOrNull(birthPlace?.country))
-
-      const birthCountryRecord = record.birthCountry as Record<string, unknown> | undefined
-      const birthCountryAbbreviation = trimStringOrNull(toStringOrNull(birthCountryRecord?.abbreviation))
-      const birthCountry =
-        birthCountryName ??
-        trimStringOrNull(toStringOrNull(birthCountryRecord?.name)) ??
-        birthCountryAbbreviation
-
-      const hometownParts = [birthCity, birthState || birthCountry].filter(Boolean)
-      const hometown = hometownParts.join(', ') || '—'
-
-      const flagRecord = record.flag as Record<string, unknown> | undefined
-      const flagUrl = trimStringOrNull(toStringOrNull(flagRecord?.href))
-      const flagAlt = trimStringOrNull(toStringOrNull(flagRecord?.alt))
-
-      const statusRecord = record.status as Record<string, unknown> | undefined
-      const status =
-        trimStringOrNull(toStringOrNull(statusRecord?.name)) ??
-        trimStringOrNull(toStringOrNull(statusRecord?.type)) ??
-        '—'
-      const statusType = trimStringOrNull(toStringOrNull(statusRecord?.type))
-      const statusAbbreviation = trimStringOrNull(toStringOrNull(statusRecord?.abbreviation))
-
-      const isActive =
-        typeof record.active === 'boolean'
-          ? record.active
-          : statusType?.toLowerCase() === 'active'
-
-      const injuries = normalizePlayerInjuries(record.injuries)
-
-      return {
-        id,
-        uid,
-        guid,
-        displayName,
-        fullName,
-        firstName,
-        lastName,
-        shortName,
-        jersey,
-        position: positionDisplay,
-        positionAbbreviation,
-        positionName,
-        positionId,
-        experience,
-        experienceAbbreviation,
-        experienceYears,
-        height,
-        weight,
-        hometown,
-        birthCity,
-        birthState,
-        birthCountry,
-        birthCountryAbbreviation,
-        flagUrl,
-        flagAlt,
-        status,
-        statusType,
-        statusAbbreviation,
-        isActive,
-        slug,
-        type,
-        injuries,
-      } as Player
-    })
-    .filter((player): player is Player => player !== null)
+    const result = parseAthlete(record)
+
+    if ('rejected' in result) {
+      diagnostics.rejected.push({ index, ...result.rejected })
+      return
+    }
+
+    players.push(result.player)
+  })
+
+  diagnostics.acceptedCount = players.length
+
+  return { players, diagnostics }
 }
 
 export const sortPlayersByJersey = (players: Player[]): Player[] =>
@@ -813,10 +950,20 @@ export const sortPlayersByJersey = (players: Player[]): Player[] =>
     return aNumber - bNumber
   })
 
-export const parseRosterPayload = (payload: unknown) => {
+/**
+ * Throws a `schema` `DataSourceError` when the payload is missing the `team` object the roster is
+ * built from; smaller problems are reported in `diagnostics` instead.
+ */
+export const parseRosterPayload = (payload: unknown, teamId: string) => {
+  const team = payload && typeof payload === 'object' ? (payload as Record<string, unknown>).team : null
+
+  if (!team || typeof team !== 'object') {
+    throw new DataSourceError('schema', 'Roster payload is missing the team object')
+  }
+
   const teamRecord = parseTeamRecord(payload)
-  const teamMeta = parseTeamMeta(payload)
-  const players = sortPlayersByJersey(mapPlayersFromPayload(payload))
+  const teamMeta = parseTeamMeta(payload, teamId)
+  const { players, diagnostics } = mapPlayersWithDiagnostics(payload)
 
-  return { players, teamRecord, teamMeta }
+  return { players: sortPlayersByJersey(players), teamRecord, teamMeta, diagnostics }
 }
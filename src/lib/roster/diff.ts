@@ -0,0 +1,125 @@
+import type { Player, RosterChange, RosterChangeKind, RosterDiff } from '../../types/roster'
+
+const ROSTER_CHANGE_KINDS: RosterChangeKind[] = ['added', 'removed', 'jersey', 'position', 'status', 'injury']
+
+const describePosition = (player: Player): string => player.positionAbbreviation ?? player.position
+
+const describeStatus = (player: Player): string => {
+  const base = player.status !== '—' ? player.status : player.statusType ?? '—'
+  return player.isActive ? base : `${base} (inactive)`
+}
+
+export const summarizeInjuries = (player: Player): string | null => {
+  // Snapshots cached before injuries were tracked may not carry the array at all.
+  const injuries = Array.isArray(player.injuries) ? player.injuries : []
+  const parts = injuries
+    .map((injury) => [injury.type, injury.status].filter(Boolean).join(' – '))
+    .filter(Boolean)
+
+  return parts.length ? parts.join('; ') : null
+}
+
+const createChange = (
+  kind: RosterChangeKind,
+  player: Player,
+  previous: string | null,
+  current: string | null,
+): RosterChange => ({
+  kind,
+  playerId: player.id,
+  playerName: player.displayName,
+  previous,
+  current,
+})
+
+/**
+ * Compares two roster snapshots by player id. Returns arrivals, departures and per-player field
+ * changes in a stable order (added, removed, then updates sorted by name).
+ */
+export const diffRosters = (previous: Player[], next: Player[]): RosterChange[] => {
+  const previousById = new Map(previous.map((player) => [player.id, player]))
+  const nextById = new Map(next.map((player) => [player.id, player]))
+
+  const added: RosterChange[] = []
+  const removed: RosterChange[] = []
+  const updated: RosterChange[] = []
+
+  for (const player of next) {
+    const before = previousById.get(player.id)
+
+    if (!before) {
+      added.push(createChange('added', player, null, `#${player.jersey} ${describePosition(player)}`))
+      continue
+    }
+
+    if (before.jersey !== player.jersey) {
+      updated.push(createChange('jersey', player, before.jersey, player.jersey))
+    }
+
+    if (describePosition(before) !== describePosition(player)) {
+      updated.push(createChange('position', player, describePosition(before), describePosition(player)))
+    }
+
+    if (describeStatus(before) !== describeStatus(player)) {
+      updated.push(createChange('status', player, describeStatus(before), describeStatus(player)))
+    }
+
+    const injuriesBefore = summarizeInjuries(before)
+    const injuriesAfter = summarizeInjuries(player)
+
+    if (injuriesBefore !== injuriesAfter) {
+      updated.push(createChange('injury', player, injuriesBefore, injuriesAfter))
+    }
+  }
+
+  for (const player of previous) {
+    if (!nextById.has(player.id)) {
+      removed.push(createChange('removed', player, `#${player.jersey} ${describePosition(player)}`, null))
+    }
+  }
+
+  const byName = (a: RosterChange, b: RosterChange) =>
+    a.playerName.localeCompare(b.playerName, undefined, { sensitivity: 'base' })
+
+  return [...added.sort(byName), ...removed.sort(byName), ...updated.sort(byName)]
+}
+
+export const isValidRosterChange = (value: unknown): value is RosterChange => {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+
+  const record = value as Record<string, unknown>
+
+  return (
+    ROSTER_CHANGE_KINDS.includes(record.kind as RosterChangeKind) &&
+    typeof record.playerId === 'string' &&
+    typeof record.playerName === 'string' &&
+    (record.previous === null || typeof record.previous === 'string') &&
+    (record.current === null || typeof record.current === 'string')
+  )
+}
+
+export const normalizeRosterDiff = (value: unknown): RosterDiff | null => {
+  if (!value || typeof value !== 'object') {
+    return null
+  }
+
+  const record = value as Record<string, unknown>
+  const comparedAt =
+    typeof record.comparedAt === 'number' && Number.isFinite(record.comparedAt) ? record.comparedAt : null
+  const changes = Array.isArray(record.changes) ? record.changes.filter(isValidRosterChange) : []
+
+  if (comparedAt === null || !changes.length) {
+    return null
+  }
+
+  return {
+    comparedAt,
+    previousUpdatedAt:
+      typeof record.previousUpdatedAt === 'number' && Number.isFinite(record.previousUpdatedAt)
+        ? record.previousUpdatedAt
+        : null,
+    changes,
+  }
+}
@@ -1,4 +1,16 @@
-import type { Player, SortConfig, TeamMeta, TeamRecordStats } from '../../types/roster'
+import type {
+  Player,
+  RosterChange,
+  RosterChangeKind,
+  RosterDiff,
+  SortConfig,
+  TeamMeta,
+  TeamRecordStats,
+} from '../../types/roster'
+import type { FacetSelection } from '../../types/filters'
+import type { Locale, MessageKey } from '../../types/i18n'
+import { countSelectedFacets, EMPTY_FACET_SELECTION, matchesFacets } from '../filters/facets'
+import { parseSearchQuery, scoreSearchTerms } from '../search/query'
 import { comparePlayers } from './data'
 
 export const computeRecordSummary = (
@@ -26,9 +38,9 @@ export const computeRecordSummary = (
   return null
 }
 
-export const buildRecordHighlights = (recordStats: TeamRecordStats | null) => {
+export const buildRecordHighlights = (recordStats: TeamRecordStats | null, locale: Locale) => {
   if (!recordStats) {
-    return [] as Array<{ label: string; value: string }>
+    return [] as Array<{ label: MessageKey; value: string }>
   }
 
   const formatValue = (value: number | null, format: 'integer' | 'decimal' | 'difference'): string => {
@@ -37,7 +49,7 @@ export const buildRecordHighlights = (recordStats: TeamRecordStats | null) => {
     }
 
     if (format === 'decimal') {
-      return value.toLocaleString(undefined, {
+      return value.toLocaleString(locale, {
         minimumFractionDigits: 1,
         maximumFractionDigits: 1,
       })
@@ -46,19 +58,19 @@ export const buildRecordHighlights = (recordStats: TeamRecordStats | null) => {
     if (format === 'difference') {
       const sign = value > 0 ? '+' : value < 0 ? '-' : ''
       const absolute = Math.abs(value)
-      const formatted = absolute.toLocaleString(undefined, { maximumFractionDigits: 0 })
+      const formatted = absolute.toLocaleString(locale, { maximumFractionDigits: 0 })
       return `${sign}${formatted}`
     }
 
-    return value.toLocaleString(undefined, { maximumFractionDigits: 0 })
+    return value.toLocaleString(locale, { maximumFractionDigits: 0 })
   }
 
-  const items: Array<{ label: string; value: number | null; format: 'integer' | 'decimal' | 'difference' }> = [
-    { label: 'Points For', value: recordStats.pointsFor, format: 'integer' },
-    { label: 'Points Against', value: recordStats.pointsAgainst, format: 'integer' },
-    { label: 'PPG', value: recordStats.avgPointsFor, format: 'decimal' },
-    { label: 'Opp PPG', value: recordStats.avgPointsAgainst, format: 'decimal' },
-    { label: 'Point Diff', value: recordStats.pointDifferential, format: 'difference' },
+  const items: Array<{ label: MessageKey; value: number | null; format: 'integer' | 'decimal' | 'difference' }> = [
+    { label: 'record.pointsFor', value: recordStats.pointsFor, format: 'integer' },
+    { label: 'record.pointsAgainst', value: recordStats.pointsAgainst, format: 'integer' },
+    { label: 'record.pointsPerGame', value: recordStats.avgPointsFor, format: 'decimal' },
+    { label: 'record.opponentPointsPerGame', value: recordStats.avgPointsAgainst, format: 'decimal' },
+    { label: 'record.pointDifferential', value: recordStats.pointDifferential, format: 'difference' },
   ]
 
   return items
@@ -66,7 +78,7 @@ export const buildRecordHighlights = (recordStats: TeamRecordStats | null) => {
     .filter((item) => item.value !== '—')
 }
 
-export const formatUpcomingEvent = (teamMeta: TeamMeta | null) => {
+export const formatUpcomingEvent = (teamMeta: TeamMeta | null, locale: Locale) => {
   const event = teamMeta?.nextEvent
 
   if (!event) {
@@ -77,13 +89,13 @@ export const formatUpcomingEvent = (teamMeta: TeamMeta | null) => {
 
   if (event.date) {
     try {
-      formattedDate = new Intl.DateTimeFormat(undefined, {
+      formattedDate = new Intl.DateTimeFormat(locale, {
         dateStyle: 'full',
         timeStyle: 'short',
       }).format(new Date(event.date))
     } catch (formatError) {
       console.error('Unable to format next event date', formatError)
-      formattedDate = new Date(event.date).toLocaleString()
+      formattedDate = new Date(event.date).toLocaleString(locale)
     }
   }
 
@@ -109,6 +121,7 @@ export const formatUpcomingEvent = (teamMeta: TeamMeta | null) => {
 
   return {
     opponent: opponentLine,
+    opponentId: event.opponentId,
     opponentAbbreviation: event.opponentAbbreviation,
     formattedDate,
     locationText,
@@ -122,46 +135,104 @@ export const formatUpcomingEvent = (teamMeta: TeamMeta | null) => {
   }
 }
 
-export const formatLastUpdated = (timestamp: number | null) => {
+export const formatLastUpdated = (timestamp: number | null, locale: Locale) => {
   if (!timestamp) {
     return null
   }
 
   try {
-    return new Intl.DateTimeFormat(undefined, {
+    return new Intl.DateTimeFormat(locale, {
       dateStyle: 'medium',
       timeStyle: 'short',
     }).format(new Date(timestamp))
   } catch (formatError) {
     console.error('Unable to format roster timestamp', formatError)
-    return new Date(timestamp).toLocaleString()
+    return new Date(timestamp).toLocaleString(locale)
   }
 }
 
-export const filterAndSortPlayers = (players: Player[], query: string, sortConfig: SortConfig) => {
-  const normalizedQuery = query.trim().toLowerCase()
-
-  const baseList = normalizedQuery
-    ? players.filter((player) => {
-        const searchable = [
-          player.displayName,
-          player.fullName,
-          player.firstName,
-          player.lastName,
-          player.jersey,
-          player.position,
-          player.positionAbbreviation,
-          player.experience,
-          player.hometown,
-          player.status,
-        ]
-          .filter(Boolean)
-          .join(' ')
-          .toLowerCase()
-
-        return searchable.includes(normalizedQuery)
-      })
-    : players
+/**
+ * Filters with the search query language (see `parseSearchQuery`); terms with syntax errors are skipped.
+ * Free-text terms are typo-tolerant and rank results by relevance, with `sortConfig` ordering players
+ * that matched equally well. Checked `facets` narrow the list further.
+ */
+export const filterAndSortPlayers = (
+  players: Player[],
+  query: string,
+  sortConfig: SortConfig,
+  facets: FacetSelection = EMPTY_FACET_SELECTION,
+) => {
+  const { terms } = parseSearchQuery(query)
+  const candidates = countSelectedFacets(facets) ? players.filter((player) => matchesFacets(player, facets)) : players
+
+  if (!terms.length) {
+    return [...candidates].sort((a, b) => comparePlayers(a, b, sortConfig))
+  }
+
+  return candidates
+    .map((player) => ({ player, score: scoreSearchTerms(player, terms) }))
+    .filter((entry): entry is { player: Player; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score || comparePlayers(a.player, b.player, sortConfig))
+    .map(({ player }) => player)
+}
+
+const ROSTER_CHANGE_LABELS: Record<RosterChangeKind, string> = {
+  added: 'Added',
+  removed: 'Departed',
+  jersey: 'Jersey',
+  position: 'Position',
+  status: 'Status',
+  injury: 'Injury',
+}
 
-  return [...baseList].sort((a, b) => comparePlayers(a, b, sortConfig))
+export const describeRosterChange = (change: RosterChange) => {
+  const label = ROSTER_CHANGE_LABELS[change.kind]
+
+  let detail: string
+  if (change.kind === 'added') {
+    detail = change.current ?? 'Joined the roster'
+  } else if (change.kind === 'removed') {
+    detail = change.previous ? `Was ${change.previous}` : 'Left the roster'
+  } else if (change.kind === 'jersey') {
+    detail = `#${change.previous ?? '—'} → #${change.current ?? '—'}`
+  } else if (change.kind === 'injury' && !change.current) {
+    detail = `Cleared (${change.previous ?? 'injury'})`
+  } else {
+    detail = `${change.previous ?? 'None'} → ${change.current ?? 'None'}`
+  }
+
+  return { label, detail }
+}
+
+export const summarizeRosterDiff = (diff: RosterDiff | null): string | null => {
+  if (!diff || !diff.changes.length) {
+    return null
+  }
+
+  const added = diff.changes.filter((change) => change.kind === 'added').length
+  const removed = diff.changes.filter((change) => change.kind === 'removed').length
+  const updated = diff.changes.length - added - removed
+
+  return [
+    added ? `${added} added` : null,
+    removed ? `${removed} departed` : null,
+    updated ? `${updated} ${updated === 1 ? 'update' : 'updates'}` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+export const formatSnapshotDate = (snapshotDate: string, locale: Locale) => {
+  const [year, month, day] = snapshotDate.split('-').map((part) => Number.parseInt(part, 10))
+
+  if (!year || !month || !day) {
+    return snapshotDate
+  }
+
+  try {
+    return new Intl.DateTimeFormat(locale, { dateStyle: 'medium' }).format(new Date(year, month - 1, day))
+  } catch (formatError) {
+    console.error('Unable to format snapshot date', formatError)
+    return snapshotDate
+  }
 }
@@ -0,0 +1,33 @@
+import type { PositionGroup, PositionUnit } from '../../types/positions'
+import type { Player } from '../../types/roster'
+
+export const POSITION_UNIT_LABELS: Record<PositionUnit, string> = {
+  offense: 'Offense',
+  defense: 'Defense',
+  specialTeams: 'Special teams',
+}
+
+export const POSITION_UNITS: PositionUnit[] = ['offense', 'defense', 'specialTeams']
+
+export const POSITION_GROUPS: PositionGroup[] = [
+  { key: 'QB', label: 'Quarterbacks', unit: 'offense', positions: ['QB'] },
+  { key: 'RB', label: 'Running backs', unit: 'offense', positions: ['RB', 'TB', 'FB', 'HB'] },
+  { key: 'WR', label: 'Receivers', unit: 'offense', positions: ['WR', 'SB'] },
+  { key: 'TE', label: 'Tight ends', unit: 'offense', positions: ['TE'] },
+  { key: 'OL', label: 'Offensive line', unit: 'offense', positions: ['OL', 'OT', 'OG', 'T', 'G', 'C', 'IOL'] },
+  { key: 'DL', label: 'Defensive line', unit: 'defense', positions: ['DL', 'DE', 'DT', 'NT', 'EDGE'] },
+  { key: 'LB', label: 'Linebackers', unit: 'defense', positions: ['LB', 'ILB', 'OLB', 'MLB', 'WLB', 'SLB'] },
+  { key: 'DB', label: 'Defensive backs', unit: 'defense', positions: ['DB', 'CB', 'S', 'SS', 'FS', 'NB', 'SAF'] },
+  { key: 'ST', label: 'Specialists', unit: 'specialTeams', positions: ['PK', 'K', 'P', 'LS', 'KR', 'PR'] },
+  // Athletes without a set position are listed with the offense.
+  { key: 'ATH', label: 'Athletes', unit: 'offense', positions: ['ATH'] },
+]
+
+const GROUPS_BY_POSITION = new Map(
+  POSITION_GROUPS.flatMap((group) => group.positions.map((position) => [position, group] as const)),
+)
+
+const FALLBACK_GROUP = POSITION_GROUPS.find((group) => group.key === 'ATH') as PositionGroup
+
+export const getPositionGroup = (player: Player): PositionGroup =>
+  GROUPS_BY_POSITION.get((player.positionAbbreviation ?? player.position).toUpperCase()) ?? FALLBACK_GROUP
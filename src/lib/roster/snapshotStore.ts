@@ -0,0 +1,189 @@
+import type { RosterSnapshot, RosterSnapshotSummary } from '../../types/roster'
+import { DEFAULT_TEAM_ID, ROSTER_STORAGE_KEY, buildRosterStorageKey } from './constants'
+import { activeRosterSource, scopeStorageKey } from '../sources/activeSource'
+import { migrateRosterSnapshot } from './snapshots'
+
+const DATABASE_NAME = 'iu-football-gameday'
+const DATABASE_VERSION = 1
+const SNAPSHOT_STORE = 'rosterSnapshots'
+const TEAM_UPDATED_INDEX = 'teamUpdatedAt'
+
+const MAX_SNAPSHOTS_PER_TEAM = 120
+
+let databasePromise: Promise<IDBDatabase> | null = null
+const snapshotListeners = new Set<(teamId: string) => void>()
+
+export const subscribeToRosterSnapshots = (listener: (teamId: string) => void) => {
+  snapshotListeners.add(listener)
+
+  return () => {
+    snapshotListeners.delete(listener)
+  }
+}
+
+const requestToPromise = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'))
+  }
+
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(scopeStorageKey(DATABASE_NAME), DATABASE_VERSION)
+
+      request.onupgradeneeded = () => {
+        const database = request.result
+
+        if (!database.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          const store = database.createObjectStore(SNAPSHOT_STORE, { keyPath: 'key' })
+          store.createIndex(TEAM_UPDATED_INDEX, ['teamId', 'updatedAt'])
+        }
+      }
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).catch((error: unknown) => {
+      databasePromise = null
+      throw error
+    })
+  }
+
+  return databasePromise
+}
+
+const teamRange = (teamId: string) =>
+  IDBKeyRange.bound([teamId, Number.NEGATIVE_INFINITY], [teamId, Number.POSITIVE_INFINITY])
+
+/**
+ * Re-saves records that `migrateRosterSnapshot` upgraded so migrations only run once per record.
+ */
+const readSnapshot = async (database: IDBDatabase, raw: unknown, teamId: string) => {
+  const snapshot = migrateRosterSnapshot(raw, teamId)
+  const storedVersion = (raw as { schemaVersion?: unknown } | null)?.schemaVersion
+
+  if (snapshot && storedVersion !== snapshot.schemaVersion) {
+    const transaction = database.transaction(SNAPSHOT_STORE, 'readwrite')
+    transaction.objectStore(SNAPSHOT_STORE).put(snapshot)
+    await transactionDone(transaction)
+  }
+
+  return snapshot
+}
+
+/**
+ * Moves the old single-blob localStorage cache into IndexedDB the first time a team is opened.
+ */
+const importLegacyCache = async (database: IDBDatabase, teamId: string) => {
+  // The legacy cache only ever held live ESPN data.
+  if (typeof window === 'undefined' || activeRosterSource.id !== 'espn') {
+    return
+  }
+
+  const legacyKeys = [buildRosterStorageKey(teamId)]
+  if (teamId === DEFAULT_TEAM_ID) {
+    legacyKeys.push(ROSTER_STORAGE_KEY)
+  }
+
+  for (const legacyKey of legacyKeys) {
+    const raw = window.localStorage.getItem(legacyKey)
+
+    if (!raw) {
+      continue
+    }
+
+    try {
+      const snapshot = migrateRosterSnapshot(JSON.parse(raw), teamId)
+
+      if (snapshot) {
+        const transaction = database.transaction(SNAPSHOT_STORE, 'readwrite')
+        const store = transaction.objectStore(SNAPSHOT_STORE)
+        const existing = await requestToPromise(store.get(snapshot.key))
+
+        if (!existing) {
+          store.put(snapshot)
+        }
+
+        await transactionDone(transaction)
+      }
+
+      window.localStorage.removeItem(legacyKey)
+    } catch (importError) {
+      console.error('Unable to import cached roster', importError)
+    }
+  }
+}
+
+export const loadLatestRosterSnapshot = async (teamId: string): Promise<RosterSnapshot | null> => {
+  const database = await openDatabase()
+  await importLegacyCache(database, teamId)
+
+  const transaction = database.transaction(SNAPSHOT_STORE, 'readonly')
+  const index = transaction.objectStore(SNAPSHOT_STORE).index(TEAM_UPDATED_INDEX)
+  const cursor = await requestToPromise(index.openCursor(teamRange(teamId), 'prev'))
+  const raw: unknown = cursor?.value ?? null
+
+  return raw ? readSnapshot(database, raw, teamId) : null
+}
+
+export const loadRosterSnapshot = async (teamId: string, key: string): Promise<RosterSnapshot | null> => {
+  const database = await openDatabase()
+  const transaction = database.transaction(SNAPSHOT_STORE, 'readonly')
+  const raw: unknown = await requestToPromise(transaction.objectStore(SNAPSHOT_STORE).get(key))
+
+  return raw ? readSnapshot(database, raw, teamId) : null
+}
+
+export const listRosterSnapshots = async (teamId: string): Promise<RosterSnapshotSummary[]> => {
+  const database = await openDatabase()
+  const transaction = database.transaction(SNAPSHOT_STORE, 'readonly')
+  const index = transaction.objectStore(SNAPSHOT_STORE).index(TEAM_UPDATED_INDEX)
+  const records: unknown[] = await requestToPromise(index.getAll(teamRange(teamId)))
+
+  return records
+    .map((record) => migrateRosterSnapshot(record, teamId))
+    .filter((snapshot) => snapshot !== null)
+    .map((snapshot) => ({
+      key: snapshot.key,
+      snapshotDate: snapshot.snapshotDate,
+      updatedAt: snapshot.updatedAt,
+      playerCount: snapshot.players.length,
+    }))
+    .reverse()
+}
+
+/**
+ * Stores the snapshot (one per team per calendar day, later loads overwrite earlier ones) and prunes
+ * the oldest entries beyond `MAX_SNAPSHOTS_PER_TEAM`.
+ */
+export const saveRosterSnapshot = async (snapshot: RosterSnapshot): Promise<void> => {
+  const database = await openDatabase()
+  const transaction = database.transaction(SNAPSHOT_STORE, 'readwrite')
+  const store = transaction.objectStore(SNAPSHOT_STORE)
+
+  store.put(snapshot)
+
+  const keys = await requestToPromise(store.index(TEAM_UPDATED_INDEX).getAllKeys(teamRange(snapshot.teamId)))
+  const excess = keys.length - MAX_SNAPSHOTS_PER_TEAM
+
+  for (const key of keys.slice(0, Math.max(excess, 0))) {
+    store.delete(key)
+  }
+
+  await transactionDone(transaction)
+
+  for (const listener of snapshotListeners) {
+    listener(snapshot.teamId)
+  }
+}
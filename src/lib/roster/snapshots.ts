@@ -0,0 +1,115 @@
+import type { RosterSnapshot } from '../../types/roster'
+import { normalizePlayerRecord, normalizeRecordStats, normalizeTeamMeta } from './data'
+import { normalizeRosterDiff } from './diff'
+
+/**
+ * Version of the stored snapshot shape. Bump it whenever `Player`, `TeamMeta` or `RosterSnapshot`
+ * change in a way older records can't satisfy, and register a migration from the previous version.
+ *
+ * 1 — the unversioned `CachedRoster` blob that used to live in localStorage.
+ * 2 — IndexedDB snapshots keyed by team and calendar day.
+ */
+export const ROSTER_SCHEMA_VERSION = 2
+
+type SnapshotRecord = Record<string, unknown>
+type SnapshotMigration = (record: SnapshotRecord, teamId: string) => SnapshotRecord
+
+const toSnapshotDate = (timestamp: number) => {
+  const date = new Date(timestamp)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export const buildSnapshotKey = (teamId: string, snapshotDate: string) => `${teamId}:${snapshotDate}`
+
+const SNAPSHOT_MIGRATIONS: Record<number, SnapshotMigration> = {
+  1: (record, teamId) => {
+    const updatedAt =
+      typeof record.updatedAt === 'number' && Number.isFinite(record.updatedAt) ? record.updatedAt : Date.now()
+    const snapshotDate = toSnapshotDate(updatedAt)
+
+    return {
+      ...record,
+      key: buildSnapshotKey(teamId, snapshotDate),
+      teamId,
+      snapshotDate,
+      updatedAt,
+      changes: record.changes ?? null,
+      schemaVersion: 2,
+    }
+  },
+}
+
+const readSchemaVersion = (record: SnapshotRecord) =>
+  typeof record.schemaVersion === 'number' && Number.isInteger(record.schemaVersion) ? record.schemaVersion : 1
+
+/**
+ * Brings any stored snapshot (including legacy localStorage caches) up to `ROSTER_SCHEMA_VERSION`
+ * and normalizes its contents. Returns `null` when the record can't be recovered.
+ */
+export const migrateRosterSnapshot = (value: unknown, teamId: string): RosterSnapshot | null => {
+  if (!value || typeof value !== 'object') {
+    return null
+  }
+
+  let record = value as SnapshotRecord
+  let version = readSchemaVersion(record)
+
+  if (version > ROSTER_SCHEMA_VERSION) {
+    console.error(`Roster snapshot schema ${version} is newer than supported version ${ROSTER_SCHEMA_VERSION}`)
+    return null
+  }
+
+  while (version < ROSTER_SCHEMA_VERSION) {
+    const migrate = SNAPSHOT_MIGRATIONS[version]
+
+    if (!migrate) {
+      console.error(`No roster snapshot migration registered for schema ${version}`)
+      return null
+    }
+
+    record = migrate(record, teamId)
+    version = readSchemaVersion(record)
+  }
+
+  const players = Array.isArray(record.players)
+    ? record.players.map(normalizePlayerRecord).filter((player) => player !== null)
+    : []
+
+  if (!players.length || typeof record.key !== 'string' || typeof record.snapshotDate !== 'string') {
+    return null
+  }
+
+  const summaryCandidate = typeof record.recordSummary === 'string' ? record.recordSummary.trim() : ''
+
+  return {
+    key: record.key,
+    teamId: typeof record.teamId === 'string' ? record.teamId : teamId,
+    schemaVersion: ROSTER_SCHEMA_VERSION,
+    snapshotDate: record.snapshotDate,
+    updatedAt: typeof record.updatedAt === 'number' ? record.updatedAt : 0,
+    players,
+    recordSummary: summaryCandidate || null,
+    recordStats: normalizeRecordStats(record.recordStats),
+    teamMeta: normalizeTeamMeta(record.teamMeta),
+    changes: normalizeRosterDiff(record.changes),
+  }
+}
+
+export const createRosterSnapshot = (
+  teamId: string,
+  updatedAt: number,
+  data: Pick<RosterSnapshot, 'players' | 'recordSummary' | 'recordStats' | 'teamMeta' | 'changes'>,
+): RosterSnapshot => {
+  const snapshotDate = toSnapshotDate(updatedAt)
+
+  return {
+    key: buildSnapshotKey(teamId, snapshotDate),
+    teamId,
+    schemaVersion: ROSTER_SCHEMA_VERSION,
+    snapshotDate,
+    updatedAt,
+    ...data,
+  }
+}
@@ -0,0 +1,55 @@
+import type { MessageKey } from '../../types/i18n'
+import type { SortConfig, SortDirection, SortKey } from '../../types/roster'
+import { ROSTER_COLUMNS } from './columns'
+
+export const MAX_SORT_KEYS = 3
+
+export const SORT_KEY_LABELS = Object.fromEntries(
+  ROSTER_COLUMNS.map((column) => [column.key, column.label]),
+) as Record<SortKey, MessageKey>
+
+export const SORT_KEYS = ROSTER_COLUMNS.map((column) => column.key)
+
+const flipDirection = (direction: SortDirection): SortDirection => (direction === 'asc' ? 'desc' : 'asc')
+
+/**
+ * Header-click behaviour. A plain click sorts by `key` alone, flipping its direction if it was already
+ * the primary key. An additive (shift) click appends `key` as the next tie-breaker, or cycles an
+ * existing one ascending → descending → removed.
+ */
+export const toggleSort = (config: SortConfig, key: SortKey, additive = false): SortConfig => {
+  const existing = config.find((criterion) => criterion.key === key)
+
+  if (!additive) {
+    const isPrimary = config[0]?.key === key
+    return [{ key, direction: isPrimary && existing ? flipDirection(existing.direction) : 'asc' }]
+  }
+
+  if (!existing) {
+    return config.length >= MAX_SORT_KEYS ? config : [...config, { key, direction: 'asc' }]
+  }
+
+  if (existing.direction === 'desc' && config.length > 1) {
+    return config.filter((criterion) => criterion.key !== key)
+  }
+
+  return config.map((criterion) =>
+    criterion.key === key ? { key, direction: flipDirection(criterion.direction) } : criterion,
+  )
+}
+
+export const setSortDirection = (config: SortConfig, key: SortKey, direction: SortDirection): SortConfig =>
+  config.map((criterion) => (criterion.key === key ? { key, direction } : criterion))
+
+export const removeSortKey = (config: SortConfig, key: SortKey): SortConfig =>
+  config.length > 1 ? config.filter((criterion) => criterion.key !== key) : config
+
+/** Swaps the primary key while keeping the tie-breakers that don't clash with it. */
+export const setPrimarySortKey = (config: SortConfig, key: SortKey): SortConfig => {
+  const current = config.find((criterion) => criterion.key === key)
+
+  return [
+    { key, direction: current?.direction ?? 'asc' },
+    ...config.slice(1).filter((criterion) => criterion.key !== key),
+  ]
+}
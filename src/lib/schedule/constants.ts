@@ -0,0 +1,6 @@
+export const SCHEDULE_STORAGE_KEY = 'iu-football-schedule-cache'
+
+export const buildScheduleEndpoint = (teamId: string) =>
+  `https://site.api.espn.com/apis/site/v2/sports/football/college-football/teams/${encodeURIComponent(teamId)}/schedule`
+
+export const buildScheduleStorageKey = (teamId: string) => `${SCHEDULE_STORAGE_KEY}:${teamId}`
@@ -0,0 +1,200 @@
+import type { GameResult, ScheduleGame } from '../../types/roster'
+import { toNumberOrNull, toStringOrNull, toTrimmedString, trimStringOrNull } from '../roster/data'
+
+const GAME_RESULTS: GameResult[] = ['W', 'L', 'T']
+
+export const isValidScheduleGame = (value: unknown): value is ScheduleGame => {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+
+  const record = value as Record<string, unknown>
+
+  return (
+    typeof record.id === 'string' &&
+    typeof record.isCompleted === 'boolean' &&
+    Array.isArray(record.broadcasts) &&
+    (record.result === null || GAME_RESULTS.includes(record.result as GameResult))
+  )
+}
+
+// ESPN reports scores as `{ value, displayValue }` on the schedule endpoint and as plain strings elsewhere.
+const parseScore = (value: unknown): number | null => {
+  if (typeof value === 'number') {
+    return toNumberOrNull(value)
+  }
+
+  if (typeof value === 'string') {
+    const numeric = Number.parseFloat(value)
+    return Number.isFinite(numeric) ? numeric : null
+  }
+
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    return toNumberOrNull(record.value) ?? parseScore(record.displayValue)
+  }
+
+  return null
+}
+
+const readCompetitorId = (competitor: Record<string, unknown>): string | null => {
+  const teamRecord = competitor.team as Record<string, unknown> | undefined
+  return toTrimmedString(teamRecord?.id) ?? toTrimmedString(competitor.id)
+}
+
+const determineResult = (
+  ourCompetitor: Record<string, unknown> | null,
+  teamScore: number | null,
+  opponentScore: number | null,
+): GameResult | null => {
+  if (ourCompetitor && typeof ourCompetitor.winner === 'boolean') {
+    if (ourCompetitor.winner) {
+      return 'W'
+    }
+
+    if (teamScore !== null && teamScore === opponentScore) {
+      return 'T'
+    }
+
+    return 'L'
+  }
+
+  if (teamScore === null || opponentScore === null) {
+    return null
+  }
+
+  if (teamScore === opponentScore) {
+    return 'T'
+  }
+
+  return teamScore > opponentScore ? 'W' : 'L'
+}
+
+export const parseScheduleGame = (value: unknown, teamId: string): ScheduleGame | null => {
+  if (!value || typeof value !== 'object') {
+    return null
+  }
+
+  const source = value as Record<string, unknown>
+  const id = toTrimmedString(source.id)
+
+  if (!id) {
+    return null
+  }
+
+  const competitions = Array.isArray(source.competitions) ? source.competitions : []
+  const competition = (competitions[0] && typeof competitions[0] === 'object' ? competitions[0] : {}) as Record<
+    string,
+    unknown
+  >
+  const competitors = (Array.isArray(competition.competitors) ? competition.competitors : []).filter(
+    (entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object',
+  )
+
+  const ourCompetitor = competitors.find((entry) => readCompetitorId(entry) === teamId) ?? null
+  const opponentCompetitor = competitors.find((entry) => entry !== ourCompetitor) ?? null
+  const opponentTeam = opponentCompetitor?.team as Record<string, unknown> | undefined
+  const opponentLogos = Array.isArray(opponentTeam?.logos) ? opponentTeam.logos : []
+  const opponentLogoRecord = opponentLogos.find((logo) => logo && typeof logo === 'object') as
+    | Record<string, unknown>
+    | undefined
+  const opponentRankRecord = opponentCompetitor?.curatedRank as Record<string, unknown> | undefined
+  const opponentRank = toNumberOrNull(opponentRankRecord?.current)
+
+  const ourHomeAway = trimStringOrNull(toStringOrNull(ourCompetitor?.homeAway))
+  const opponentHomeAway = trimStringOrNull(toStringOrNull(opponentCompetitor?.homeAway))
+  let isHome: boolean | null = null
+  if (ourHomeAway) {
+    isHome = ourHomeAway === 'home'
+  } else if (opponentHomeAway) {
+    isHome = opponentHomeAway !== 'home'
+  }
+
+  const status = competition.status as Record<string, unknown> | undefined
+  const statusType = status?.type as Record<string, unknown> | undefined
+  const isCompleted =
+    statusType?.completed === true || trimStringOrNull(toStringOrNull(statusType?.state)) === 'post'
+
+  const teamScore = isCompleted ? parseScore(ourCompetitor?.score) : null
+  const opponentScore = isCompleted ? parseScore(opponentCompetitor?.score) : null
+
+  const venue = competition.venue as Record<string, unknown> | undefined
+  const venueAddress = venue?.address as Record<string, unknown> | undefined
+
+  const broadcasts: string[] = []
+  const broadcastRecords = Array.isArray(competition.broadcasts) ? competition.broadcasts : []
+  for (const broadcast of broadcastRecords) {
+    if (!broadcast || typeof broadcast !== 'object') {
+      continue
+    }
+
+    const media = (broadcast as Record<string, unknown>).media as Record<string, unknown> | undefined
+    const mediaName =
+      trimStringOrNull(toStringOrNull(media?.shortName)) ?? trimStringOrNull(toStringOrNull(media?.name))
+
+    if (mediaName && !broadcasts.includes(mediaName)) {
+      broadcasts.push(mediaName)
+    }
+  }
+
+  const season = source.season as Record<string, unknown> | undefined
+  const seasonType = source.seasonType as Record<string, unknown> | undefined
+  const week = source.week as Record<string, unknown> | undefined
+
+  return {
+    id,
+    name: trimStringOrNull(toStringOrNull(source.name)),
+    shortName: trimStringOrNull(toStringOrNull(source.shortName)),
+    date: trimStringOrNull(toStringOrNull(source.date)) ?? trimStringOrNull(toStringOrNull(competition.date)),
+    opponent:
+      trimStringOrNull(toStringOrNull(opponentTeam?.displayName)) ??
+      trimStringOrNull(toStringOrNull(opponentTeam?.shortDisplayName)) ??
+      trimStringOrNull(toStringOrNull(opponentTeam?.location)),
+    opponentId: opponentCompetitor ? readCompetitorId(opponentCompetitor) : null,
+    opponentAbbreviation: trimStringOrNull(toStringOrNull(opponentTeam?.abbreviation)),
+    // ESPN uses 99 for unranked teams.
+    opponentRank: opponentRank !== null && opponentRank < 99 ? opponentRank : null,
+    opponentLogo: trimStringOrNull(toStringOrNull(opponentLogoRecord?.href)),
+    isHome,
+    isNeutralSite: competition.neutralSite === true,
+    venue: trimStringOrNull(toStringOrNull(venue?.fullName)),
+    venueCity: trimStringOrNull(toStringOrNull(venueAddress?.city)),
+    venueState: trimStringOrNull(toStringOrNull(venueAddress?.state)),
+    seasonText:
+      trimStringOrNull(toStringOrNull(seasonType?.name)) ??
+      trimStringOrNull(toStringOrNull(season?.displayName)),
+    weekText: trimStringOrNull(toStringOrNull(week?.text)),
+    broadcasts,
+    isCompleted,
+    teamScore,
+    opponentScore,
+    result: isCompleted ? determineResult(ourCompetitor, teamScore, opponentScore) : null,
+    statusDetail:
+      trimStringOrNull(toStringOrNull(statusType?.shortDetail)) ??
+      trimStringOrNull(toStringOrNull(statusType?.detail)),
+  }
+}
+
+export const sortGamesByDate = (games: ScheduleGame[]): ScheduleGame[] =>
+  [...games].sort((a, b) => {
+    const timeA = a.date ? Date.parse(a.date) : Number.NaN
+    const timeB = b.date ? Date.parse(b.date) : Number.NaN
+
+    if (Number.isNaN(timeA) && Number.isNaN(timeB)) {
+      return 0
+    }
+
+    if (Number.isNaN(timeA)) return 1
+    if (Number.isNaN(timeB)) return -1
+    return timeA - timeB
+  })
+
+export const parseSchedulePayload = (payload: unknown, teamId: string): ScheduleGame[] => {
+  const events = (payload as { events?: unknown[] })?.events ?? []
+
+  const games = (Array.isArray(events) ? events : [])
+    .map((event) => parseScheduleGame(event, teamId))
+    .filter((game): game is ScheduleGame => game !== null)
+
+  return sortGamesByDate(games)
+}
@@ -0,0 +1,78 @@
+import type { ScheduleGame } from '../../types/roster'
+
+export const formatScheduleGame = (game: ScheduleGame) => {
+  let formattedDate: string | null = null
+
+  if (game.date) {
+    try {
+      formattedDate = new Intl.DateTimeFormat(undefined, {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        ...(game.isCompleted ? {} : { hour: 'numeric', minute: '2-digit' }),
+      }).format(new Date(game.date))
+    } catch (formatError) {
+      console.error('Unable to format schedule date', formatError)
+      formattedDate = new Date(game.date).toLocaleString()
+    }
+  }
+
+  let opponentLine = game.opponent ?? 'TBD'
+  if (game.opponentRank !== null) {
+    opponentLine = `#${game.opponentRank} ${opponentLine}`
+  }
+
+  const matchupPrefix = game.isHome === false && !game.isNeutralSite ? 'at' : 'vs'
+
+  const locationDetail = [game.venueCity, game.venueState].filter(Boolean).join(', ') || null
+  const locationText =
+    game.venue && locationDetail ? `${game.venue} • ${locationDetail}` : game.venue ?? locationDetail
+
+  const homeAwayDescriptor = game.isNeutralSite
+    ? 'Neutral site'
+    : game.isHome === null
+      ? null
+      : game.isHome
+        ? 'Home'
+        : 'Away'
+
+  const scoreText =
+    game.teamScore !== null && game.opponentScore !== null ? `${game.teamScore}-${game.opponentScore}` : null
+
+  return {
+    id: game.id,
+    opponent: opponentLine,
+    matchupPrefix,
+    opponentLogo: game.opponentLogo,
+    formattedDate,
+    locationText,
+    homeAwayDescriptor,
+    weekText: game.weekText,
+    broadcasts: game.broadcasts,
+    result: game.result,
+    scoreText,
+    resultText: game.result && scoreText ? `${game.result} ${scoreText}` : game.statusDetail,
+    statusText: game.statusDetail,
+  }
+}
+
+export type FormattedScheduleGame = ReturnType<typeof formatScheduleGame>
+
+export const splitSchedule = (games: ScheduleGame[]) => ({
+  completed: games.filter((game) => game.isCompleted),
+  upcoming: games.filter((game) => !game.isCompleted),
+})
+
+export const summarizeScheduleResults = (games: ScheduleGame[]): string | null => {
+  const completed = games.filter((game) => game.result !== null)
+
+  if (!completed.length) {
+    return null
+  }
+
+  const wins = completed.filter((game) => game.result === 'W').length
+  const losses = completed.filter((game) => game.result === 'L').length
+  const ties = completed.filter((game) => game.result === 'T').length
+
+  return ties > 0 ? `${wins}-${losses}-${ties}` : `${wins}-${losses}`
+}
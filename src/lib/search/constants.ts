@@ -0,0 +1,68 @@
+import type { SearchComparator, SearchFlag, SearchQueryField } from '../../types/search'
+
+export const SEARCH_FIELD_ALIASES: Record<string, SearchQueryField> = {
+  name: 'name',
+  pos: 'position',
+  position: 'position',
+  class: 'class',
+  exp: 'class',
+  experience: 'class',
+  years: 'years',
+  ht: 'height',
+  height: 'height',
+  wt: 'weight',
+  weight: 'weight',
+  no: 'jersey',
+  num: 'jersey',
+  number: 'jersey',
+  jersey: 'jersey',
+  st: 'state',
+  state: 'state',
+  country: 'country',
+  city: 'hometown',
+  from: 'hometown',
+  hometown: 'hometown',
+  status: 'status',
+  is: 'flag',
+}
+
+export const NUMERIC_SEARCH_FIELDS = new Set<SearchQueryField>(['years', 'height', 'weight', 'jersey'])
+
+export const SEARCH_COMPARATORS: SearchComparator[] = [':', '=', '>=', '<=', '>', '<']
+
+export const SEARCH_FLAGS: SearchFlag[] = ['injured', 'active', 'inactive']
+
+export const SEARCH_FLAG_DESCRIPTIONS: Record<SearchFlag, string> = {
+  injured: 'Players on the injury report',
+  active: 'Active players',
+  inactive: 'Inactive players',
+}
+
+/** The alias offered by autocomplete for each field, with a short example. */
+export const SEARCH_FIELD_HINTS: Array<{ alias: string; comparator: SearchComparator; description: string }> = [
+  { alias: 'pos', comparator: ':', description: 'Position, e.g. pos:WR or pos:QB,RB' },
+  { alias: 'class', comparator: ':', description: 'Class, e.g. class:SR' },
+  { alias: 'height', comparator: '>', description: "Height, e.g. height>6'2" },
+  { alias: 'weight', comparator: '<=', description: 'Weight in pounds, e.g. weight<=200' },
+  { alias: 'number', comparator: ':', description: 'Jersey number, e.g. number<10' },
+  { alias: 'state', comparator: ':', description: 'Birth state, e.g. state:IN' },
+  { alias: 'country', comparator: ':', description: 'Birth country, e.g. country:Nigeria' },
+  { alias: 'hometown', comparator: ':', description: 'Hometown text, e.g. hometown:Chicago' },
+  { alias: 'name', comparator: ':', description: 'Player name' },
+  { alias: 'status', comparator: ':', description: 'Roster status, e.g. status:active' },
+  { alias: 'years', comparator: '>=', description: 'Years of experience, e.g. years>=3' },
+]
+
+// ESPN class abbreviations, used when a payload only carries the spelled-out class.
+export const CLASS_ABBREVIATIONS: Record<string, string> = {
+  fr: 'freshman',
+  so: 'sophomore',
+  jr: 'junior',
+  sr: 'senior',
+  gr: 'graduate',
+}
+
+export const MAX_SEARCH_HINTS = 6
+
+/** How long the result count waits for typing to pause before it's announced to screen readers. */
+export const RESULT_COUNT_ANNOUNCEMENT_DELAY_MS = 600
@@ -0,0 +1,189 @@
+import type { Player } from '../../types/roster'
+
+export type MatchRange = [start: number, end: number]
+
+/** How strongly a free-text term matched a player; higher tiers rank first. */
+export const SEARCH_MATCH_TIERS = {
+  exact: 3,
+  word: 2,
+  substring: 1,
+  fuzzy: 0,
+} as const
+
+const COMBINING_MARKS = /\p{M}/gu
+const WORD_PATTERN = /[\p{L}\p{N}'’]+/gu
+
+/** Lower-cases and strips accents so "Nuñez" and "nunez" compare equal. */
+export const foldText = (value: string) => value.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase()
+
+/**
+ * Folds `value` one character at a time, returning the folded text and, for each folded character,
+ * the index of the original character it came from, so matches can be mapped back for highlighting.
+ */
+const foldWithIndexMap = (value: string) => {
+  let folded = ''
+  const indexMap: number[] = []
+
+  for (let index = 0; index < value.length; index += 1) {
+    const piece = foldText(value[index])
+
+    for (let offset = 0; offset < piece.length; offset += 1) {
+      folded += piece[offset]
+      indexMap.push(index)
+    }
+  }
+
+  return { folded, indexMap }
+}
+
+/** Typos tolerated for a term of this length: none under four characters, then one, then two. */
+export const maxTyposFor = (length: number) => (length < 4 ? 0 : length < 7 ? 1 : 2)
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions), giving up early once
+ * the distance is known to exceed `limit`.
+ */
+export const editDistance = (a: string, b: string, limit: number) => {
+  if (Math.abs(a.length - b.length) > limit) {
+    return limit + 1
+  }
+
+  let previousRow: number[] = []
+  let currentRow = Array.from({ length: b.length + 1 }, (_, index) => index)
+
+  for (let i = 1; i <= a.length; i += 1) {
+    const beforePrevious = previousRow
+    previousRow = currentRow
+    currentRow = [i]
+    let rowMinimum = i
+
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previousRow[j] + 1, currentRow[j - 1] + 1, previousRow[j - 1] + cost)
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1)
+      }
+
+      currentRow[j] = value
+      rowMinimum = Math.min(rowMinimum, value)
+    }
+
+    if (rowMinimum > limit) {
+      return limit + 1
+    }
+  }
+
+  return currentRow[b.length]
+}
+
+export const isFuzzyWordMatch = (word: string, term: string) => {
+  const limit = maxTyposFor(term.length)
+  return limit > 0 && editDistance(word, term, limit) <= limit
+}
+
+const splitWords = (value: string | null) => (value ? (foldText(value).match(WORD_PATTERN) ?? []) : [])
+
+const nameWords = (player: Player) =>
+  [player.displayName, player.fullName, player.firstName, player.lastName].flatMap(splitWords)
+
+export const buildSearchableText = (player: Player) =>
+  foldText(
+    [
+      player.displayName,
+      player.fullName,
+      player.firstName,
+      player.lastName,
+      player.jersey,
+      player.position,
+      player.positionAbbreviation,
+      player.experience,
+      player.hometown,
+      player.status,
+    ]
+      .filter(Boolean)
+      .join(' '),
+  )
+
+/**
+ * Scores one folded free-text term against a player, or returns `null` when it does not match at all.
+ * Exact jersey and last-name hits score highest, then whole or leading name words, then substrings
+ * anywhere, then near-misses within the typo allowance.
+ */
+export const scoreTextTerm = (player: Player, term: string, searchableText = buildSearchableText(player)) => {
+  if (player.jersey === term || (player.lastName && foldText(player.lastName) === term)) {
+    return SEARCH_MATCH_TIERS.exact
+  }
+
+  const words = nameWords(player)
+
+  if (words.some((word) => word.startsWith(term))) {
+    return SEARCH_MATCH_TIERS.word
+  }
+
+  if (searchableText.includes(term)) {
+    return SEARCH_MATCH_TIERS.substring
+  }
+
+  const fuzzyCandidates = [...words, ...splitWords(player.hometown), ...splitWords(player.position)]
+
+  if (fuzzyCandidates.some((word) => isFuzzyWordMatch(word, term))) {
+    return SEARCH_MATCH_TIERS.fuzzy
+  }
+
+  return null
+}
+
+const mergeRanges = (ranges: MatchRange[]): MatchRange[] => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  const merged: MatchRange[] = []
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1]
+
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([range[0], range[1]])
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Ranges of `text` matched by any of the folded `terms`: every substring hit, or the whole word for a
+ * fuzzy hit. Ranges index into the original (unfolded) text.
+ */
+export const findMatchRanges = (text: string, terms: string[]): MatchRange[] => {
+  if (!text || !terms.length) {
+    return []
+  }
+
+  const { folded, indexMap } = foldWithIndexMap(text)
+  const ranges: MatchRange[] = []
+  const toOriginal = (start: number, end: number): MatchRange => [indexMap[start], indexMap[end - 1] + 1]
+
+  for (const term of terms) {
+    let found = false
+    let position = folded.indexOf(term)
+
+    while (term && position !== -1) {
+      found = true
+      ranges.push(toOriginal(position, position + term.length))
+      position = folded.indexOf(term, position + term.length)
+    }
+
+    if (found) {
+      continue
+    }
+
+    for (const match of folded.matchAll(WORD_PATTERN)) {
+      if (match.index !== undefined && isFuzzyWordMatch(match[0], term)) {
+        ranges.push(toOriginal(match.index, match.index + match[0].length))
+      }
+    }
+  }
+
+  return mergeRanges(ranges)
+}
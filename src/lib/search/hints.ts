@@ -0,0 +1,126 @@
+import type { Player } from '../../types/roster'
+import type { SearchFlag, SearchHint, SearchQueryField, SearchVocabulary } from '../../types/search'
+import {
+  MAX_SEARCH_HINTS,
+  SEARCH_FIELD_ALIASES,
+  SEARCH_FIELD_HINTS,
+  SEARCH_FLAG_DESCRIPTIONS,
+  SEARCH_FLAGS,
+} from './constants'
+import { tokenizeSearchQuery } from './query'
+
+const uniqueSorted = (values: Array<string | null>) =>
+  [...new Set(values.filter((value): value is string => Boolean(value)))].sort((a, b) => a.localeCompare(b))
+
+export const buildSearchVocabulary = (players: Player[]): SearchVocabulary => {
+  const classYears = new Map<string, number>()
+
+  for (const player of players) {
+    if (player.experienceAbbreviation && !classYears.has(player.experienceAbbreviation)) {
+      classYears.set(player.experienceAbbreviation, player.experienceYears ?? Number.MAX_SAFE_INTEGER)
+    }
+  }
+
+  return {
+    positions: uniqueSorted(players.map((player) => player.positionAbbreviation)),
+    classes: [...classYears.entries()].sort((a, b) => a[1] - b[1]).map(([abbreviation]) => abbreviation),
+    states: uniqueSorted(players.map((player) => player.birthState)),
+    countries: uniqueSorted(players.map((player) => player.birthCountry)),
+  }
+}
+
+const valuesForField = (field: SearchQueryField, vocabulary: SearchVocabulary): string[] => {
+  switch (field) {
+    case 'position':
+      return vocabulary.positions
+    case 'class':
+      return vocabulary.classes
+    case 'state':
+      return vocabulary.states
+    case 'country':
+      return vocabulary.countries
+    case 'flag':
+      return SEARCH_FLAGS
+    default:
+      return []
+  }
+}
+
+const quoteIfNeeded = (value: string) => (/\s/.test(value) ? `"${value}"` : value)
+
+/**
+ * Autocomplete for the token under construction at the end of the query: field names while typing
+ * a bare word, then known values (positions, classes, states…) once a field qualifier is present.
+ */
+export const getSearchHints = (query: string, vocabulary: SearchVocabulary): SearchHint[] => {
+  const tokens = tokenizeSearchQuery(query)
+  const lastToken = tokens[tokens.length - 1]
+
+  if (!lastToken || lastToken.end < query.length) {
+    if (query.trim()) {
+      return []
+    }
+
+    return [
+      ...SEARCH_FIELD_HINTS.slice(0, 4).map(({ alias, comparator, description }) => ({
+        label: `${alias}${comparator}`,
+        description,
+        completion: `${query}${alias}${comparator}`,
+      })),
+      { label: '-injured', description: 'Hide players on the injury report', completion: `${query}-injured ` },
+    ]
+  }
+
+  const prefix = query.slice(0, lastToken.start)
+  const negation = lastToken.text.startsWith('-') ? '-' : ''
+  const text = lastToken.text.slice(negation.length)
+  const fieldMatch = text.match(/^([a-z]+)(>=|<=|:|=|>|<)(.*)$/i)
+
+  if (fieldMatch) {
+    const [, alias, comparator, rawValue] = fieldMatch
+    const field = SEARCH_FIELD_ALIASES[alias.toLowerCase()]
+
+    if (!field || (comparator !== ':' && comparator !== '=')) {
+      return []
+    }
+
+    const parts = rawValue.split(',')
+    const partial = (parts.pop() ?? '').replace(/"/g, '').toLowerCase()
+    const chosen = parts.length ? `${parts.join(',')},` : ''
+    const chosenValues = new Set(parts.map((part) => part.toLowerCase()))
+
+    return valuesForField(field, vocabulary)
+      .filter((value) => value.toLowerCase().startsWith(partial) && !chosenValues.has(value.toLowerCase()))
+      .filter((value) => value.toLowerCase() !== partial)
+      .slice(0, MAX_SEARCH_HINTS)
+      .map((value) => ({
+        label: `${alias}${comparator}${chosen}${value}`,
+        description: field === 'flag' ? SEARCH_FLAG_DESCRIPTIONS[value as SearchFlag] : null,
+        completion: `${prefix}${negation}${alias}${comparator}${chosen}${quoteIfNeeded(value)} `,
+      }))
+  }
+
+  const partial = text.toLowerCase()
+
+  if (!/^[a-z]+$/.test(partial)) {
+    return []
+  }
+
+  const fieldHints: SearchHint[] = SEARCH_FIELD_HINTS.filter(({ alias }) => alias.startsWith(partial)).map(
+    ({ alias, comparator, description }) => ({
+      label: `${negation}${alias}${comparator}`,
+      description,
+      completion: `${prefix}${negation}${alias}${comparator}`,
+    }),
+  )
+
+  const flagHints: SearchHint[] = SEARCH_FLAGS.filter((flag) => flag.startsWith(partial) && flag !== partial).map(
+    (flag) => ({
+      label: `${negation}${flag}`,
+      description: SEARCH_FLAG_DESCRIPTIONS[flag],
+      completion: `${prefix}${negation}${flag} `,
+    }),
+  )
+
+  return [...fieldHints, ...flagHints].slice(0, MAX_SEARCH_HINTS)
+}
@@ -0,0 +1,339 @@
+import type { Player } from '../../types/roster'
+import type {
+  ParsedSearchQuery,
+  SearchComparator,
+  SearchFlag,
+  SearchQueryError,
+  SearchQueryField,
+  SearchTerm,
+} from '../../types/search'
+import { parseHeight, parseWeight } from '../roster/data'
+import { CLASS_ABBREVIATIONS, NUMERIC_SEARCH_FIELDS, SEARCH_FIELD_ALIASES, SEARCH_FLAGS } from './constants'
+import { buildSearchableText, foldText, scoreTextTerm } from './fuzzy'
+
+export type SearchToken = {
+  text: string
+  start: number
+  end: number
+  unterminatedQuote: boolean
+}
+
+const FIELD_TOKEN_PATTERN = /^([a-z]+)(>=|<=|:|=|>|<)(.*)$/i
+
+const NUMERIC_VALUE_EXAMPLES: Partial<Record<SearchQueryField, string>> = {
+  height: "a height like 6'2 or 74",
+  weight: 'a weight like 200',
+  jersey: 'a jersey number like 12',
+  years: 'a number of years like 3',
+}
+
+/**
+ * Splits on whitespace, keeping double-quoted phrases together. Single quotes are left alone because
+ * they appear in heights (`6'2`) and names (`O'Connor`).
+ */
+export const tokenizeSearchQuery = (query: string): SearchToken[] => {
+  const tokens: SearchToken[] = []
+  let index = 0
+
+  while (index < query.length) {
+    if (/\s/.test(query[index])) {
+      index += 1
+      continue
+    }
+
+    const start = index
+    let inQuote = false
+
+    while (index < query.length && (inQuote || !/\s/.test(query[index]))) {
+      if (query[index] === '"') {
+        inQuote = !inQuote
+      }
+
+      index += 1
+    }
+
+    tokens.push({ text: query.slice(start, index), start, end: index, unterminatedQuote: inQuote })
+  }
+
+  return tokens
+}
+
+const unquote = (value: string) => value.replace(/"/g, '').trim()
+
+const isSearchFlag = (value: string): value is SearchFlag => (SEARCH_FLAGS as string[]).includes(value)
+
+/**
+ * Reads the height side of a query: `6'2`, `6'2"`, `6-2`, `6ft2`, `6` (feet) or `74` (inches).
+ */
+export const parseHeightQuery = (value: string): number | null => {
+  const normalized = value.replace(/["\s]/g, '').replace(/ft|-/gi, "'")
+
+  if (/^\d+$/.test(normalized)) {
+    const number = Number.parseInt(normalized, 10)
+    return number > 8 ? number : number * 12
+  }
+
+  const match = normalized.match(/^\d+'(\d*)$/)
+
+  if (!match || (match[1] && Number.parseInt(match[1], 10) > 11)) {
+    return null
+  }
+
+  return parseHeight(normalized)
+}
+
+const parseNumericValue = (field: SearchQueryField, value: string): number | null => {
+  if (field === 'height') {
+    return parseHeightQuery(value)
+  }
+
+  if (field === 'weight') {
+    return /^\d+\s*(lbs?)?$/i.test(value) ? parseWeight(value) : null
+  }
+
+  return /^\d+$/.test(value) ? Number.parseInt(value, 10) : null
+}
+
+type TokenParseResult = { term: SearchTerm } | { error: string }
+
+const parseToken = (token: SearchToken): TokenParseResult => {
+  if (token.unterminatedQuote) {
+    return { error: 'Missing closing quote' }
+  }
+
+  let text = token.text
+  let negated = false
+
+  if (text.length > 1 && text.startsWith('-')) {
+    negated = true
+    text = text.slice(1)
+  }
+
+  const match = text.match(FIELD_TOKEN_PATTERN)
+
+  if (!match) {
+    const value = foldText(unquote(text))
+
+    if (!text.includes('"') && isSearchFlag(value)) {
+      return { term: { kind: 'flag', flag: value, negated } }
+    }
+
+    return value ? { term: { kind: 'text', value, negated } } : { error: 'Empty search term' }
+  }
+
+  const [, alias, comparatorText, rawValue] = match
+  const field = SEARCH_FIELD_ALIASES[alias.toLowerCase()]
+  const comparator = comparatorText as SearchComparator
+  const isEquality = comparator === ':' || comparator === '='
+
+  if (!field) {
+    return { error: `Unknown field "${alias}". Try pos, class, height, weight, number, state or is` }
+  }
+
+  const value = unquote(rawValue)
+
+  if (!value) {
+    return { error: `${alias} needs a value` }
+  }
+
+  if (field === 'flag') {
+    const flag = value.toLowerCase()
+
+    if (!isEquality || !isSearchFlag(flag)) {
+      return { error: `Use ${SEARCH_FLAGS.map((entry) => `is:${entry}`).join(', ')}` }
+    }
+
+    return { term: { kind: 'flag', flag, negated } }
+  }
+
+  const isNumeric = NUMERIC_SEARCH_FIELDS.has(field)
+
+  if (!isEquality && !isNumeric) {
+    return { error: `${alias} can't be compared with "${comparator}"` }
+  }
+
+  const values = value
+    .split(',')
+    .map((entry) => foldText(entry.trim()))
+    .filter(Boolean)
+
+  if (!isEquality && values.length > 1) {
+    return { error: `Use a single value with "${comparator}"` }
+  }
+
+  const numericValues: number[] = []
+
+  if (isNumeric) {
+    for (const entry of values) {
+      const parsed = parseNumericValue(field, entry)
+
+      if (parsed === null) {
+        return { error: `"${entry}" isn't ${NUMERIC_VALUE_EXAMPLES[field] ?? 'a number'}` }
+      }
+
+      numericValues.push(parsed)
+    }
+  }
+
+  return { term: { kind: 'field', field, comparator, values, numericValues, negated } }
+}
+
+/**
+ * Parses queries such as `pos:WR class:SR height>6'2 weight<=200 state:IN -injured`. Bare words are
+ * free-text matches, `-` negates a term, and invalid terms are reported in `errors` and ignored.
+ */
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+  const terms: SearchTerm[] = []
+  const errors: SearchQueryError[] = []
+
+  for (const token of tokenizeSearchQuery(query)) {
+    const result = parseToken(token)
+
+    if ('error' in result) {
+      errors.push({ token: token.text, message: result.error, start: token.start, end: token.end })
+    } else {
+      terms.push(result.term)
+    }
+  }
+
+  return { terms, errors }
+}
+
+const lower = (value: string | null) => foldText(value ?? '')
+
+const compareNumber = (actual: number | null, comparator: SearchComparator, expected: number) => {
+  if (actual === null) {
+    return false
+  }
+
+  switch (comparator) {
+    case '>':
+      return actual > expected
+    case '>=':
+      return actual >= expected
+    case '<':
+      return actual < expected
+    case '<=':
+      return actual <= expected
+    default:
+      return actual === expected
+  }
+}
+
+const readNumericField = (player: Player, field: SearchQueryField): number | null => {
+  switch (field) {
+    case 'height':
+      return parseHeight(player.height)
+    case 'weight':
+      return parseWeight(player.weight)
+    case 'years':
+      return player.experienceYears
+    default: {
+      const jersey = Number.parseInt(player.jersey, 10)
+      return Number.isFinite(jersey) ? jersey : null
+    }
+  }
+}
+
+const matchesFieldValue = (player: Player, field: SearchQueryField, value: string) => {
+  switch (field) {
+    case 'position':
+      return (
+        lower(player.positionAbbreviation) === value ||
+        (value.length > 2 && (lower(player.position).includes(value) || lower(player.positionName).includes(value)))
+      )
+    case 'class':
+      return (
+        lower(player.experienceAbbreviation) === value ||
+        lower(player.experience).startsWith(CLASS_ABBREVIATIONS[value] ?? value)
+      )
+    case 'state':
+      return lower(player.birthState) === value
+    case 'country':
+      return lower(player.birthCountryAbbreviation) === value || lower(player.birthCountry).includes(value)
+    case 'hometown':
+      return lower(player.hometown).includes(value)
+    case 'status':
+      return lower(player.statusType) === value || lower(player.status).includes(value)
+    default:
+      return [player.displayName, player.fullName, player.firstName, player.lastName].some((name) =>
+        lower(name).includes(value),
+      )
+  }
+}
+
+const matchesFlag = (player: Player, flag: SearchFlag) => {
+  switch (flag) {
+    case 'injured':
+      return player.injuries.length > 0
+    case 'active':
+      return player.isActive
+    default:
+      return !player.isActive
+  }
+}
+
+const matchesTerm = (player: Player, term: Exclude<SearchTerm, { kind: 'text' }>) => {
+  if (term.kind === 'flag') {
+    return matchesFlag(player, term.flag)
+  }
+
+  if (NUMERIC_SEARCH_FIELDS.has(term.field)) {
+    const actual = readNumericField(player, term.field)
+    return term.numericValues.some((expected) => compareNumber(actual, term.comparator, expected))
+  }
+
+  return term.values.some((value) => matchesFieldValue(player, term.field, value))
+}
+
+/**
+ * Returns `null` when the player fails any term (negated terms must not match), otherwise a relevance
+ * score summed from the free-text terms; field and flag terms only filter. No terms scores everyone 0.
+ */
+export const scoreSearchTerms = (player: Player, terms: SearchTerm[]): number | null => {
+  let score = 0
+  let searchableText: string | null = null
+
+  for (const term of terms) {
+    if (term.kind !== 'text') {
+      if (matchesTerm(player, term) === term.negated) {
+        return null
+      }
+
+      continue
+    }
+
+    searchableText ??= buildSearchableText(player)
+    const termScore = scoreTextTerm(player, term.value, searchableText)
+
+    if ((termScore !== null) === term.negated) {
+      return null
+    }
+
+    score += termScore ?? 0
+  }
+
+  return score
+}
+
+export const matchesSearchTerms = (player: Player, terms: SearchTerm[]) => scoreSearchTerms(player, terms) !== null
+
+/** The players matching `query`, in their original order. */
+export const searchPlayers = (players: Player[], query: string) => {
+  const { terms } = parseSearchQuery(query)
+  return terms.length ? players.filter((player) => matchesSearchTerms(player, terms)) : players
+}
+
+/** Folded values worth highlighting in results: free text plus `name:` and `hometown:` values. */
+export const getHighlightTerms = (terms: SearchTerm[]) =>
+  terms.flatMap((term) => {
+    if (term.negated) {
+      return []
+    }
+
+    if (term.kind === 'text') {
+      return [term.value]
+    }
+
+    return term.kind === 'field' && (term.field === 'name' || term.field === 'hometown') ? term.values : []
+  })
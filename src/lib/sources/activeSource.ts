@@ -0,0 +1,37 @@
+import type { RosterSource, RosterSourceId } from '../../types/sources'
+import { espnSource } from './espn'
+import { fixtureSource } from './fixture'
+
+const ROSTER_SOURCES: Record<RosterSourceId, RosterSource> = {
+  espn: espnSource,
+  fixture: fixtureSource,
+}
+
+export const isRosterSourceId = (value: unknown): value is RosterSourceId =>
+  typeof value === 'string' && value in ROSTER_SOURCES
+
+/**
+ * Resolves the data source from `VITE_ROSTER_SOURCE` (`espn` or `fixture`), defaulting to ESPN.
+ */
+export const resolveRosterSource = (value: unknown = import.meta.env.VITE_ROSTER_SOURCE): RosterSource => {
+  const normalized = typeof value === 'string' ? value.trim().toLowerCase() : ''
+
+  if (!normalized) {
+    return espnSource
+  }
+
+  if (!isRosterSourceId(normalized)) {
+    console.error(`Unknown VITE_ROSTER_SOURCE "${normalized}", falling back to ESPN`)
+    return espnSource
+  }
+
+  return ROSTER_SOURCES[normalized]
+}
+
+export const activeRosterSource = resolveRosterSource()
+
+/**
+ * Keeps caches from different sources apart so replayed fixtures never mix with live ESPN data.
+ */
+export const scopeStorageKey = (key: string, source: RosterSource = activeRosterSource) =>
+  source.id === 'espn' ? key : `${key}@${source.id}`
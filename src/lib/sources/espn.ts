@@ -0,0 +1,55 @@
+import type { RosterSource, SourceRequestOptions } from '../../types/sources'
+import { DataSourceError } from '../network/errors'
+import { fetchWithRetry, isAbortError } from '../network/retry'
+import { buildRosterEndpoint } from '../roster/constants'
+import { buildScheduleEndpoint } from '../schedule/constants'
+import { TEAMS_ENDPOINT } from '../teams/constants'
+
+const fetchJson = async (
+  url: string,
+  { signal, retries = 0, baseDelayMs, onResponse }: SourceRequestOptions = {},
+): Promise<unknown> => {
+  let response: Response
+
+  try {
+    response = await fetchWithRetry(url, { signal, retries, baseDelayMs })
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error
+    }
+
+    onResponse?.({ url, status: null })
+    throw new DataSourceError('network', 'Network request failed', { url, cause: error })
+  }
+
+  onResponse?.({ url, status: response.status })
+
+  if (!response.ok) {
+    throw new DataSourceError('http', `Request failed with status ${response.status}`, {
+      status: response.status,
+      url,
+    })
+  }
+
+  try {
+    return await response.json()
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error
+    }
+
+    throw new DataSourceError('parse', 'Response body was not valid JSON', {
+      status: response.status,
+      url,
+      cause: error,
+    })
+  }
+}
+
+export const espnSource: RosterSource = {
+  id: 'espn',
+  label: 'ESPN',
+  fetchRoster: (teamId, options) => fetchJson(buildRosterEndpoint(teamId), options),
+  fetchSchedule: (teamId, options) => fetchJson(buildScheduleEndpoint(teamId), options),
+  fetchTeams: (options) => fetchJson(TEAMS_ENDPOINT, options),
+}
@@ -0,0 +1,57 @@
+import type { RosterSource, SourceRequestOptions } from '../../types/sources'
+import { DataSourceError } from '../network/errors'
+import { isAbortError } from '../network/retry'
+
+// Loaded lazily so the sample payloads never end up in the bundle unless the fixture source is used.
+const FIXTURE_LOADERS = import.meta.glob<unknown>('../../fixtures/espn/*.json', { import: 'default' })
+
+const FIXTURE_LATENCY_MS = 250
+
+const fixturePath = (name: string) => `../../fixtures/espn/${name}.json`
+
+const loadFixture = async (name: string, { signal, onResponse }: SourceRequestOptions = {}) => {
+  const url = `fixture:${name}.json`
+  const loader = FIXTURE_LOADERS[fixturePath(name)]
+
+  if (!loader) {
+    onResponse?.({ url, status: 404 })
+    throw new DataSourceError('http', `No fixture named "${name}". Add src/fixtures/espn/${name}.json to serve it.`, {
+      status: 404,
+      url,
+    })
+  }
+
+  // A short delay keeps loading states visible, mirroring the live API.
+  await new Promise<void>((resolve, reject) => {
+    const handleAbort = () => {
+      window.clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort)
+      resolve()
+    }, FIXTURE_LATENCY_MS)
+
+    signal?.addEventListener('abort', handleAbort, { once: true })
+  })
+
+  try {
+    const payload = await loader()
+    onResponse?.({ url, status: 200 })
+    return payload
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error
+    }
+
+    throw new DataSourceError('parse', `Unable to load fixture "${name}"`, { url, cause: error })
+  }
+}
+
+export const fixtureSource: RosterSource = {
+  id: 'fixture',
+  label: 'Sample fixtures',
+  fetchRoster: (teamId, options) => loadFixture(`roster-${teamId}`, options),
+  fetchSchedule: (teamId, options) => loadFixture(`schedule-${teamId}`, options),
+  fetchTeams: (options) => loadFixture('teams', options),
+}
@@ -0,0 +1,21 @@
+import type { TeamSummary } from '../../types/teams'
+
+export const TEAMS_ENDPOINT =
+  'https://site.api.espn.com/apis/site/v2/sports/football/college-football/teams?groups=80&limit=300'
+export const TEAMS_STORAGE_KEY = 'iu-football-team-list-cache'
+export const SELECTED_TEAM_STORAGE_KEY = 'iu-football-selected-team'
+
+// Keeps the picker usable before the FBS list has loaded (or when ESPN is unreachable).
+export const FALLBACK_TEAMS: TeamSummary[] = [
+  {
+    id: '84',
+    displayName: 'Indiana Hoosiers',
+    shortDisplayName: 'Indiana',
+    abbreviation: 'IU',
+    location: 'Indiana',
+    nickname: 'Hoosiers',
+    color: '990000',
+    alternateColor: 'eeedebff',
+    logo: 'https://a.espncdn.com/i/teamlogos/ncaa/500/84.png',
+  },
+]
@@ -0,0 +1,98 @@
+import type { TeamSummary } from '../../types/teams'
+import { toStringOrNull, toTrimmedString, trimStringOrNull } from '../roster/data'
+
+export const isValidTeamSummary = (value: unknown): value is TeamSummary => {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+
+  const record = value as Record<string, unknown>
+
+  return typeof record.id === 'string' && typeof record.displayName === 'string'
+}
+
+const normalizeTeamEntry = (value: unknown): TeamSummary | null => {
+  if (!value || typeof value !== 'object') {
+    return null
+  }
+
+  const wrapper = value as Record<string, unknown>
+  const team = (wrapper.team && typeof wrapper.team === 'object' ? wrapper.team : wrapper) as Record<
+    string,
+    unknown
+  >
+
+  const id = toTrimmedString(team.id)
+  const displayName =
+    trimStringOrNull(toStringOrNull(team.displayName)) ?? trimStringOrNull(toStringOrNull(team.name))
+
+  if (!id || !displayName) {
+    return null
+  }
+
+  const logos = Array.isArray(team.logos) ? team.logos : []
+  const primaryLogo = logos.find((logo) => logo && typeof logo === 'object') as
+    | Record<string, unknown>
+    | undefined
+
+  return {
+    id,
+    displayName,
+    shortDisplayName: trimStringOrNull(toStringOrNull(team.shortDisplayName)),
+    abbreviation: trimStringOrNull(toStringOrNull(team.abbreviation)),
+    location: trimStringOrNull(toStringOrNull(team.location)),
+    nickname: trimStringOrNull(toStringOrNull(team.nickname)) ?? trimStringOrNull(toStringOrNull(team.name)),
+    color: trimStringOrNull(toStringOrNull(team.color)),
+    alternateColor: trimStringOrNull(toStringOrNull(team.alternateColor)),
+    logo: trimStringOrNull(toStringOrNull(primaryLogo?.href)),
+  }
+}
+
+export const sortTeamsByName = (teams: TeamSummary[]): TeamSummary[] =>
+  [...teams].sort((a, b) => a.displayName.localeCompare(b.displayName, undefined, { sensitivity: 'base' }))
+
+export const parseTeamsPayload = (payload: unknown): TeamSummary[] => {
+  const sports = (payload as { sports?: unknown[] })?.sports
+  const firstSport = Array.isArray(sports) ? (sports[0] as { leagues?: unknown[] } | undefined) : undefined
+  const firstLeague = Array.isArray(firstSport?.leagues)
+    ? (firstSport.leagues[0] as { teams?: unknown[] } | undefined)
+    : undefined
+  const entries = Array.isArray(firstLeague?.teams) ? firstLeague.teams : []
+
+  const teams = new Map<string, TeamSummary>()
+
+  for (const entry of entries) {
+    const team = normalizeTeamEntry(entry)
+
+    if (team && !teams.has(team.id)) {
+      teams.set(team.id, team)
+    }
+  }
+
+  return sortTeamsByName([...teams.values()])
+}
+
+export const mergeWithFallbackTeams = (teams: TeamSummary[], fallback: TeamSummary[]): TeamSummary[] => {
+  const knownIds = new Set(teams.map((team) => team.id))
+  const missing = fallback.filter((team) => !knownIds.has(team.id))
+
+  return missing.length ? sortTeamsByName([...teams, ...missing]) : teams
+}
+
+export const searchTeams = (teams: TeamSummary[], query: string): TeamSummary[] => {
+  const normalizedQuery = query.trim().toLowerCase()
+
+  if (!normalizedQuery) {
+    return teams
+  }
+
+  return teams.filter((team) =>
+    [team.displayName, team.shortDisplayName, team.abbreviation, team.location, team.nickname]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase()
+      .includes(normalizedQuery),
+  )
+}
+
+export const isTeamId = (value: unknown): value is string => typeof value === 'string' && /^\d+$/.test(value)
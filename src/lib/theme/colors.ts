@@ -0,0 +1,67 @@
+import type { RgbColor } from '../../types/theme'
+
+const WHITE: RgbColor = { r: 255, g: 255, b: 255 }
+const BLACK: RgbColor = { r: 0, g: 0, b: 0 }
+
+/** Reads ESPN's `990000` (or `#990000`, or shorthand `900`) into channels; `null` for anything else. */
+export const parseHexColor = (value: string | null): RgbColor | null => {
+  const hex = value?.trim().replace(/^#/, '') ?? ''
+
+  if (!/^([0-9a-f]{3}|[0-9a-f]{6})$/i.test(hex)) {
+    return null
+  }
+
+  const full = hex.length === 3 ? [...hex].map((digit) => digit + digit).join('') : hex
+
+  return {
+    r: Number.parseInt(full.slice(0, 2), 16),
+    g: Number.parseInt(full.slice(2, 4), 16),
+    b: Number.parseInt(full.slice(4, 6), 16),
+  }
+}
+
+const toLinear = (channel: number) => {
+  const value = channel / 255
+  return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4
+}
+
+const relativeLuminance = ({ r, g, b }: RgbColor) => 0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b)
+
+/** WCAG contrast ratio, from 1 (identical) to 21 (black on white). */
+export const contrastRatio = (a: RgbColor, b: RgbColor) => {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x)
+  return (lighter + 0.05) / (darker + 0.05)
+}
+
+const mix = (from: RgbColor, to: RgbColor, amount: number): RgbColor => ({
+  r: Math.round(from.r + (to.r - from.r) * amount),
+  g: Math.round(from.g + (to.g - from.g) * amount),
+  b: Math.round(from.b + (to.b - from.b) * amount),
+})
+
+/**
+ * Darkens (on a light background) or lightens (on a dark one) `color` in small steps until it reaches
+ * `minRatio` against `background`, keeping as much of the original hue as possible.
+ */
+export const ensureContrast = (color: RgbColor, background: RgbColor, minRatio: number): RgbColor => {
+  const target = relativeLuminance(background) > 0.5 ? BLACK : WHITE
+
+  for (let amount = 0; amount <= 1; amount += 0.05) {
+    const candidate = mix(color, target, amount)
+
+    if (contrastRatio(candidate, background) >= minRatio) {
+      return candidate
+    }
+  }
+
+  return target
+}
+
+/** White or near-black text, whichever reads better on `background`. */
+export const pickTextColor = (background: RgbColor): RgbColor => {
+  const dark: RgbColor = { r: 15, g: 23, b: 42 }
+  return contrastRatio(WHITE, background) >= contrastRatio(dark, background) ? WHITE : dark
+}
+
+/** Space-separated channels (`153 0 0`) for `rgb(var(--color) / <alpha-value>)` in the Tailwind config. */
+export const toCssChannels = ({ r, g, b }: RgbColor) => `${r} ${g} ${b}`
@@ -0,0 +1,25 @@
+import type { RgbColor, ThemeMode } from '../../types/theme'
+
+export const THEME_MODE_STORAGE_KEY = 'iu-football-theme-mode'
+
+export const THEME_MODES: ThemeMode[] = ['light', 'dark', 'system']
+
+export const DARK_MODE_CLASS = 'dark'
+
+export const DARK_MODE_MEDIA_QUERY = '(prefers-color-scheme: dark)'
+
+/** Hoosier crimson, used when ESPN sends no usable team colour. Matches the defaults in `index.css`. */
+export const DEFAULT_TEAM_COLOR: RgbColor = { r: 153, g: 0, b: 0 }
+
+/** The page surfaces team colours have to read against: white, and slate-900 in dark mode. */
+export const SURFACE_COLORS = {
+  light: { r: 255, g: 255, b: 255 },
+  dark: { r: 15, g: 23, b: 42 },
+} satisfies Record<string, RgbColor>
+
+/** WCAG AA for normal text, and the lower bar for icons and other non-text marks. */
+export const MIN_TEXT_CONTRAST = 4.5
+export const MIN_GRAPHIC_CONTRAST = 3
+
+/** Below this a team colour reads as the background itself, e.g. black on slate-900. */
+export const MIN_DISTINCT_CONTRAST = 1.5
@@ -0,0 +1,52 @@
+import type { TeamMeta } from '../../types/roster'
+import type { ResolvedThemeMode, TeamPalette, TeamTheme, ThemeMode } from '../../types/theme'
+import { contrastRatio, ensureContrast, parseHexColor, pickTextColor, toCssChannels } from './colors'
+import {
+  DEFAULT_TEAM_COLOR,
+  MIN_DISTINCT_CONTRAST,
+  MIN_GRAPHIC_CONTRAST,
+  MIN_TEXT_CONTRAST,
+  SURFACE_COLORS,
+  THEME_MODES,
+} from './constants'
+
+export const isThemeMode = (value: unknown): value is ThemeMode => THEME_MODES.includes(value as ThemeMode)
+
+/**
+ * Derives light and dark palettes from ESPN's team colours. For each surface the brand colour is
+ * `color`, unless it all but disappears against that surface and `alternateColor` doesn't (Purdue's
+ * black in dark mode gives way to its gold), then lightened or darkened until it meets the contrast minimums.
+ */
+export const buildTeamTheme = (teamMeta: Pick<TeamMeta, 'color' | 'alternateColor'> | null): TeamTheme => {
+  const parsed = [parseHexColor(teamMeta?.color ?? null), parseHexColor(teamMeta?.alternateColor ?? null)]
+  const candidates = parsed.filter((color) => color !== null)
+
+  if (candidates.length === 0) {
+    candidates.push(DEFAULT_TEAM_COLOR)
+  }
+
+  const buildPalette = (mode: ResolvedThemeMode): TeamPalette => {
+    const surface = SURFACE_COLORS[mode]
+    const primary = candidates.find((color) => contrastRatio(color, surface) >= MIN_DISTINCT_CONTRAST) ?? candidates[0]
+    const accent = candidates.find((color) => color !== primary) ?? primary
+    const team = ensureContrast(primary, surface, MIN_TEXT_CONTRAST)
+
+    return {
+      team,
+      contrast: pickTextColor(team),
+      accent: ensureContrast(accent, surface, MIN_GRAPHIC_CONTRAST),
+    }
+  }
+
+  return { light: buildPalette('light'), dark: buildPalette('dark') }
+}
+
+/** The custom properties `index.css` reads, e.g. `--team-light: 153 0 0`. */
+export const buildTeamThemeVariables = (theme: TeamTheme): Record<string, string> =>
+  Object.fromEntries(
+    (Object.keys(theme) as ResolvedThemeMode[]).flatMap((mode) => [
+      [`--team-${mode}`, toCssChannels(theme[mode].team)],
+      [`--team-contrast-${mode}`, toCssChannels(theme[mode].contrast)],
+      [`--team-accent-${mode}`, toCssChannels(theme[mode].accent)],
+    ]),
+  )
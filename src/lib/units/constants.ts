@@ -0,0 +1,9 @@
+import type { UnitSystem } from '../../types/units'
+
+/** ESPN lists heights and weights in feet, inches and pounds. */
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'imperial'
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['imperial', 'metric']
+
+export const CENTIMETERS_PER_INCH = 2.54
+export const KILOGRAMS_PER_POUND = 0.45359237
@@ -0,0 +1,64 @@
+import type { SizeMetric } from '../../types/analytics'
+import type { UnitSystem } from '../../types/units'
+import { parseHeight, parseWeight } from '../roster/data'
+import { CENTIMETERS_PER_INCH, DEFAULT_UNIT_SYSTEM, KILOGRAMS_PER_POUND, UNIT_SYSTEMS } from './constants'
+
+export const isUnitSystem = (value: unknown): value is UnitSystem => UNIT_SYSTEMS.includes(value as UnitSystem)
+
+/** Inches to centimetres or pounds to kilograms, for metric display. */
+export const toMetric = (value: number, metric: SizeMetric) =>
+  metric === 'height' ? value * CENTIMETERS_PER_INCH : value * KILOGRAMS_PER_POUND
+
+/**
+ * A measurement in inches or pounds, e.g. `74` → `6' 2"` and `215` → `215 lbs`, or `188 cm` and `98 kg` in
+ * metric; averages are rounded first.
+ */
+export const formatMeasurement = (value: number, metric: SizeMetric, units: UnitSystem = DEFAULT_UNIT_SYSTEM) => {
+  if (units === 'metric') {
+    return `${Math.round(toMetric(value, metric))} ${metric === 'height' ? 'cm' : 'kg'}`
+  }
+
+  const rounded = Math.round(value)
+
+  if (metric === 'weight') {
+    return `${rounded} lbs`
+  }
+
+  return `${Math.floor(rounded / 12)}' ${rounded % 12}"`
+}
+
+/**
+ * How far `value` is from `baseline`, e.g. `+2 in` or `−3 kg`; `null` when they're the same. Both are
+ * rounded in the display units first, so the change always matches the two values shown.
+ */
+export const formatMeasurementDifference = (
+  value: number,
+  baseline: number,
+  metric: SizeMetric,
+  units: UnitSystem = DEFAULT_UNIT_SYSTEM,
+) => {
+  const toDisplayUnits = (measurement: number) =>
+    Math.round(units === 'metric' ? toMetric(measurement, metric) : measurement)
+  const difference = toDisplayUnits(value) - toDisplayUnits(baseline)
+
+  if (difference === 0) {
+    return null
+  }
+
+  const unit = units === 'metric' ? (metric === 'height' ? 'cm' : 'kg') : metric === 'height' ? 'in' : 'lbs'
+  return `${difference > 0 ? '+' : '−'}${Math.abs(difference)} ${unit}`
+}
+
+/**
+ * ESPN's height listing in the chosen units. Imperial keeps ESPN's own text; a listing that doesn't
+ * parse (such as `—`) is shown as written.
+ */
+export const formatHeight = (height: string, units: UnitSystem = DEFAULT_UNIT_SYSTEM) => {
+  const inches = units === 'metric' ? parseHeight(height) : null
+  return inches === null ? height : formatMeasurement(inches, 'height', units)
+}
+
+export const formatWeight = (weight: string, units: UnitSystem = DEFAULT_UNIT_SYSTEM) => {
+  const pounds = units === 'metric' ? parseWeight(weight) : null
+  return pounds === null ? weight : formatMeasurement(pounds, 'weight', units)
+}
@@ -0,0 +1,6 @@
+/** Items rendered beyond each edge of the viewport, so fast scrolling doesn't flash empty space. */
+export const DEFAULT_OVERSCAN = 6
+
+// First guesses at item heights, replaced by measurements once the items have rendered.
+export const ESTIMATED_TABLE_ROW_HEIGHT = 45
+export const ESTIMATED_CARD_HEIGHT = 210
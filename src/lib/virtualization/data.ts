@@ -0,0 +1,57 @@
+import type { VirtualLayout, VirtualRange } from '../../types/virtualization'
+
+/** Stacks the items by key, using `measuredSizes` where an item has rendered and `estimatedSize` elsewhere. */
+export const buildVirtualLayout = (
+  keys: string[],
+  measuredSizes: Record<string, number>,
+  estimatedSize: number,
+  gap = 0,
+): VirtualLayout => {
+  const starts: number[] = []
+  const sizes: number[] = []
+  let offset = 0
+
+  keys.forEach((key) => {
+    const size = measuredSizes[key] ?? estimatedSize
+    starts.push(offset)
+    sizes.push(size)
+    offset += size + gap
+  })
+
+  return { starts, sizes, totalSize: keys.length ? offset - gap : 0 }
+}
+
+// The first item whose bottom edge is below `position`.
+const findItemAt = (layout: VirtualLayout, position: number) => {
+  let low = 0
+  let high = layout.starts.length
+
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2)
+
+    if (layout.starts[middle] + layout.sizes[middle] <= position) {
+      low = middle + 1
+    } else {
+      high = middle
+    }
+  }
+
+  return low
+}
+
+/** The items overlapping `viewportStart`–`viewportEnd`, measured from the top of the list. */
+export const findVisibleRange = (layout: VirtualLayout, viewportStart: number, viewportEnd: number): VirtualRange => {
+  const start = findItemAt(layout, viewportStart)
+  let end = start
+
+  while (end < layout.starts.length && layout.starts[end] < viewportEnd) {
+    end += 1
+  }
+
+  return { start, end }
+}
+
+export const expandRange = (range: VirtualRange, overscan: number, count: number): VirtualRange => ({
+  start: Math.max(0, range.start - overscan),
+  end: Math.min(count, range.end + overscan),
+})
@@ -0,0 +1,10 @@
+/** A cell in a keyboard-navigable grid, counted from the first body row and the first column. */
+export type GridPosition = {
+  row: number
+  column: number
+}
+
+export type GridSize = {
+  rows: number
+  columns: number
+}
@@ -0,0 +1,54 @@
+import type { PositionGroupKey, PositionUnit } from './positions'
+import type { Player } from './roster'
+
+export type SizeMetric = 'height' | 'weight'
+
+export type DistributionPoint = {
+  value: number
+  player: Player
+}
+
+/** Five-number summary plus the individual values, for a box-and-strip plot. */
+export type Distribution = {
+  min: number
+  q1: number
+  median: number
+  q3: number
+  max: number
+  points: DistributionPoint[]
+}
+
+export type PositionDistribution = {
+  key: PositionGroupKey
+  label: string
+  distribution: Distribution
+}
+
+export type CountBar = {
+  label: string
+  count: number
+}
+
+export type UnitAverage = {
+  unit: PositionUnit
+  label: string
+  playerCount: number
+  /** Inches; `null` when nobody in the unit lists a height. */
+  averageHeight: number | null
+  /** Pounds; `null` when nobody in the unit lists a weight. */
+  averageWeight: number | null
+}
+
+export type HomeStateShare = {
+  /** Postal code of the team's home state, when it could be worked out. */
+  homeState: string | null
+  inState: number
+  outOfState: number
+  international: number
+  unknown: number
+}
+
+export type LeaderboardEntry = {
+  player: Player
+  value: number
+}
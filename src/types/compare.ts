@@ -0,0 +1,12 @@
+/** One aligned line of the comparison table: a value per player, in selection order. */
+export type ComparisonRow = {
+  label: string
+  values: string[]
+  /**
+   * For measured rows, each player's difference from the first (baseline) player, e.g. `+2 in`. The
+   * baseline and players without a value get `null`; text rows have no differences at all.
+   */
+  differences: (string | null)[] | null
+  /** Index of the largest measurement, when the players differ; bolded in the table. */
+  leaderIndex: number | null
+}
@@ -0,0 +1,45 @@
+export type DataErrorKind = 'network' | 'http' | 'parse' | 'schema'
+
+export type DataErrorSummary = {
+  kind: DataErrorKind
+  message: string
+  status: number | null
+}
+
+export type RejectedAthlete = {
+  /** Position of the record in `team.athletes`. */
+  index: number
+  id: string | null
+  name: string | null
+  reason: string
+}
+
+export type PayloadDiagnostics = {
+  athleteCount: number
+  acceptedCount: number
+  rejected: RejectedAthlete[]
+  /** Athlete fields the parser does not recognise, with how many records carried each one. */
+  unknownFields: Record<string, number>
+  warnings: string[]
+}
+
+export type SourceResponseInfo = {
+  url: string
+  status: number | null
+}
+
+export type DiagnosticsResource = 'roster'
+
+export type DiagnosticsEntry = {
+  id: string
+  resource: DiagnosticsResource
+  teamId: string
+  sourceId: string
+  url: string | null
+  status: number | null
+  startedAt: number
+  durationMs: number
+  background: boolean
+  error: DataErrorSummary | null
+  payload: PayloadDiagnostics | null
+}
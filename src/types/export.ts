@@ -0,0 +1,10 @@
+import type { Translate } from './i18n'
+import type { UnitSystem } from './units'
+
+export type ExportFormat = 'csv' | 'json' | 'tsv'
+
+/** Exports match what the visitor sees: headers in their language, sizes in their units. */
+export type ExportSettings = {
+  units: UnitSystem
+  t: Translate
+}
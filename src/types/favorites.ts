@@ -0,0 +1,12 @@
+/** The staff watchlist, kept per browser and moved between devices as a JSON file. */
+export type Favorites = {
+  /** Starred player ids, in the order they were starred. */
+  playerIds: string[]
+  /** Free-text notes keyed by player id; a player can have a note without being starred. */
+  notes: Record<string, string>
+}
+
+export type FavoritesFile = Favorites & {
+  version: number
+  exportedAt: string
+}
@@ -0,0 +1,18 @@
+export type FacetKey =
+  'position' | 'experience' | 'status' | 'activity' | 'birthState' | 'birthCountry' | 'homeRegion' | 'injury'
+
+/** Checked values per facet. Values within a facet are OR-ed; facets are AND-ed together. */
+export type FacetSelection = Partial<Record<FacetKey, string[]>>
+
+export type FacetOption = {
+  value: string
+  /** Players that would match if this value were checked, given every other facet and the search. */
+  count: number
+  selected: boolean
+}
+
+export type FacetGroup = {
+  key: FacetKey
+  label: string
+  options: FacetOption[]
+}
@@ -0,0 +1,8 @@
+import type { PositionUnit } from './positions'
+import type { Player } from './roster'
+
+export type FlipCardSection = {
+  unit: PositionUnit
+  label: string
+  players: Player[]
+}
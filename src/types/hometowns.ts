@@ -0,0 +1,23 @@
+export type StateTile = {
+  /** Postal abbreviation, e.g. `IN`. */
+  code: string
+  name: string
+  column: number
+  row: number
+}
+
+export type HometownBucket = {
+  count: number
+  /** The raw `birthState` (or `birthCountry`) values behind the bucket. */
+  values: string[]
+}
+
+export type HometownSummary = {
+  /** Keyed by state code; states without players are absent. */
+  states: Record<string, HometownBucket>
+  international: HometownBucket
+  /** Players whose birthplace names neither a state nor a country. */
+  unknownCount: number
+  /** The largest state count, for shading. */
+  maxCount: number
+}
@@ -0,0 +1,10 @@
+import type { EN_MESSAGES } from '../lib/i18n/messages'
+
+export type Locale = 'en' | 'es'
+
+export type MessageKey = keyof typeof EN_MESSAGES
+
+/** Values for the `{name}` placeholders in a message. */
+export type MessageParams = Record<string, string | number>
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string
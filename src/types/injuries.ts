@@ -0,0 +1,32 @@
+import type { Player, PlayerInjury } from './roster'
+
+export type InjuryReportEntry = {
+  player: Player
+  /** The most recently dated injury, which sets the player's status. */
+  injury: PlayerInjury
+  /** Every injury listed for the player, newest first. */
+  injuries: PlayerInjury[]
+}
+
+export type InjuryReportGroup = {
+  status: string
+  entries: InjuryReportEntry[]
+}
+
+/** A player's injury status moving between two roster loads; `null` means no injury listed. */
+export type InjuryLogEntry = {
+  playerId: string
+  playerName: string
+  previous: string | null
+  current: string | null
+  detectedAt: number
+}
+
+export type InjuryLog = {
+  /** `updatedAt` of the last roster checked, so reloading the same roster logs nothing. */
+  checkedAt: number
+  /** Injury status per player id at the last check; healthy players are left out. */
+  statuses: Record<string, string>
+  /** Newest first. */
+  entries: InjuryLogEntry[]
+}
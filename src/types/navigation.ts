@@ -0,0 +1,17 @@
+import type { FacetSelection } from './filters'
+import type { SortConfig } from './roster'
+import type { AppView } from './views'
+
+/** The parts of the app's state that are mirrored in the URL query string. */
+export type UrlState = {
+  /** `null` when the link doesn't name a team, so the remembered team is kept. */
+  teamId: string | null
+  view: AppView
+  search: string
+  sort: SortConfig
+  facets: FacetSelection
+  /** A player's slug, or their id when ESPN gives no slug. */
+  player: string | null
+  /** References of the players in an open comparison, baseline first; empty when none is open. */
+  compare: string[]
+}
@@ -0,0 +1,11 @@
+export type PositionUnit = 'offense' | 'defense' | 'specialTeams'
+
+export type PositionGroupKey = 'QB' | 'RB' | 'WR' | 'TE' | 'OL' | 'DL' | 'LB' | 'DB' | 'ST' | 'ATH'
+
+export type PositionGroup = {
+  key: PositionGroupKey
+  label: string
+  unit: PositionUnit
+  /** ESPN position abbreviations that belong to the group. */
+  positions: string[]
+}
@@ -0,0 +1,8 @@
+import type { Locale } from './i18n'
+import type { UnitSystem } from './units'
+
+/** How the roster is presented to this visitor, shared by every component through `useDisplayPreferences`. */
+export type DisplayPreferences = {
+  locale: Locale
+  units: UnitSystem
+}
@@ -64,6 +64,7 @@ export type TeamNextEvent = {
   shortName: string | null
   date: string | null
   opponent: string | null
+  opponentId: string | null
   opponentAbbreviation: string | null
   opponentRank: number | null
   isHome: boolean | null
@@ -80,6 +81,33 @@ export type TeamNextEvent = {
   statusShortDetail: string | null
 }
 
+export type GameResult = 'W' | 'L' | 'T'
+
+export type ScheduleGame = {
+  id: string
+  name: string | null
+  shortName: string | null
+  date: string | null
+  opponent: string | null
+  opponentId: string | null
+  opponentAbbreviation: string | null
+  opponentRank: number | null
+  opponentLogo: string | null
+  isHome: boolean | null
+  isNeutralSite: boolean
+  venue: string | null
+  venueCity: string | null
+  venueState: string | null
+  seasonText: string | null
+  weekText: string | null
+  broadcasts: string[]
+  isCompleted: boolean
+  teamScore: number | null
+  opponentScore: number | null
+  result: GameResult | null
+  statusDetail: string | null
+}
+
 export type TeamMeta = {
   rank: number | null
   standingSummary: string | null
@@ -93,18 +121,83 @@ export type TeamMeta = {
   nextEvent: TeamNextEvent | null
 }
 
-export type SortKey = 'jersey' | 'displayName' | 'position' | 'experience' | 'height' | 'weight' | 'hometown'
+/** A roster column; every column can also be sorted on. */
+export type SortKey =
+  | 'jersey'
+  | 'displayName'
+  | 'position'
+  | 'positionName'
+  | 'experience'
+  | 'experienceYears'
+  | 'height'
+  | 'weight'
+  | 'hometown'
+  | 'birthplace'
+  | 'status'
+  | 'injuries'
 export type SortDirection = 'asc' | 'desc'
 
-export type SortConfig = {
+export type SortCriterion = {
   key: SortKey
   direction: SortDirection
 }
 
+/** Sort criteria in priority order: the first key sorts, later keys break ties. */
+export type SortConfig = SortCriterion[]
+
+/** Which roster columns show, in display order. Hidden columns keep their place in `order`. */
+export type ColumnLayout = {
+  order: SortKey[]
+  hidden: SortKey[]
+}
+
+export type RosterChangeKind = 'added' | 'removed' | 'jersey' | 'position' | 'status' | 'injury'
+
+export type RosterChange = {
+  kind: RosterChangeKind
+  playerId: string
+  playerName: string
+  previous: string | null
+  current: string | null
+}
+
+export type RosterDiff = {
+  comparedAt: number
+  previousUpdatedAt: number | null
+  changes: RosterChange[]
+}
+
+// Legacy localStorage cache (snapshot schema 1); only read when importing into IndexedDB.
 export type CachedRoster = {
   players: Player[]
   updatedAt: number
   recordSummary: string | null
   recordStats: TeamRecordStats | null
   teamMeta: TeamMeta | null
+  changes?: RosterDiff | null
+}
+
+export type CachedSchedule = {
+  games: ScheduleGame[]
+  updatedAt: number
+}
+
+export type RosterSnapshot = {
+  key: string
+  teamId: string
+  schemaVersion: number
+  snapshotDate: string
+  updatedAt: number
+  players: Player[]
+  recordSummary: string | null
+  recordStats: TeamRecordStats | null
+  teamMeta: TeamMeta | null
+  changes: RosterDiff | null
+}
+
+export type RosterSnapshotSummary = {
+  key: string
+  snapshotDate: string
+  updatedAt: number
+  playerCount: number
 }
@@ -0,0 +1,58 @@
+export type SearchQueryField =
+  | 'name'
+  | 'position'
+  | 'class'
+  | 'years'
+  | 'height'
+  | 'weight'
+  | 'jersey'
+  | 'state'
+  | 'country'
+  | 'hometown'
+  | 'status'
+  | 'flag'
+
+export type SearchComparator = ':' | '=' | '>' | '>=' | '<' | '<='
+
+export type SearchFlag = 'injured' | 'active' | 'inactive'
+
+export type SearchTerm =
+  | { kind: 'text'; value: string; negated: boolean }
+  | {
+      kind: 'field'
+      field: SearchQueryField
+      comparator: SearchComparator
+      /** Lower-cased values; `pos:WR,TE` matches either. */
+      values: string[]
+      /** Parsed values for numeric fields (inches for height, pounds for weight), aligned with `values`. */
+      numericValues: number[]
+      negated: boolean
+    }
+  | { kind: 'flag'; flag: SearchFlag; negated: boolean }
+
+export type SearchQueryError = {
+  token: string
+  message: string
+  /** Offsets of the offending token in the raw query. */
+  start: number
+  end: number
+}
+
+export type ParsedSearchQuery = {
+  terms: SearchTerm[]
+  errors: SearchQueryError[]
+}
+
+export type SearchVocabulary = {
+  positions: string[]
+  classes: string[]
+  states: string[]
+  countries: string[]
+}
+
+export type SearchHint = {
+  label: string
+  description: string | null
+  /** The full query to use when the hint is picked. */
+  completion: string
+}
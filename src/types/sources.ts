@@ -0,0 +1,24 @@
+import type { SourceResponseInfo } from './diagnostics'
+
+export type RosterSourceId = 'espn' | 'fixture'
+
+export type SourceRequestOptions = {
+  signal?: AbortSignal
+  retries?: number
+  baseDelayMs?: number
+  /** Called once the request settles with a response, before the body is read. */
+  onResponse?: (info: SourceResponseInfo) => void
+}
+
+/**
+ * Supplies raw ESPN-shaped payloads. Every adapter returns the same JSON shapes ESPN does, so the
+ * parsers in `lib/roster`, `lib/schedule` and `lib/teams` work unchanged regardless of the source.
+ * Failures are reported as `DataSourceError`s so callers can tell network, HTTP and parse problems apart.
+ */
+export type RosterSource = {
+  id: RosterSourceId
+  label: string
+  fetchRoster: (teamId: string, options?: SourceRequestOptions) => Promise<unknown>
+  fetchSchedule: (teamId: string, options?: SourceRequestOptions) => Promise<unknown>
+  fetchTeams: (options?: SourceRequestOptions) => Promise<unknown>
+}
@@ -0,0 +1,16 @@
+export type TeamSummary = {
+  id: string
+  displayName: string
+  shortDisplayName: string | null
+  abbreviation: string | null
+  location: string | null
+  nickname: string | null
+  color: string | null
+  alternateColor: string | null
+  logo: string | null
+}
+
+export type CachedTeamList = {
+  teams: TeamSummary[]
+  updatedAt: number
+}
@@ -0,0 +1,21 @@
+export type ThemeMode = 'light' | 'dark' | 'system'
+
+export type ResolvedThemeMode = Exclude<ThemeMode, 'system'>
+
+export type RgbColor = {
+  r: number
+  g: number
+  b: number
+}
+
+/** The team colours adjusted for one surface (light or dark). */
+export type TeamPalette = {
+  /** Brand colour, readable as text and icons on the page surface. */
+  team: RgbColor
+  /** Text colour for use on a `team` background. */
+  contrast: RgbColor
+  /** Secondary brand colour for small decorative marks. */
+  accent: RgbColor
+}
+
+export type TeamTheme = Record<ResolvedThemeMode, TeamPalette>
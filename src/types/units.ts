@@ -0,0 +1 @@
+export type UnitSystem = 'imperial' | 'metric'
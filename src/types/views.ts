@@ -0,0 +1,8 @@
+export type AppView = 'roster' | 'opponent' | 'schedule' | 'injuries' | 'dashboard'
+
+export type ViewTab = {
+  id: AppView
+  label: string
+  description?: string | null
+  disabled?: boolean
+}
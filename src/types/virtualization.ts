@@ -0,0 +1,19 @@
+/** Item positions down a windowed list, in pixels from the top of its first item. */
+export type VirtualLayout = {
+  starts: number[]
+  sizes: number[]
+  totalSize: number
+}
+
+/** A run of item indexes; `end` is exclusive. */
+export type VirtualRange = {
+  start: number
+  end: number
+}
+
+export type VirtualItem = {
+  index: number
+  key: string
+  start: number
+  size: number
+}
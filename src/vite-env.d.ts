@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Data source for rosters, schedules and the team list: `espn` (default) or `fixture`. */
+  readonly VITE_ROSTER_SOURCE?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
@@ -1,20 +1,30 @@
+/** Reads a colour from a `--color-*` custom property holding space-separated RGB channels (see `src/index.css`). */
+const themeColor = (name) => `rgb(var(--color-${name}) / <alpha-value>)`
+
+const SLATE_SHADES = ['50', '100', '200', '300', '400', '500', '600', '700', '800', '900', '950']
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
+  darkMode: 'class',
   theme: {
     extend: {
       fontFamily: {
         sans: ["Inter", 'Segoe UI', 'system-ui', '-apple-system', 'sans-serif'],
       },
       colors: {
-        hoosier: {
-          red: '#990000',
-          slate: '#3d3d3d',
-          cream: '#f4f2f2',
+        team: {
+          DEFAULT: themeColor('team'),
+          contrast: themeColor('team-contrast'),
+          accent: themeColor('team-accent'),
         },
+        page: themeColor('page'),
+        surface: themeColor('surface'),
+        scrim: 'rgb(2 6 23 / <alpha-value>)',
+        // The neutral scale flips in dark mode, so `text-slate-900 bg-surface` needs no `dark:` twin.
+        slate: Object.fromEntries(SLATE_SHADES.map((shade) => [shade, themeColor(`slate-${shade}`)])),
       },
     },
   },
   plugins: [],
 }
-
@@ -5,4 +5,10 @@ import react from '@vitejs/plugin-react'
 export default defineConfig(({ command }) => ({
   plugins: [react()],
   base: command === 'build' ? '/iu-football-gameday/' : '/',
+  build: {
+    rollupOptions: {
+      // The printable flip card is its own page so it can be linked, bookmarked and printed directly.
+      input: ['index.html', 'flip-card.html'],
+    },
+  },
 }))